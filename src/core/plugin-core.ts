@@ -2,6 +2,8 @@ import { App, Plugin, addIcon } from 'obsidian';
 import { CheekyChimpSettings } from '../ui/settings-tab';
 import { ScriptManager } from '../services/script-manager';
 import { ObsidianStorage } from '../services/obsidian-storage';
+import { ValueStore } from '../services/storage/value-store';
+import { ScriptValueFiles } from '../services/storage/script-value-files';
 import { BackupScriptInjector } from '../services/backup-script-injector';
 import { WebViewManager } from './webview-manager';
 import { MainMenuUI } from '../ui/menu/main-menu';
@@ -45,7 +47,14 @@ export class PluginCore {
      */
     async initialize(): Promise<void> {
         // 初始化服务
-        this.scriptStorage = new ObsidianStorage(this.plugin);
+        const storageDir = `${this.plugin.manifest.dir || `${this.app.vault.configDir}/plugins/${this.plugin.manifest.id}`}/storage`;
+        this.scriptStorage = new ObsidianStorage(new ValueStore(
+            new ScriptValueFiles(this.app.vault.adapter, storageDir),
+            () => ({
+                maxScriptBytes: this.settings.storageQuotaKB * 1024,
+                maxValueBytes: this.settings.storageValueQuotaKB * 1024
+            })
+        ));
         this.scriptManager = new ScriptManager();
         this.menuCommandManager = new MenuCommandManager();
         this.menuCommandInjector = new MenuCommandInjector();
@@ -209,7 +218,7 @@ export class PluginCore {
 
         try {
             // 添加脚本
-            const script = this.scriptManager.addScript(scriptTemplate);
+            const script = this.scriptManager.addScript(scriptTemplate, { keepBoth: true, origin: 'edit' });
             this.logger.info(`为域名 ${domain} 创建了新脚本`);
             
             // 打开编辑器
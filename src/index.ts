@@ -9,8 +9,9 @@ export type {
     MemoryStorageService
 } from './services/storage/StorageService';
 
-// 资源加载器导出
-export { ResourceLoader } from './services/resources/ResourceLoader';
+// 资源缓存导出
+export { ResourceCache } from './services/resources/resource-cache';
+export type { ScriptResources } from './services/resources/resource-cache';
 
 // 注入器导出
 export type { BaseInjector as InjectorBase } from './services/injection/interfaces';
@@ -43,6 +43,49 @@ import {
 import { Logger, LogLevel } from './services/logging/logger';
 import { BackupScriptInjector } from './services/backup-script-injector';
 import { EnhancedScriptInjector } from './services/EnhancedScriptInjector';
+import { UpdateChecker, PendingUpdate, requestUrlFetcher } from './services/update-checker';
+import { ScriptUpdateModal } from './ui/update-modal';
+import { GMBridge } from './services/bridge/gm-bridge';
+import { ConnectPermissionManager } from './services/connect-permissions';
+import { ConnectConsentModal } from './ui/connect-consent-modal';
+import { XhrBridgeHandler } from './services/bridge/xhr-bridge';
+import { NotificationService, ScriptNotificationOptions } from './services/notification-service';
+import { OpenInTabOptions, TabService } from './services/tab-service';
+import { ValueStore } from './services/storage/value-store';
+import { ScriptValueFiles } from './services/storage/script-value-files';
+import { ScriptHistory } from './services/storage/script-history';
+import { ResourceCache } from './services/resources/resource-cache';
+import { ScriptFolderSync } from './services/script-folder-sync';
+import { ScriptParser } from './services/script-parser';
+import { ScriptInstallModal } from './ui/install-modal';
+import { SCRIPT_EDITOR_VIEW_TYPE, ScriptEditorView } from './ui/script-editor-view';
+import { scriptMatchesUrl } from './services/url-matcher';
+import { isAnyApiGranted } from './services/injection/grants';
+import { isUserScriptUrl } from './services/utils/userscript-url';
+import { Backup, BackupScript, readBackup, readTampermonkeyExport, writeBackup } from './services/storage/script-backup';
+import { BackupRestoreModal, RestoreMode } from './ui/restore-modal';
+import { ArchiveImportModal } from './ui/archive-import-modal';
+import { addContextMenuScriptItems } from './ui/menu/main-menu';
+
+// 自动更新检查的轮询间隔（毫秒），实际是否检查由 updateInterval 设置决定
+const UPDATE_CHECK_TICK = 10 * 60 * 1000;
+
+// webview 打开一个链接会依次触发多个导航事件，这段时间内同一地址只弹出一次安装对话框
+const USER_SCRIPT_NAVIGATION_DEBOUNCE = 2000;
+
+// 不写入备份、恢复时也不覆盖的设置：脚本和按脚本保存的数据单独备份，其余是本机的状态
+const BACKUP_EXCLUDED_SETTINGS: (keyof CheekyChimpSettings)[] = [
+    'scripts', 'connectDecisions', 'mutedNotificationScripts', 'stableScriptIds', 'lastUpdateCheck'
+];
+
+// 消息桥请求对应的API，脚本通过 @grant 获得其中任意一个即可发出请求
+const NOTIFICATION_APIS = ['GM_notification', 'GM.notification'];
+const OPEN_IN_TAB_APIS = ['GM_openInTab', 'GM.openInTab'];
+// GM_setValue(name, undefined) 等写入也会删除值，修改和删除共用一组授权
+const VALUE_WRITE_APIS = [
+    'GM_setValue', 'GM_setValues', 'GM_deleteValue', 'GM_deleteValues',
+    'GM.setValue', 'GM.setValues', 'GM.deleteValue', 'GM.deleteValues'
+];
 
 // 输出调试信息，帮助诊断问题
 function debugDiagnostics() {
@@ -65,6 +108,15 @@ export default class CheekyChimpPlugin extends Plugin {
     scriptManager: ScriptManager;
     scriptStorage: ObsidianStorage;
     scriptInjector: EnhancedScriptInjector;
+    updateChecker: UpdateChecker;
+    gmBridge: GMBridge;
+    connectPermissions: ConnectPermissionManager;
+    notificationService: NotificationService;
+    tabService: TabService;
+    valueStore: ValueStore;
+    scriptFolderSync: ScriptFolderSync;
+    scriptHistory: ScriptHistory;
+    resourceCache: ResourceCache;
     settingTab: CheekyChimpSettingTab;
     private editScriptHandler: EventListener;
     private createScriptHandler: EventListener;
@@ -77,6 +129,12 @@ export default class CheekyChimpPlugin extends Plugin {
     private hasAddedScriptCommands = false;
     // 存储边栏图标引用
     private ribbonIconEl: HTMLElement | null = null;
+    // 在插件侧执行页面发起的 GM_xmlhttpRequest
+    private xhrBridge: XhrBridgeHandler;
+    // 每个脚本一个存储文件
+    private valueFiles: ScriptValueFiles;
+    // 最近一次拦截的用户脚本链接
+    private lastUserScriptNavigation: { url: string; time: number } | null = null;
 
     async onload() {
         console.log('Loading CheekyChimp plugin');
@@ -85,15 +143,39 @@ export default class CheekyChimpPlugin extends Plugin {
         debugDiagnostics();
 
         // Initialize services
-        this.scriptStorage = new ObsidianStorage(this);
+        this.valueFiles = new ScriptValueFiles(this.app.vault.adapter, `${this.getPluginDir()}/storage`);
+        this.valueStore = new ValueStore(this.valueFiles, () => ({
+            maxScriptBytes: this.settings.storageQuotaKB * 1024,
+            maxValueBytes: this.settings.storageValueQuotaKB * 1024
+        }));
+        this.scriptStorage = new ObsidianStorage(this.valueStore);
+        this.scriptHistory = new ScriptHistory(
+            this.app.vault.adapter,
+            `${this.getPluginDir()}/history`,
+            () => this.settings.historyLimit
+        );
+        this.resourceCache = new ResourceCache(this.app.vault.adapter, `${this.getPluginDir()}/resources`);
         this.scriptManager = new ScriptManager();
+        this.scriptFolderSync = new ScriptFolderSync(this.app, this.scriptManager);
         this.menuCommandManager = new MenuCommandManager();
         this.menuCommandInjector = new MenuCommandInjector();
         this.scriptMenuUI = new ScriptMenuUI();
+        this.updateChecker = new UpdateChecker(this.scriptManager);
+        this.gmBridge = new GMBridge();
+        this.connectPermissions = new ConnectPermissionManager(
+            () => this.settings.connectDecisions,
+            () => this.saveSettings(),
+            (request) => ConnectConsentModal.ask(this.app, request)
+        );
+        this.notificationService = new NotificationService(
+            () => this.settings.notificationStyle,
+            () => this.settings.mutedNotificationScripts
+        );
+        this.tabService = new TabService(this.app);
         
         // 使用增强版注入器
         console.log('[CheekyChimp] 使用增强版脚本注入器');
-        this.scriptInjector = new EnhancedScriptInjector(this.scriptStorage, this.scriptManager, {
+        this.scriptInjector = new EnhancedScriptInjector(this.valueStore, this.scriptManager, this.gmBridge, this.resourceCache, {
             debug: true, // 默认启用调试
             autoReinject: true // 默认启用自动重新注入
         });
@@ -106,16 +188,34 @@ export default class CheekyChimpPlugin extends Plugin {
 
         // Load settings
         await this.loadSettings();
+        this.scriptInjector.setSettings({ enableSandbox: this.settings.enableSandbox });
 
         // Register settings tab
         this.settingTab = new CheekyChimpSettingTab(this.app, this);
         this.addSettingTab(this.settingTab);
 
+        // 脚本编辑器视图
+        this.registerView(SCRIPT_EDITOR_VIEW_TYPE, (leaf) => new ScriptEditorView(leaf, this));
+
         // Load scripts into script manager
         this.scriptManager.loadScripts(this.settings.scripts);
 
+        // 旧版本的存储值保存在 data.json 中，迁移到每个脚本的存储文件
+        await this.migrateLegacyValues();
+
+        // 旧版本的脚本ID带有安装时间，迁移为由 @namespace 和 @name 生成的ID
+        await this.migrateScriptIds();
+
         // Register events for saving changes
         this.registerScriptManagerEvents();
+
+        // 库中的文件在布局就绪后才全部加载，之后再同步脚本文件夹
+        this.app.workspace.onLayoutReady(() => {
+            this.applyScriptFolderSetting();
+        });
+
+        // 处理页面中GM API通过消息桥发来的请求
+        this.registerBridgeHandlers();
         
         // Register for handling webview creation
         this.registerWebViewHandlers();
@@ -123,6 +223,12 @@ export default class CheekyChimpPlugin extends Plugin {
         // 注册刷新处理程序，确保页面刷新后重新注入脚本
         this.registerRefreshHandlers();
 
+        // 定期检查脚本更新
+        this.scheduleUpdateChecks();
+
+        // 注册命令面板中的命令
+        this.registerCommands();
+
         // 添加油猴图标到ribbon
         // 使用原始油猴图标
         // 使用新的图片图标
@@ -163,6 +269,13 @@ export default class CheekyChimpPlugin extends Plugin {
         document.removeEventListener('cheekychimp-edit-script', this.editScriptHandler);
         document.removeEventListener('cheekychimp-create-script', this.createScriptHandler);
         
+        // 中止进行中的请求，停止接收页面消息
+        this.xhrBridge.abortAll();
+        this.notificationService.closeAll();
+        this.tabService.destroy();
+        this.gmBridge.destroy();
+        this.scriptFolderSync.stop();
+        
         // 确保移除边栏图标
         if (this.ribbonIconEl) {
             this.ribbonIconEl.remove();
@@ -172,6 +285,8 @@ export default class CheekyChimpPlugin extends Plugin {
 
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.settings.connectDecisions = this.settings.connectDecisions || {};
+        this.settings.mutedNotificationScripts = this.settings.mutedNotificationScripts || [];
     }
 
     async saveSettings() {
@@ -182,6 +297,116 @@ export default class CheekyChimpPlugin extends Plugin {
         await this.saveData(this.settings);
     }
 
+    /**
+     * 按设置开始或停止同步脚本文件夹
+     */
+    async applyScriptFolderSetting(): Promise<void> {
+        if (!this.settings.scriptFolderEnabled) {
+            this.scriptFolderSync.stop();
+            return;
+        }
+
+        try {
+            await this.scriptFolderSync.start(this.settings.scriptFolder);
+        } catch (error) {
+            globalLogger.error('同步脚本文件夹失败', error);
+            new Notice(`同步脚本文件夹失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 注册自动更新检查，布局就绪后先检查一次，之后定期检查是否到了更新间隔
+     */
+    private scheduleUpdateChecks(): void {
+        this.app.workspace.onLayoutReady(() => {
+            this.runScheduledUpdateCheck();
+        });
+
+        this.registerInterval(window.setInterval(() => {
+            this.runScheduledUpdateCheck();
+        }, UPDATE_CHECK_TICK));
+    }
+
+    /**
+     * 在启用自动更新且距上次检查超过设定间隔时检查更新
+     */
+    private async runScheduledUpdateCheck(): Promise<void> {
+        if (!this.settings.automaticallyCheckForUpdates) {
+            return;
+        }
+
+        const interval = this.settings.updateInterval * 60 * 60 * 1000;
+        if (Date.now() - (this.settings.lastUpdateCheck || 0) < interval) {
+            return;
+        }
+
+        await this.checkForScriptUpdates(false);
+    }
+
+    /**
+     * 检查脚本更新，发现更新时弹出确认对话框
+     * @param manual 是否由用户手动触发，手动触发时会提示检查结果
+     */
+    async checkForScriptUpdates(manual: boolean): Promise<void> {
+        if (this.updateChecker.isChecking()) {
+            if (manual) {
+                new Notice('正在检查更新，请稍候');
+            }
+            return;
+        }
+
+        if (manual) {
+            new Notice('正在检查脚本更新...');
+        }
+
+        const { updates, failures } = await this.updateChecker.checkForUpdates();
+
+        this.settings.lastUpdateCheck = Date.now();
+        await this.saveSettings();
+
+        if (manual && failures.length > 0) {
+            new Notice(`${failures.length} 个脚本检查更新失败: ${failures.map(f => f.script.name).join(', ')}`);
+        }
+
+        if (updates.length === 0) {
+            if (manual) {
+                new Notice('所有脚本都已是最新版本');
+            }
+            return;
+        }
+
+        new ScriptUpdateModal(this.app, updates, (confirmed) => {
+            this.applyScriptUpdates(confirmed);
+        }).open();
+    }
+
+    /**
+     * 应用用户确认的更新
+     */
+    private async applyScriptUpdates(updates: PendingUpdate[]): Promise<void> {
+        if (updates.length === 0) {
+            return;
+        }
+
+        let applied = 0;
+        for (const update of updates) {
+            try {
+                this.updateChecker.applyUpdate(update);
+                applied++;
+            } catch (error) {
+                console.error(`[CheekyChimp] 更新脚本 "${update.script.name}" 失败:`, error);
+                new Notice(`更新脚本 "${update.script.name}" 失败: ${error.message}`);
+            }
+        }
+
+        await this.saveSettings();
+        this.settingTab.display();
+
+        if (applied > 0) {
+            new Notice(`已更新 ${applied} 个脚本`);
+        }
+    }
+
     /**
      * 打开插件设置页面
      */
@@ -204,18 +429,121 @@ export default class CheekyChimpPlugin extends Plugin {
     }
 
     /**
-     * 打开脚本编辑器
+     * 在新标签页中打开脚本编辑器，脚本已在编辑时切换到对应的标签页
      */
-    openScriptEditor(scriptId: string): void {
-        const script = this.scriptManager.getScript(scriptId);
-        if (script) {
-            // 打开设置页面
-            this.openSettings();
-            // 通知设置页面打开特定脚本
-            new Notice(i18n.t('opening_script_editor', { name: script.name }));
+    async openScriptEditor(scriptId: string): Promise<void> {
+        if (!this.scriptManager.getScript(scriptId)) {
+            new Notice('找不到脚本');
+            return;
+        }
+
+        const existing = this.app.workspace.getLeavesOfType(SCRIPT_EDITOR_VIEW_TYPE)
+            .find(leaf => (leaf.view as ScriptEditorView).getScriptId() === scriptId);
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            return;
+        }
+
+        const leaf = this.app.workspace.getLeaf('tab');
+        await leaf.setViewState({
+            type: SCRIPT_EDITOR_VIEW_TYPE,
+            active: true,
+            state: { scriptId }
+        });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * 把脚本回滚到历史中的某个版本
+     */
+    async rollbackScript(scriptId: string, source: string): Promise<void> {
+        this.scriptManager.updateScript(scriptId, source, 'rollback');
+        await this.saveSettings();
+    }
+
+    /**
+     * 重新加载当前地址匹配脚本的网页
+     * @returns 重新加载的网页数量
+     */
+    reloadWebviewsForScript(script: UserScript): number {
+        let count = 0;
+        document.querySelectorAll('webview, iframe').forEach(element => {
+            const frame = element as HTMLElement & { reload?: () => void };
+            const url = this.getFrameUrl(frame);
+
+            if (!url || !/^https?:/i.test(url) || !scriptMatchesUrl(script, url)) {
+                return;
+            }
+
+            if (frame.reload) {
+                frame.reload();
+            } else {
+                (frame as HTMLIFrameElement).src = url;
+            }
+            count++;
+        });
+        return count;
+    }
+
+    /**
+     * 读取 webview/iframe 当前页面的地址
+     */
+    private getFrameUrl(element: HTMLElement): string {
+        const frame = element as HTMLElement & { getURL?: () => string };
+        try {
+            return frame.getURL ? frame.getURL() : (frame as HTMLIFrameElement).src;
+        } catch (e) {
+            return frame.getAttribute('src') || '';
+        }
+    }
+
+    /**
+     * 最近使用的标签页中打开的网页
+     */
+    private getActivePage(): { element: HTMLElement; url: string } | null {
+        const leaf = this.app.workspace.getMostRecentLeaf();
+        const element = leaf?.view.containerEl.querySelector('webview, iframe') as HTMLElement | null;
+        if (!element) {
+            return null;
+        }
+
+        const url = this.getFrameUrl(element);
+        return url && /^https?:/i.test(url) ? { element, url } : null;
+    }
+
+    /**
+     * 在网页中运行 @run-at context-menu 的脚本
+     */
+    async runContextMenuScript(element: HTMLElement, url: string, script: UserScript): Promise<void> {
+        const success = await this.scriptInjector.runContextMenuScript(element, url, script);
+        if (!success) {
+            new Notice(`运行脚本失败: ${script.name}`);
         }
     }
 
+    /**
+     * 在内置浏览器的右键位置显示当前页面可以运行的脚本
+     */
+    private showPageContextMenu(webview: HTMLElement, event: any): void {
+        const url = this.getFrameUrl(webview);
+        const scripts = url ? this.scriptManager.findContextMenuScriptsForUrl(url) : [];
+        if (scripts.length === 0) {
+            return;
+        }
+
+        const menu = new Menu();
+        menu.addItem((item) => {
+            item.setTitle("CheekyChimp")
+                .setDisabled(true);
+        });
+        addContextMenuScriptItems(menu, scripts, script => this.runContextMenuScript(webview, url, script));
+
+        // 事件中的坐标相对于 webview
+        const rect = webview.getBoundingClientRect();
+        const params = event.params || {};
+        menu.showAtPosition({ x: rect.left + (params.x || 0), y: rect.top + (params.y || 0) });
+    }
+
     /**
      * 为特定URL创建新脚本
      */
@@ -243,7 +571,7 @@ export default class CheekyChimpPlugin extends Plugin {
 
         try {
             // 添加脚本
-            const script = this.scriptManager.addScript(scriptTemplate);
+            const script = this.scriptManager.addScript(scriptTemplate, { keepBoth: true, origin: 'edit' });
             new Notice(i18n.t('script_created_for_domain', { domain }));
             
             // 打开编辑器
@@ -254,21 +582,54 @@ export default class CheekyChimpPlugin extends Plugin {
         }
     }
 
+    /**
+     * 注册命令面板中的命令
+     */
+    private registerCommands() {
+        this.addCommand({
+            id: 'export-backup',
+            name: '导出全部脚本、存储和设置',
+            callback: () => this.exportBackup()
+        });
+
+        this.addCommand({
+            id: 'restore-backup',
+            name: '从备份恢复',
+            callback: () => this.restoreBackupFromFile()
+        });
+    }
+
     /**
      * Register events from script manager
      */
     private registerScriptManagerEvents() {
         // Listen for script changes
-        this.scriptManager.on('onScriptAdded', async () => {
+        this.scriptManager.on('onScriptAdded', async (script, origin) => {
             await this.saveSettings();
+            await this.scriptHistory.record(script, origin);
+            await this.prefetchResources(script);
         });
         
-        this.scriptManager.on('onScriptRemoved', async () => {
+        this.scriptManager.on('onScriptRemoved', async (scriptId) => {
+            await this.connectPermissions.clear(scriptId);
+            this.settings.mutedNotificationScripts = this.settings.mutedNotificationScripts.filter(id => id !== scriptId);
+            await this.valueStore.clear(scriptId);
+            await this.scriptHistory.remove(scriptId);
             await this.saveSettings();
+            await this.resourceCache.prune(this.scriptManager.getAllScripts());
         });
         
-        this.scriptManager.on('onScriptUpdated', async () => {
+        this.scriptManager.on('onScriptUpdated', async (script, origin, previousSource) => {
+            // 回滚后重新加载运行该脚本的网页，让页面使用回滚后的版本
+            if (origin === 'rollback') {
+                this.reloadWebviewsForScript(script);
+            }
             await this.saveSettings();
+            if (origin) {
+                await this.scriptHistory.record(script, origin, previousSource);
+                await this.prefetchResources(script);
+                await this.resourceCache.prune(this.scriptManager.getAllScripts());
+            }
         });
         
         this.scriptManager.on('onScriptEnabled', async () => {
@@ -280,6 +641,437 @@ export default class CheekyChimpPlugin extends Plugin {
         });
     }
 
+    /**
+     * 下载脚本的 @require 和 @resource 并保存到缓存，失败时提示用户
+     */
+    private async prefetchResources(script: UserScript): Promise<void> {
+        const failures = await this.resourceCache.prefetch(script);
+        if (failures.length > 0) {
+            failures.forEach(error => globalLogger.error(`脚本 ${script.name} 的资源下载失败`, error));
+            new Notice(`脚本 "${script.name}" 有 ${failures.length} 个依赖或资源下载失败，注入时会重试: ${failures.map(error => error.resourceUrl).join(', ')}`);
+        }
+    }
+
+    /**
+     * 注册消息桥请求处理程序
+     */
+    private registerBridgeHandlers() {
+        // GM_xmlhttpRequest 检查@connect权限后由插件侧发出请求，不受页面跨域限制
+        this.xhrBridge = new XhrBridgeHandler(
+            this.gmBridge,
+            (scriptId) => this.scriptManager.getScript(scriptId),
+            this.connectPermissions
+        );
+        this.xhrBridge.register();
+
+        // GM_notification：显示通知，点击和关闭事件推送回页面
+        this.gmBridge.handle('notification', (payload: { options: ScriptNotificationOptions }, context) => {
+            const script = this.requireGrant(context.scriptId, NOTIFICATION_APIS);
+            const id = this.notificationService.show(script, payload.options, {
+                onclick: () => this.gmBridge.pushToCaller(context, 'notification-event', { id, type: 'click' }),
+                ondone: () => this.gmBridge.pushToCaller(context, 'notification-event', { id, type: 'done' }),
+                onhighlight: () => this.revealLeafOf(context.element)
+            });
+            return id;
+        });
+
+        this.gmBridge.handle('notification-close', (payload: { id: string }, context) => {
+            this.requireGrant(context.scriptId, NOTIFICATION_APIS);
+            this.notificationService.close(payload.id);
+        });
+
+        // GM_openInTab：在内置网页浏览器的新标签页中打开，关闭时通知页面
+        this.gmBridge.handle('open-in-tab', (payload: { url: string; options?: OpenInTabOptions | boolean }, context) => {
+            this.requireGrant(context.scriptId, OPEN_IN_TAB_APIS);
+            const handle = this.tabService.open(payload.url, payload.options, context.element);
+            handle.onClose(() => this.gmBridge.pushToCaller(context, 'tab-event', { id: handle.id, type: 'closed' }));
+            return handle.closed ? null : handle.id;
+        });
+
+        this.gmBridge.handle('tab-close', (payload: { id: string }, context) => {
+            this.requireGrant(context.scriptId, OPEN_IN_TAB_APIS);
+            this.tabService.close(payload.id);
+        });
+
+        // GM_setValue(s)/GM_deleteValue(s) 写入插件侧存储，超出配额时以错误回传，
+        // 变化广播给其他页面中运行的同一脚本
+        this.gmBridge.handle('values-set', (payload: { values: Record<string, any> }, context) => {
+            this.requireGrant(context.scriptId, VALUE_WRITE_APIS);
+            return this.valueStore.setMany(context.scriptId, payload.values || {}, context.element);
+        });
+
+        this.gmBridge.handle('values-delete', (payload: { names: string[] }, context) => {
+            this.requireGrant(context.scriptId, VALUE_WRITE_APIS);
+            return this.valueStore.deleteMany(context.scriptId, payload.names || [], context.element);
+        });
+
+        // 只推送给运行着该脚本的页面；发起修改的页面已经在本地更新并通知了自己的监听器
+        this.valueStore.onChange((change, source) => {
+            this.gmBridge.pushToScript(change.scriptId, 'value-change', change, source);
+        });
+    }
+
+    /**
+     * 插件所在目录（相对于库根目录）
+     */
+    private getPluginDir(): string {
+        return this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    }
+
+    /**
+     * 把旧版本保存在 data.json 中的存储值迁移到每个脚本的存储文件
+     *
+     * 旧版本的值有两种形式：settings.scriptValues[脚本ID]，以及顶层的 `<脚本ID>:<键>`
+     */
+    private async migrateLegacyValues(): Promise<void> {
+        const data = this.settings as CheekyChimpSettings & Record<string, any>;
+        const legacy: Record<string, Record<string, any>> = { ...(data.scriptValues || {}) };
+        let changed = 'scriptValues' in data;
+        delete data.scriptValues;
+
+        const scriptIds = new Set(this.settings.scripts.map(script => script.id));
+        Object.keys(data).forEach(key => {
+            const index = key.indexOf(':');
+            const scriptId = index > 0 ? key.substring(0, index) : '';
+            if (scriptIds.has(scriptId)) {
+                legacy[scriptId] = legacy[scriptId] || {};
+                legacy[scriptId][key.substring(index + 1)] = data[key];
+                delete data[key];
+                changed = true;
+            }
+        });
+
+        if (!changed) {
+            return;
+        }
+
+        for (const scriptId of Object.keys(legacy)) {
+            // 存储文件中已有的值优先
+            const current = await this.valueFiles.load(scriptId);
+            await this.valueFiles.save(scriptId, { ...legacy[scriptId], ...current });
+        }
+        await this.saveSettings();
+        globalLogger.info(`已将 ${Object.keys(legacy).length} 个脚本的存储值迁移到存储文件`);
+    }
+
+    /**
+     * 把旧版本带有安装时间的脚本ID迁移为由 @namespace 和 @name 生成的稳定ID
+     *
+     * 存储值、跨域连接决定、通知静音和菜单命令随脚本一起转移到新ID。
+     * 同一脚本安装了多份时，第一份使用稳定ID，其余的加上序号。
+     */
+    private async migrateScriptIds(): Promise<void> {
+        if (this.settings.stableScriptIds) {
+            return;
+        }
+
+        const renamed: Record<string, string> = {};
+        const usedIds = new Set<string>();
+        const scripts = this.settings.scripts.map(script => {
+            const stableId = ScriptParser.getScriptId(script.name, script.namespace);
+            let newId = stableId;
+            for (let i = 2; usedIds.has(newId); i++) {
+                newId = `${stableId}_${i}`;
+            }
+            usedIds.add(newId);
+            if (newId !== script.id) {
+                renamed[script.id] = newId;
+            }
+            return Object.assign(script, { id: newId });
+        });
+
+        for (const oldId of Object.keys(renamed)) {
+            const newId = renamed[oldId];
+
+            const values = await this.valueFiles.load(oldId);
+            if (Object.keys(values).length > 0) {
+                await this.valueFiles.save(newId, values);
+            }
+            await this.valueFiles.remove(oldId);
+
+            if (this.settings.connectDecisions[oldId]) {
+                this.settings.connectDecisions[newId] = this.settings.connectDecisions[oldId];
+                delete this.settings.connectDecisions[oldId];
+            }
+
+            this.settings.mutedNotificationScripts = this.settings.mutedNotificationScripts
+                .map(id => id === oldId ? newId : id);
+
+            this.menuCommandManager.migrateScriptId(oldId, newId);
+        }
+
+        this.scriptManager.loadScripts(scripts);
+        this.settings.stableScriptIds = true;
+        await this.saveSettings();
+
+        if (Object.keys(renamed).length > 0) {
+            globalLogger.info(`已将 ${Object.keys(renamed).length} 个脚本迁移到新的脚本ID`);
+        }
+    }
+
+    /**
+     * 在安装对话框中展示脚本，用户确认后安装
+     *
+     * 已安装同一脚本（@namespace 和 @name 相同）时可以选择更新或保留两者。
+     * @param sourceUrl 脚本的下载地址，在对话框中展示
+     * @returns 安装或更新后的脚本，用户取消时返回 null
+     */
+    async installScript(source: string, sourceUrl = ''): Promise<UserScript | null> {
+        const incoming = ScriptParser.parseScript(source);
+        const installed = this.scriptManager.findInstalledScript(incoming);
+
+        const choice = await ScriptInstallModal.ask(this.app, incoming, installed, sourceUrl);
+        if (choice === 'replace' && installed) {
+            return this.scriptManager.updateScript(installed.id, source, 'import');
+        }
+        if (choice === 'install' || choice === 'keep-both') {
+            return this.scriptManager.addScript(source, { keepBoth: choice === 'keep-both' });
+        }
+        return null;
+    }
+
+    /**
+     * 下载脚本并打开安装对话框
+     * @returns 安装或更新后的脚本，用户取消时返回 null
+     */
+    async installScriptFromUrl(url: string): Promise<UserScript | null> {
+        const source = await requestUrlFetcher(url);
+        if (!source.includes('==UserScript==') || !source.includes('==/UserScript==')) {
+            throw new Error('不是有效的用户脚本格式');
+        }
+
+        const script = await this.installScript(source, url);
+        if (script) {
+            await this.saveSettings();
+        }
+        return script;
+    }
+
+    /**
+     * 把所有脚本、启用状态、顺序、存储值、跨域连接决定和插件设置导出为 zip 备份并下载
+     */
+    async exportBackup(): Promise<void> {
+        try {
+            const scripts: BackupScript[] = [];
+            for (const script of this.scriptManager.getAllScripts()) {
+                scripts.push({
+                    source: script.source,
+                    enabled: script.enabled,
+                    position: script.position,
+                    values: await this.valueStore.getValues(script.id),
+                    modified: script.lastUpdated,
+                    connectDecisions: this.settings.connectDecisions[script.id],
+                    notificationsMuted: this.settings.mutedNotificationScripts.includes(script.id),
+                    injectIntoOverride: script.injectIntoOverride || undefined
+                });
+            }
+
+            const settings: Record<string, any> = {};
+            Object.keys(this.settings).forEach((key: keyof CheekyChimpSettings) => {
+                if (!BACKUP_EXCLUDED_SETTINGS.includes(key)) {
+                    settings[key] = this.settings[key];
+                }
+            });
+
+            const blob = await writeBackup({ scripts, settings });
+            const url = URL.createObjectURL(blob);
+
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `cheekychimp-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+            a.click();
+
+            URL.revokeObjectURL(url);
+            new Notice(`已导出 ${scripts.length} 个脚本`);
+        } catch (error) {
+            globalLogger.error('导出备份失败', error);
+            new Notice(`导出备份失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 选择 CheekyChimp 或 Tampermonkey 的 zip 备份，确认恢复方式后恢复
+     */
+    restoreBackupFromFile(): void {
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.zip';
+        fileInput.style.display = 'none';
+        document.body.appendChild(fileInput);
+
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files && fileInput.files[0];
+            document.body.removeChild(fileInput);
+            if (!file) {
+                return;
+            }
+
+            try {
+                const backup = await readBackup(file);
+                const mode = await BackupRestoreModal.ask(this.app, backup);
+                if (mode) {
+                    await this.restoreBackup(backup, mode);
+                }
+            } catch (error) {
+                globalLogger.error('恢复备份失败', error);
+                new Notice(`恢复备份失败: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+
+        fileInput.click();
+    }
+
+    /**
+     * 恢复备份
+     *
+     * 已安装的同一脚本（@namespace 和 @name 相同）会被更新，其余脚本作为新脚本添加。
+     * 替换时还会删除备份中没有的脚本，按备份排列脚本顺序，并用备份的存储值和设置代替现有的。
+     */
+    async restoreBackup(backup: Backup, mode: RestoreMode): Promise<void> {
+        const replace = mode === 'replace';
+
+        if (replace && backup.settings) {
+            const settings = backup.settings as Record<string, any>;
+            Object.keys(DEFAULT_SETTINGS).forEach((key: keyof CheekyChimpSettings) => {
+                if (!BACKUP_EXCLUDED_SETTINGS.includes(key) && settings[key] !== undefined) {
+                    (this.settings as any)[key] = settings[key];
+                }
+            });
+        }
+
+        const restoredIds: string[] = [];
+        let failed = 0;
+        for (const item of backup.scripts) {
+            try {
+                restoredIds.push(await this.restoreBackupScript(item, restoredIds, replace));
+            } catch (error) {
+                failed++;
+                globalLogger.error('恢复脚本失败', error);
+            }
+        }
+
+        if (replace) {
+            this.scriptManager.getAllScripts()
+                .filter(script => !restoredIds.includes(script.id))
+                .forEach(script => this.scriptManager.removeScript(script.id));
+            this.scriptManager.setScriptOrder(restoredIds);
+        }
+
+        await this.saveSettings();
+        this.settingTab.display();
+        if (replace && backup.settings) {
+            this.updateRibbonIconVisibility();
+            this.scriptInjector.setSettings({ enableSandbox: this.settings.enableSandbox });
+            await this.applyScriptFolderSetting();
+        }
+
+        new Notice(`已恢复 ${restoredIds.length} 个脚本${failed > 0 ? `，${failed} 个脚本恢复失败，详见控制台` : ''}`);
+    }
+
+    /**
+     * 恢复备份中的一个脚本及其存储值和设置
+     * @param restoredIds 本次已恢复的脚本，同一脚本在备份中有多份时其余的作为新脚本添加
+     * @returns 恢复后的脚本ID
+     */
+    private async restoreBackupScript(item: BackupScript, restoredIds: string[], replace: boolean): Promise<string> {
+        const installed = this.scriptManager.findInstalledScript(ScriptParser.parseScript(item.source));
+
+        let script: UserScript;
+        if (installed && !restoredIds.includes(installed.id)) {
+            script = installed.source === item.source
+                ? installed
+                : this.scriptManager.updateScript(installed.id, item.source, 'import');
+        } else {
+            script = this.scriptManager.addScript(item.source, { keepBoth: true });
+        }
+
+        await this.applyBackupScriptState(script, item, replace);
+        return script.id;
+    }
+
+    /**
+     * 把备份中脚本的启用状态、存储值、连接决定、通知静音和注入模式应用到已安装的脚本
+     * @param replace 清除脚本现有的存储值和连接决定，否则只覆盖备份中有的
+     */
+    private async applyBackupScriptState(script: UserScript, item: BackupScript, replace: boolean): Promise<void> {
+        if (script.enabled !== item.enabled) {
+            if (item.enabled) {
+                this.scriptManager.enableScript(script.id);
+            } else {
+                this.scriptManager.disableScript(script.id);
+            }
+        }
+
+        if (replace) {
+            await this.valueStore.clear(script.id);
+        }
+        await this.valueStore.setMany(script.id, item.values);
+
+        if (item.connectDecisions) {
+            this.settings.connectDecisions[script.id] = item.connectDecisions;
+        } else if (replace) {
+            delete this.settings.connectDecisions[script.id];
+        }
+
+        const muted = this.settings.mutedNotificationScripts.filter(id => id !== script.id);
+        if (item.notificationsMuted || (!replace && muted.length !== this.settings.mutedNotificationScripts.length)) {
+            muted.push(script.id);
+        }
+        this.settings.mutedNotificationScripts = muted;
+
+        if (item.injectIntoOverride || replace) {
+            this.scriptManager.setInjectIntoOverride(script.id, item.injectIntoOverride || '');
+        }
+    }
+
+    /**
+     * 网页中打开了 .user.js 链接时弹出安装对话框，短时间内重复的导航事件只处理一次
+     */
+    private handleUserScriptNavigation(url: string): void {
+        const now = Date.now();
+        if (this.lastUserScriptNavigation && this.lastUserScriptNavigation.url === url &&
+            now - this.lastUserScriptNavigation.time < USER_SCRIPT_NAVIGATION_DEBOUNCE) {
+            return;
+        }
+        this.lastUserScriptNavigation = { url, time: now };
+
+        globalLogger.info(`检测到用户脚本链接: ${url}`);
+        this.installScriptFromUrl(url).then(script => {
+            if (script) {
+                new Notice(`脚本 "${script.name}" 已安装`);
+            }
+        }, error => {
+            new Notice(`安装脚本失败: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }
+
+    /**
+     * 获取发出消息桥请求的脚本，脚本不存在或没有通过 @grant 获得其中任意一个API时抛出错误
+     *
+     * 页面中的包装器只向脚本提供已授权的API，这里在插件侧再检查一次，
+     * 不依赖页面中的代码没有被篡改
+     */
+    private requireGrant(scriptId: string, apis: string[]): UserScript {
+        const script = this.scriptManager.getScript(scriptId);
+        if (!script) {
+            throw new Error(`未知的脚本: ${scriptId}`);
+        }
+        if (!isAnyApiGranted(script, apis)) {
+            throw new Error(`脚本 "${script.name}" 没有获得 ${apis[0]} 授权`);
+        }
+        return script;
+    }
+
+    /**
+     * 切换到包含指定 webview/iframe 的标签页
+     */
+    private revealLeafOf(element: HTMLElement) {
+        const leaf = this.tabService.findLeafOf(element);
+        if (leaf) {
+            this.app.workspace.revealLeaf(leaf);
+        }
+    }
+
     /**
      * Register handlers for webview integration
      */
@@ -397,7 +1189,9 @@ export default class CheekyChimpPlugin extends Plugin {
                         url = webview.getAttribute('src') || '';
                     }
                     
-                    if (url) {
+                    if (url && isUserScriptUrl(url)) {
+                        this.handleUserScriptNavigation(url);
+                    } else if (url) {
                         console.log('CheekyChimp: iframe加载完成，注入脚本到', url);
                         this.injectScriptsForUrl(url, webview);
                         }
@@ -426,9 +1220,30 @@ export default class CheekyChimpPlugin extends Plugin {
             
             // 为webview添加事件监听
             try {
+                // 打开 .user.js 链接时停止导航，改为弹出安装对话框
+                webview.addEventListener('will-navigate', (event: any) => {
+                    if (event.url && isUserScriptUrl(event.url)) {
+                        (webview as any).stop?.();
+                        this.handleUserScriptNavigation(event.url);
+                    }
+                });
+
+                // 右键菜单中列出当前页面可以运行的 @run-at context-menu 脚本
+                webview.addEventListener('context-menu', (event: any) => {
+                    this.showPageContextMenu(webview, event);
+                });
+
                 webview.addEventListener('did-navigate', (event: any) => {
                     try {
                         const url = event.url || webview.getAttribute('src') || '';
+                        // 未能在 will-navigate 中拦截时（例如直接输入地址），回到上一页
+                        if (url && isUserScriptUrl(url)) {
+                            if ((webview as any).canGoBack?.()) {
+                                (webview as any).goBack();
+                            }
+                            this.handleUserScriptNavigation(url);
+                            return;
+                        }
                         if (url) {
                             console.log('CheekyChimp: webview导航到', url);
                             this.injectScriptsForUrl(url, webview);
@@ -1210,12 +2025,15 @@ export default class CheekyChimpPlugin extends Plugin {
 
     /**
      * 从文件导入用户脚本
+     *
+     * 也可以选择 Tampermonkey 导出的 .zip 或 .txt 文件以及 Violentmonkey 的 .zip 备份，
+     * 在列表中勾选要导入的脚本。
      */
     importScriptFromFile(): void {
         // 创建隐藏的文件输入元素
         const fileInput = document.createElement('input');
         fileInput.type = 'file';
-        fileInput.accept = '.js,.user.js';
+        fileInput.accept = '.js,.user.js,.zip,.txt';
         fileInput.style.display = 'none';
         document.body.appendChild(fileInput);
         
@@ -1227,17 +2045,7 @@ export default class CheekyChimpPlugin extends Plugin {
             if (files && files.length > 0) {
                 const file = files[0];
                 try {
-                    // 读取文件内容
-                    const content = await this.readFileContent(file);
-                    
-                    // 将脚本添加到管理器
-                    const script = this.scriptManager.addScript(content);
-                    
-                    // 显示通知
-                    new Notice(`已成功导入脚本: ${script.name}`);
-                    
-                    // 可选：打开脚本编辑器
-                    this.openScriptEditor(script.id);
+                    await this.importFile(file);
                 } catch (error) {
                     console.error('导入脚本失败:', error);
                     new Notice('导入脚本失败: ' + (error instanceof Error ? error.message : String(error)));
@@ -1251,6 +2059,67 @@ export default class CheekyChimpPlugin extends Plugin {
         // 触发点击事件
         fileInput.click();
     }
+
+    /**
+     * 按文件类型导入单个脚本或备份中的脚本
+     */
+    private async importFile(file: File): Promise<void> {
+        if (/\.zip$/i.test(file.name)) {
+            await this.importScriptsFromBackup(await readBackup(file));
+            return;
+        }
+
+        // 读取文件内容
+        const content = await this.readFileContent(file);
+
+        // Tampermonkey 导出的 .txt 文件是 JSON，用户脚本不会以 { 开头
+        if (/^\s*\{/.test(content)) {
+            await this.importScriptsFromBackup(readTampermonkeyExport(content));
+            return;
+        }
+
+        // 在安装对话框中确认后将脚本添加到管理器
+        const script = await this.installScript(content);
+        if (script) {
+            this.settingTab.display();
+
+            // 显示通知
+            new Notice(`已成功导入脚本: ${script.name}`);
+            
+            // 可选：打开脚本编辑器
+            this.openScriptEditor(script.id);
+        }
+    }
+
+    /**
+     * 列出备份中的脚本，把勾选的脚本连同启用状态和存储值添加到脚本列表
+     *
+     * 已安装的同一脚本被勾选时作为另一份脚本添加，不会覆盖已安装的脚本。
+     */
+    private async importScriptsFromBackup(backup: Backup): Promise<void> {
+        const items = await ArchiveImportModal.ask(this.app, backup.scripts,
+            script => !!this.scriptManager.findInstalledScript(script));
+        if (!items || items.length === 0) {
+            return;
+        }
+
+        let imported = 0;
+        for (const item of items) {
+            try {
+                const script = this.scriptManager.addScript(item.source, { keepBoth: true });
+                await this.applyBackupScriptState(script, item, false);
+                imported++;
+            } catch (error) {
+                globalLogger.error('导入脚本失败', error);
+            }
+        }
+
+        await this.saveSettings();
+        this.settingTab.display();
+
+        const failed = items.length - imported;
+        new Notice(`已导入 ${imported} 个脚本${failed > 0 ? `，${failed} 个脚本导入失败，详见控制台` : ''}`);
+    }
     
     /**
      * 读取文件内容
@@ -1353,11 +2222,11 @@ export default class CheekyChimpPlugin extends Plugin {
 })();`;
 
             // 添加脚本
-            const script = this.scriptManager.addScript(scriptTemplate);
+            const script = this.scriptManager.addScript(scriptTemplate, { keepBoth: true, origin: 'edit' });
             new Notice(`已创建脚本: ${script.name}`);
             
             // 直接打开编辑器而不是设置页面
-            this.openScriptEditorDirectly(script.id);
+            this.openScriptEditor(script.id);
             
         } catch (error) {
             console.error('创建脚本失败:', error);
@@ -1365,105 +2234,6 @@ export default class CheekyChimpPlugin extends Plugin {
         }
     }
     
-    /**
-     * 直接打开脚本编辑器，不经过设置页面
-     * 这需要一个自定义的编辑器实现
-     */
-    private openScriptEditorDirectly(scriptId: string): void {
-        // 获取脚本
-        const script = this.scriptManager.getScript(scriptId);
-        if (!script) {
-            new Notice("找不到脚本");
-            return;
-        }
-        
-        // 创建编辑器模态框
-        const modal = new Modal(this.app);
-        modal.titleEl.setText(`编辑脚本: ${script.name}`);
-        
-        const contentEl = modal.contentEl;
-        contentEl.empty();
-        contentEl.style.height = "80vh";
-        contentEl.style.width = "80vw";
-        contentEl.style.display = "flex";
-        contentEl.style.flexDirection = "column";
-        
-        // 创建顶部信息栏
-        const infoBar = contentEl.createDiv();
-        infoBar.style.marginBottom = "10px";
-        infoBar.style.display = "flex";
-        infoBar.style.justifyContent = "space-between";
-        
-        // 显示脚本信息
-        const infoDiv = infoBar.createDiv();
-        infoDiv.createEl("span", { text: `ID: ${script.id}` }).style.marginRight = "10px";
-        infoDiv.createEl("span", { text: `版本: ${script.version || "未知"}` }).style.marginRight = "10px";
-        
-        // 创建启用/禁用开关
-        const toggleDiv = infoBar.createDiv();
-        const toggleLabel = toggleDiv.createEl("label");
-        toggleLabel.setText("启用");
-        
-        const toggleCheckbox = toggleLabel.createEl("input", { type: "checkbox" });
-        toggleCheckbox.checked = script.enabled;
-        toggleCheckbox.style.marginLeft = "5px";
-        toggleCheckbox.addEventListener("change", () => {
-            if (toggleCheckbox.checked) {
-                this.scriptManager.enableScript(script.id);
-            } else {
-                this.scriptManager.disableScript(script.id);
-            }
-            new Notice(`脚本 ${script.name} 已${toggleCheckbox.checked ? "启用" : "禁用"}`);
-        });
-        
-        // 创建编辑器区域
-        const editorContainer = contentEl.createDiv();
-        editorContainer.style.flexGrow = "1";
-        editorContainer.style.border = "1px solid var(--background-modifier-border)";
-        editorContainer.style.borderRadius = "4px";
-        
-        // 创建简单的文本区域作为编辑器
-        const textarea = editorContainer.createEl("textarea");
-        textarea.value = script.source || "";
-        textarea.style.width = "100%";
-        textarea.style.height = "100%";
-        textarea.style.resize = "none";
-        textarea.style.fontFamily = "monospace";
-        textarea.style.padding = "10px";
-        textarea.style.boxSizing = "border-box";
-        
-        // 创建底部按钮栏
-        const buttonBar = contentEl.createDiv();
-        buttonBar.style.marginTop = "10px";
-        buttonBar.style.display = "flex";
-        buttonBar.style.justifyContent = "flex-end";
-        
-        // 添加取消按钮
-        const cancelButton = buttonBar.createEl("button", { text: "取消" });
-        cancelButton.style.marginRight = "10px";
-        cancelButton.addEventListener("click", () => {
-            modal.close();
-        });
-        
-        // 添加保存按钮
-        const saveButton = buttonBar.createEl("button", { text: "保存" });
-        saveButton.addClass("mod-cta");
-        saveButton.addEventListener("click", () => {
-            try {
-                // 更新脚本代码
-                this.scriptManager.updateScript(script.id, textarea.value);
-                new Notice(`脚本 ${script.name} 已保存`);
-                modal.close();
-            } catch (error) {
-                console.error('保存脚本失败:', error);
-                new Notice('保存脚本失败: ' + (error instanceof Error ? error.message : String(error)));
-            }
-        });
-        
-        // 打开模态框
-        modal.open();
-    }
-
     // 添加updateRibbonIconVisibility方法
     public updateRibbonIconVisibility(): void {
         // 如果已有图标，先移除
@@ -1486,6 +2256,14 @@ export default class CheekyChimpPlugin extends Plugin {
                 });
                 
                 menu.addSeparator();
+
+                // 当前页面可以运行的右键菜单脚本
+                const page = this.getActivePage();
+                const contextMenuScripts = page ? this.scriptManager.findContextMenuScriptsForUrl(page.url) : [];
+                if (page && contextMenuScripts.length > 0) {
+                    addContextMenuScriptItems(menu, contextMenuScripts, script => this.runContextMenuScript(page.element, page.url, script));
+                    menu.addSeparator();
+                }
                 
                 // 获取所有脚本
                 const allScripts = this.scriptManager.getAllScripts();
@@ -1560,6 +2338,22 @@ export default class CheekyChimpPlugin extends Plugin {
                         });
                 });
                 
+                menu.addItem((item) => {
+                    item.setTitle("导出备份")
+                        .setIcon("download")
+                        .onClick(() => {
+                            this.exportBackup();
+                        });
+                });
+
+                menu.addItem((item) => {
+                    item.setTitle("从备份恢复")
+                        .setIcon("archive")
+                        .onClick(() => {
+                            this.restoreBackupFromFile();
+                        });
+                });
+                
                 // 添加"管理所有脚本"选项
                 menu.addItem((item) => {
                     item.setTitle("管理所有脚本")
@@ -1,3 +1,10 @@
+/**
+ * How a script is injected (@inject-into): `page` runs it in the page's own context,
+ * `content` runs it in a sandbox that keeps its globals out of the page, without inline scripts, `auto` uses `page`
+ * and falls back to `content` when the page's CSP blocks inline scripts
+ */
+export type InjectInto = 'page' | 'content' | 'auto';
+
 /**
  * UserScript class representing a script managed by CheekyChimp
  */
@@ -18,18 +25,37 @@ export class UserScript {
     matches: string[];
     /** URLs where script should not run (@exclude) */
     excludes: string[];
+    /** URL patterns where script should not run (@exclude-match) */
+    excludeMatches: string[];
     /** Resources required by the script (@resource) */
     resources: { name: string; url: string; }[];
     /** External scripts required by the script (@require) */
     requires: string[];
+    /** APIs granted to the script (@grant) */
+    grants: string[];
+    /** Hosts GM_xmlhttpRequest may connect to (@connect) */
+    connects: string[];
     /** Script author (@author) */
     author: string;
     /** Script homepage (@homepage) */
     homepage: string;
     /** Script icon (@icon) */
     icon: string;
-    /** When to run the script (@run-at) */
-    runAt: 'document-start' | 'document-end' | 'document-idle';
+    /** URL used to check for new versions (@updateURL) */
+    updateURL: string;
+    /** URL the updated script is downloaded from (@downloadURL) */
+    downloadURL: string;
+    /**
+     * When to run the script (@run-at). `context-menu` scripts never run on their own,
+     * they are run on the current page from the menus
+     */
+    runAt: 'document-start' | 'document-body' | 'document-end' | 'document-idle' | 'context-menu';
+    /** Only run in the top-level page, not in frames (@noframes) */
+    noframes: boolean;
+    /** Injection mode from @inject-into, empty when not declared */
+    injectInto: InjectInto | '';
+    /** Injection mode chosen by the user, takes precedence over @inject-into when set */
+    injectIntoOverride: InjectInto | '';
     /** Whether the script is enabled */
     enabled: boolean;
     /** The script source code */
@@ -38,6 +64,8 @@ export class UserScript {
     lastUpdated: number;
     /** Position/order of the script */
     position: number;
+    /** Vault path of the .user.js file when scripts are kept as files, empty otherwise */
+    filePath: string;
 
     constructor() {
         this.id = '';
@@ -48,16 +76,25 @@ export class UserScript {
         this.includes = [];
         this.matches = [];
         this.excludes = [];
+        this.excludeMatches = [];
         this.resources = [];
         this.requires = [];
+        this.grants = [];
+        this.connects = [];
         this.author = '';
         this.homepage = '';
         this.icon = '';
+        this.updateURL = '';
+        this.downloadURL = '';
         this.runAt = 'document-idle';
+        this.noframes = false;
+        this.injectInto = '';
+        this.injectIntoOverride = '';
         this.enabled = true;
         this.source = '';
         this.lastUpdated = Date.now();
         this.position = 0;
+        this.filePath = '';
     }
 }
 
@@ -80,15 +117,20 @@ export interface GM_API {
     GM_setValue(name: string, value: any): void;
     GM_deleteValue(name: string): void;
     GM_listValues(): string[];
-    GM_getResourceText(name: string): string;
-    GM_getResourceURL(name: string): string;
+    GM_getValues?(keysOrDefaults: string[] | Record<string, any>): Record<string, any>;
+    GM_setValues?(values: Record<string, any>): void;
+    GM_deleteValues?(names: string[]): void;
+    GM_addValueChangeListener?(name: string, callback: (name: string, oldValue: any, newValue: any, remote: boolean) => void): number;
+    GM_removeValueChangeListener?(listenerId: number): void;
+    GM_getResourceText(name: string): string | null;
+    GM_getResourceURL(name: string, isBlobUrl?: boolean): string | null;
     GM_addStyle(css: string): void;
     GM_xmlhttpRequest(details: any): any;
     GM_registerMenuCommand(name: string, fn: Function, accessKey?: string): void;
     GM_unregisterMenuCommand(menuCmdId: number): void;
     GM_openInTab(url: string, options?: any): any;
     GM_setClipboard(data: string, info?: any): void;
-    GM_notification(details: any, ondone?: Function): void;
+    GM_notification(details: any, titleOrOndone?: any, image?: string, onclick?: () => void): void;
     GM_addElement?(tagName: string, attributes: any): HTMLElement;
     unsafeWindow: Window;
     GM?: {
@@ -96,10 +138,16 @@ export interface GM_API {
         setValue(name: string, value: any): Promise<void>;
         deleteValue(name: string): Promise<void>;
         listValues(): Promise<string[]>;
+        getValues?(keysOrDefaults: string[] | Record<string, any>): Promise<Record<string, any>>;
+        setValues?(values: Record<string, any>): Promise<void>;
+        deleteValues?(names: string[]): Promise<void>;
+        addValueChangeListener?(name: string, callback: (name: string, oldValue: any, newValue: any, remote: boolean) => void): Promise<number>;
+        removeValueChangeListener?(listenerId: number): Promise<void>;
         xmlHttpRequest(details: any): any;
         addStyle(css: string): Promise<HTMLStyleElement>;
         registerMenuCommand(name: string, fn: Function, accessKey?: string): Promise<number>;
         addElement(tagName: string, attributes: any): Promise<HTMLElement>;
+        notification?(details: any, titleOrOndone?: any, image?: string, onclick?: () => void): Promise<boolean>;
     };
 }
 
@@ -1,7 +1,106 @@
-import { ObsidianStorage } from './obsidian-storage';
+import { ValueStore } from './storage/value-store';
 import { ScriptManager } from './script-manager';
-import { UserScript, GM_API } from '../models/script';
-import { logPrefix } from './injection/utils';
+import { InjectInto, UserScript } from '../models/script';
+import { logPrefix, getScriptMetaStr } from './injection/utils';
+import { createGrantScope, getEffectiveGrants, getGrantedGlobalApis, isGrantNone } from './injection/grants';
+import { createSandboxScope, getInjectionMode } from './injection/sandbox';
+import { BridgeArgument, BridgeEndpoint, BridgeRegistration, getBridgeCallCode, GMBridge } from './bridge/gm-bridge';
+import { ResourceCache, ScriptResources } from './resources/resource-cache';
+import { RunAtTiming } from './injection/types';
+
+/**
+ * 按顺序注入的阶段
+ */
+const INJECTION_PHASES: RunAtTiming[] = ['document-start', 'document-body', 'document-end', 'document-idle'];
+
+/**
+ * 脚本实际的注入方式，auto 在注入时按页面是否允许内联脚本确定
+ */
+type ExecutionMode = Exclude<InjectInto, 'auto'>;
+
+/**
+ * 查找 iframe 对应的 Electron WebFrame 时临时添加到 iframe 元素上的属性
+ */
+const FRAME_SELECTOR_ATTRIBUTE = 'data-cheekychimp-frame';
+
+/**
+ * 页面中的子框架
+ * - webview：通过 Electron 的 WebFrameMain 执行代码，同源和跨域的框架都可以
+ * - document：iframe 页面中同源的子框架，直接访问其文档
+ */
+type ChildFrame =
+  | { kind: 'webview'; url: string; frame: any }
+  | { kind: 'document'; url: string; document: Document };
+
+/**
+ * webview 导航开始时为即将加载的文档准备好的 document-start 脚本
+ */
+interface PreparedDocumentStart {
+  url: string;
+  generation: number;
+  scripts: UserScript[];
+  /** 每个脚本发送到页面的代码，准备完成前为 null */
+  codes: string[] | null;
+}
+
+/**
+ * 获取 Electron 的 remote 模块，用于访问 webview 的框架，不可用时返回 null
+ */
+function getElectronRemote(): any {
+  const req = (window as any).require;
+  if (typeof req !== 'function') return null;
+  try {
+    return req('@electron/remote');
+  } catch (error) {
+    try {
+      return req('electron').remote || null;
+    } catch (e) {
+      return null;
+    }
+  }
+}
+
+/**
+ * 获取 Obsidian 窗口的 WebFrame，用于在 iframe 中执行不受页面 CSP 限制的代码，不可用时返回 null
+ */
+function getElectronWebFrame(): any {
+  const req = (window as any).require;
+  if (typeof req !== 'function') return null;
+  try {
+    return req('electron').webFrame || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 页面是否运行在不保存数据的会话中：webview 的 partition 不以 persist: 开头时数据只保存在内存中
+ */
+function isIncognito(element: HTMLElement): boolean {
+  if (element instanceof HTMLIFrameElement) return false;
+  const partition = element.getAttribute('partition') || '';
+  return partition !== '' && !partition.startsWith('persist:');
+}
+
+/**
+ * 在页面中等待 <body> 出现的代码，执行结果是一个 Promise
+ */
+const WAIT_FOR_BODY_SCRIPT = `
+  new Promise(function(resolve) {
+    if (document.body) return resolve(true);
+    const observer = new MutationObserver(function() {
+      if (document.body) {
+        observer.disconnect();
+        resolve(true);
+      }
+    });
+    observer.observe(document, { childList: true, subtree: true });
+    document.addEventListener('DOMContentLoaded', function() {
+      observer.disconnect();
+      resolve(true);
+    });
+  })
+`;
 
 /**
  * 增强版脚本注入器 - 结合两个版本的优点
@@ -22,12 +121,29 @@ export class EnhancedScriptInjector {
     // 是否自动重新注入
     autoReinject: true,
     // 最大重试次数
-    maxRetries: 3
+    maxRetries: 3,
+    // 是否在沙箱中运行使用 GM API 的脚本
+    enableSandbox: false
   };
 
   // 记录已注入的脚本 URL -> scriptId[]
   private injectedScripts = new Map<string, Set<string>>();
 
+  // 每个元素的注入队列，同一文档的注入依次进行，保证 document-start < document-end < document-idle
+  private injectionQueues = new WeakMap<HTMLElement, Promise<void>>();
+
+  // 每个元素开始加载新文档的次数，用于丢弃仍在等待旧文档的注入
+  private documentGenerations = new WeakMap<HTMLElement, number>();
+
+  // webview 导航开始时准备好的 document-start 脚本，新文档提交时直接发送
+  private preparedDocumentStarts = new WeakMap<HTMLElement, PreparedDocumentStart>();
+
+  // iframe 中的文档是否允许内联脚本，页面的 CSP 可能禁止
+  private inlineScriptSupport = new WeakMap<Document, boolean>();
+
+  // iframe 中的文档对应的 Electron WebFrame，消息桥每次调用页面中的客户端时使用
+  private documentWebFrames = new WeakMap<Document, any>();
+
   // 添加logger属性
   logger = {
     info: (message: string, ...args: any[]) => {
@@ -59,8 +175,10 @@ export class EnhancedScriptInjector {
    * 创建增强版脚本注入器实例
    */
   constructor(
-    private storage: ObsidianStorage,
+    private valueStore: ValueStore,
     private scriptManager: ScriptManager,
+    private bridge: GMBridge,
+    private resourceCache: ResourceCache,
     settings?: Partial<typeof this.settings>
   ) {
     // 合并用户提供的设置
@@ -113,294 +231,864 @@ export class EnhancedScriptInjector {
       this.setupSiteAdapter(webview, url);
 
       // 根据run-at属性分类脚本
-      const documentStartScripts = scripts.filter(s => s.runAt === 'document-start');
-      const documentEndScripts = scripts.filter(s => s.runAt === 'document-end');
-      const documentIdleScripts = scripts.filter(s => 
-        s.runAt === 'document-idle' || !s.runAt
-      );
+      const phases: Record<string, UserScript[]> = {
+        'document-start': scripts.filter(s => s.runAt === 'document-start'),
+        'document-body': scripts.filter(s => s.runAt === 'document-body'),
+        'document-end': scripts.filter(s => s.runAt === 'document-end'),
+        'document-idle': scripts.filter(s => s.runAt === 'document-idle' || !s.runAt)
+      };
 
-      this.logger.debug(`分类脚本: start=${documentStartScripts.length}, end=${documentEndScripts.length}, idle=${documentIdleScripts.length}`);
+      this.logger.debug(`分类脚本: start=${phases['document-start'].length}, body=${phases['document-body'].length}, end=${phases['document-end'].length}, idle=${phases['document-idle'].length}`);
 
-      // 处理iframe元素
-      if (webview instanceof HTMLIFrameElement) {
-        // 注入document-start脚本
-        for (const script of documentStartScripts) {
-          if (await this.shouldInjectScript(webview, script, url)) {
-            await this.injectSingleScript(webview, url, script);
-          }
-        }
-        
-        // 处理document-end脚本
-        await this.setupContentLoadedListener(webview, url, documentEndScripts);
-        
-        // 处理document-idle脚本
-        this.setupLoadListener(webview, url, documentIdleScripts);
-      } 
-      // 处理其他类型的webview
-      else {
-        // 为所有脚本添加webview支持
-        for (const script of scripts) {
-          if (await this.shouldInjectScript(webview, script, url)) {
-            await this.injectSingleScript(webview, url, script);
-          }
-        }
-      }
+      // 排在同一元素之前的注入之后，避免前一次注入尚在等待时后一次注入抢先执行后面阶段的脚本
+      const generation = this.documentGenerations.get(webview) || 0;
+      const previous = this.injectionQueues.get(webview) || Promise.resolve();
+      const current = previous.then(() => this.injectPhases(webview, url, phases, generation));
+      this.injectionQueues.set(webview, current);
+      await current;
     } catch (error) {
       this.logger.error(`注入脚本过程中发生错误: ${error.message}`);
     }
   }
 
   /**
-   * 为给定URL和WebView/iframe注入匹配的脚本
+   * 依次注入各阶段的脚本，每个阶段等到文档到达对应状态后再注入
+   *
+   * 文档已经越过某个阶段时（例如首次打开页面时 webview 在 dom-ready 之前不能执行代码），
+   * 该阶段的脚本立即注入，实际时机通过 GM_info.runAt 告知脚本。
    */
-  async injectScriptsForUrl(element: HTMLElement, url: string): Promise<void> {
-    try {
-      if (!url || !element) {
-        this.logger.warn('无效的URL或element参数');
+  private async injectPhases(
+    element: HTMLElement,
+    url: string,
+    phases: Record<string, UserScript[]>,
+    generation: number
+  ): Promise<void> {
+    for (const phase of INJECTION_PHASES) {
+      const scripts = phases[phase];
+      if (!scripts.length) continue;
+
+      await this.waitForPhase(element, phase);
+
+      // 等待期间元素已经开始加载其他文档
+      if ((this.documentGenerations.get(element) || 0) !== generation) {
+        this.logger.debug(`${url} 已被新的导航替换，停止注入`);
         return;
       }
 
-      this.logger.info(`为URL [${url}] 查找匹配的脚本`);
+      // document-start 的脚本只能尽早注入，文档已经开始解析时记录实际时机
+      if (phase === 'document-start') {
+        const state = await this.getReadyState(element);
+        if (state && state !== 'loading') {
+          this.logger.debug(`${url} 的文档已经越过 document-start（readyState: ${state}），脚本可能晚于页面自己的脚本运行`);
+        }
+      }
 
-      // 获取匹配该URL的所有启用脚本
-      const matchingScripts = this.scriptManager.findScriptsForUrl(url);
-      if (!matchingScripts.length) {
-        this.logger.info(`没有匹配URL [${url}] 的脚本`);
-        return;
+      for (const script of scripts) {
+        if (await this.shouldInjectScript(element, script, url)) {
+          await this.injectSingleScript(element, url, script);
+        }
       }
+    }
 
-      // 注入找到的脚本
-      await this.injectScripts(element, url, matchingScripts);
-    } catch (error) {
-      this.logger.error(`脚本注入过程中发生错误: ${error.message}`);
+    // 页面加载完成后注入已有的子框架，之后加载的子框架见 registerRefreshHandler
+    if ((this.documentGenerations.get(element) || 0) === generation) {
+      await this.injectChildFrames(element);
     }
   }
 
   /**
-   * 检查是否应该注入脚本
-   * - 避免重复注入
-   * - 支持强制重新注入
+   * 向页面中的所有子框架注入匹配的脚本
    */
-  private async shouldInjectScript(
-    webview: HTMLElement, 
-    script: UserScript, 
-    url: string, 
-    forceReinject: boolean = false
-  ): Promise<boolean> {
-    // 如果不检查重复注入或强制重新注入，则直接返回true
-    if (!this.settings.checkDuplicateInjection || forceReinject) {
-      return true;
+  private async injectChildFrames(element: HTMLElement): Promise<void> {
+    const frames = element instanceof HTMLIFrameElement
+      ? this.getSameOriginChildFrames(element)
+      : this.getWebviewChildFrames(element);
+
+    for (const frame of frames) {
+      await this.injectFrame(element, frame);
     }
+  }
 
-    try {
-      // 检查DOM中是否已有注入标记
-      if (webview instanceof HTMLIFrameElement && webview.contentDocument) {
-        const markerId = `${this.settings.injectionMarkerPrefix}${script.id}`;
-        const existingMarker = webview.contentDocument.getElementById(markerId);
-        
-        if (existingMarker) {
-          this.logger.debug(`脚本 ${script.name} 已注入到 ${url}，跳过`);
-          return false;
-        }
-      }
+  /**
+   * 向一个子框架注入匹配其地址的脚本，声明了 @noframes 的脚本除外
+   *
+   * 子框架通常在页面加载完成后才被发现，脚本按 @run-at 的顺序依次注入，实际时机通过 GM_info.runAt 告知脚本。
+   * 同一框架中的每个脚本只运行一次。
+   */
+  private async injectFrame(element: HTMLElement, frame: ChildFrame): Promise<void> {
+    if (!/^https?:/i.test(frame.url)) return;
 
-      // 检查内存中的注入记录
-      const pageScripts = this.injectedScripts.get(url);
-      if (pageScripts && pageScripts.has(script.id)) {
-        this.logger.debug(`脚本 ${script.name} 已在内存中标记为注入到 ${url}，跳过`);
-        return false;
+    const scripts = this.scriptManager.findScriptsForUrl(frame.url)
+      .filter(script => !script.noframes)
+      .sort((a, b) => INJECTION_PHASES.indexOf(a.runAt) - INJECTION_PHASES.indexOf(b.runAt));
+    if (!scripts.length) return;
+
+    this.logger.debug(`为子框架 [${frame.url}] 注入 ${scripts.length} 个脚本`);
+
+    // webview 子框架中的脚本通过页面顶层转发通知，iframe 中的子框架直接通知 Obsidian 窗口
+    this.bridge.attach(element);
+    if (!(element instanceof HTMLIFrameElement)) {
+      await this.runInPage(element, this.bridge.getRelayCode());
+    }
+
+    for (const script of scripts) {
+      try {
+        const mode = this.resolveInjectionMode(script, frame.kind === 'document' ? frame.document : null);
+        const code = await this.prepareScriptWithGMAPI(element, script, frame.url, mode, frame);
+        if (await this.markFrameInjected(frame, `${this.settings.injectionMarkerPrefix}${script.id}`)) continue;
+
+        await this.runInFrame(frame, code, mode);
+        this.logger.info(`脚本 "${script.name}" 已注入子框架 ${frame.url}`);
+      } catch (error) {
+        this.logger.error(`向子框架 ${frame.url} 注入脚本 "${script.name}" 失败: ${error.message}`);
       }
+    }
+  }
 
-      return true;
-    } catch (error) {
-      // 如果检查过程中出错（如跨域访问限制），为安全起见返回true
-      this.logger.warn(`检查脚本注入状态时出错: ${error.message}，将继续注入`);
-      return true;
+  /**
+   * 在子框架的 window 上记录脚本已注入，标记随框架中的文档一起丢弃
+   * @returns 之前是否已经注入过
+   */
+  private async markFrameInjected(frame: ChildFrame, markerId: string): Promise<boolean> {
+    if (frame.kind === 'webview') {
+      const key = JSON.stringify(markerId);
+      return frame.frame.executeJavaScript(
+        `(function() { const injected = window[${key}] === true; window[${key}] = true; return injected; })()`
+      );
     }
+
+    const win = frame.document.defaultView as any;
+    if (!win) return true;
+    const injected = win[markerId] === true;
+    win[markerId] = true;
+    return injected;
   }
 
   /**
-   * 注入单个脚本，处理所有相关逻辑
+   * 在子框架的全局作用域中执行代码
    */
-  private async injectSingleScript(
-    webview: HTMLElement, 
-    url: string, 
-    script: UserScript, 
-    retryCount: number = 0
-  ): Promise<boolean> {
+  private async runInFrame(frame: ChildFrame, code: string, mode: ExecutionMode): Promise<void> {
+    if (frame.kind === 'webview') {
+      await frame.frame.executeJavaScript(code);
+      return;
+    }
+
+    // 优先通过 Electron 的框架接口执行，包装器中的桥接密钥不会出现在页面能观察到的 <script> 元素中
+    if (await this.executeInWebFrame(frame.document, code)) return;
+    if (mode === 'content') {
+      throw new Error('无法通过 Electron 的框架接口执行脚本');
+    }
+
+    this.appendInlineScript(frame.document, code);
+  }
+
+  /**
+   * 在 webview/iframe 的页面顶层执行代码，用于安装桥接客户端
+   */
+  private async runInPage(element: HTMLElement, code: string): Promise<void> {
     try {
-      this.logger.debug(`开始注入脚本 "${script.name}" 到 ${url}`);
-      
-      // 准备GM API和脚本包装
-      const scriptWithGM = this.prepareScriptWithGMAPI(script, url);
-      
-      // 根据元素类型选择不同的注入方法
-      let success = false;
-      if (webview instanceof HTMLIFrameElement) {
-        success = await this.injectScriptToIframe(webview, scriptWithGM, script);
-      } else {
-        success = await this.injectScriptToWebview(webview, scriptWithGM, script);
+      if (element instanceof HTMLIFrameElement) {
+        const doc = element.contentDocument;
+        if (!doc) return;
+        // 页面禁止内联脚本时改用 Electron 的框架接口，以 content 模式注入的脚本同样需要桥接客户端
+        if (this.allowsInlineScripts(doc)) {
+          this.appendInlineScript(doc, code);
+        } else if (!(await this.executeInWebFrame(doc, code))) {
+          this.logger.warn('页面禁止内联脚本，且无法通过 Electron 的框架接口执行代码');
+        }
+        return;
       }
-      
-      if (success) {
-        // 记录注入成功
-        this.markScriptAsInjected(url, script.id);
-        this.logger.info(`脚本 "${script.name}" 注入成功`);
-        return true;
-      } else {
-        throw new Error("注入失败");
+
+      const webviewEl = element as any;
+      if (typeof webviewEl.executeJavaScript === 'function') {
+        await this.executeInWebview(webviewEl, code);
       }
     } catch (error) {
-      this.logger.error(`脚本 "${script.name}" 注入失败: ${error.message}`);
-      
-      // 尝试重试
-      if (retryCount < this.settings.maxRetries) {
-        this.logger.debug(`尝试重新注入脚本 "${script.name}"，尝试次数: ${retryCount + 1}/${this.settings.maxRetries}`);
-        return await this.injectSingleScript(webview, url, script, retryCount + 1);
-      }
-      
-      return false;
+      this.logger.warn(`在页面中执行代码失败: ${error.message}`);
     }
   }
 
   /**
-   * 记录脚本已被注入
+   * 确定脚本的注入方式
+   *
+   * auto 通常按 page 注入；iframe 中的页面通过 CSP 禁止内联脚本时按 content 注入。
+   * webview 中的代码通过 executeJavaScript 执行，不受页面 CSP 的限制，auto 总是按 page 注入。
+   * @param doc 注入目标是 iframe 或其中的同源子框架时为其文档
    */
-  private markScriptAsInjected(url: string, scriptId: string): void {
-    if (!this.injectedScripts.has(url)) {
-      this.injectedScripts.set(url, new Set());
-    }
-    this.injectedScripts.get(url)?.add(scriptId);
+  private resolveInjectionMode(script: UserScript, doc: Document | null): ExecutionMode {
+    const mode = getInjectionMode(script, this.settings.enableSandbox);
+    if (mode !== 'auto') return mode;
+    return doc && !this.allowsInlineScripts(doc) ? 'content' : 'page';
   }
 
   /**
-   * 向iframe注入脚本
+   * 文档是否允许执行内联 <script>，每个文档只检测一次
    */
-  private async injectScriptToIframe(
-    iframe: HTMLIFrameElement, 
-    scriptContent: string,
-    script: UserScript
-  ): Promise<boolean> {
-    return new Promise<boolean>((resolve) => {
+  private allowsInlineScripts(doc: Document): boolean {
+    let allowed = this.inlineScriptSupport.get(doc);
+    if (allowed === undefined) {
+      const win = doc.defaultView as any;
+      const probeKey = `__cheekychimpInlineProbe${Date.now()}`;
       try {
-        // 确保iframe已经加载
-        const checkIframeReady = () => {
-          try {
-            // 检查iframe是否可访问
-            if (iframe.contentWindow && iframe.contentDocument) {
-              // 检查是否已经注入
-              const markerId = `${this.settings.injectionMarkerPrefix}${script.id}`;
-              if (iframe.contentDocument.getElementById(markerId)) {
-                this.logger.debug(`脚本 ${script.name} 已有标记，跳过注入`);
-                resolve(true);
-                return;
-              }
-              
-              // 创建脚本元素
-              const scriptElement = iframe.contentDocument.createElement('script');
-              scriptElement.textContent = scriptContent;
-              scriptElement.setAttribute('data-script-id', script.id);
-              scriptElement.setAttribute('data-script-name', script.name);
-              
-              // 设置加载和错误处理
-              scriptElement.onload = () => {
-                this.addInjectionMarker(iframe, script);
-                resolve(true);
-              };
-              
-              scriptElement.onerror = (error) => {
-                this.logger.error(`脚本 ${script.name} 加载失败: ${error}`);
-                resolve(false);
-              };
-              
-              // 添加到document
-              if (iframe.contentDocument.head) {
-                iframe.contentDocument.head.appendChild(scriptElement);
-              } else if (iframe.contentDocument.body) {
-                iframe.contentDocument.body.appendChild(scriptElement);
-              } else {
-                iframe.contentDocument.documentElement.appendChild(scriptElement);
-              }
-            } else {
-              // 持续检查直到iframe准备就绪
-              setTimeout(checkIframeReady, 100);
-            }
-          } catch (error) {
-            this.logger.error(`准备iframe时出错: ${error.message}`);
-            resolve(false);
-          }
-        };
-        
-        checkIframeReady();
+        this.appendInlineScript(doc, `window[${JSON.stringify(probeKey)}] = true;`);
+        allowed = !!win && win[probeKey] === true;
+        if (win) delete win[probeKey];
       } catch (error) {
-        this.logger.error(`向iframe注入脚本时出错: ${error.message}`);
-        resolve(false);
+        allowed = false;
       }
-    });
+      this.inlineScriptSupport.set(doc, allowed);
+      if (!allowed) {
+        this.logger.debug('页面的 CSP 禁止内联脚本');
+      }
+    }
+    return allowed;
   }
 
   /**
-   * 添加注入标记到iframe
+   * 以内联 <script> 在文档的全局作用域中执行代码，执行后立即移除元素
    */
-  private addInjectionMarker(iframe: HTMLIFrameElement, script: UserScript): void {
-    try {
-      if (!iframe.contentDocument || !iframe.contentDocument.body) {
-        return;
+  private appendInlineScript(doc: Document, code: string): void {
+    const scriptElement = doc.createElement('script');
+    scriptElement.textContent = code;
+    (doc.head || doc.documentElement).appendChild(scriptElement);
+    scriptElement.remove();
+  }
+
+  /**
+   * 通过 Electron 的 WebFrame 在文档中执行代码，不经过 <script> 元素，因此不受页面 CSP 的限制
+   * @returns 找不到文档对应的 WebFrame 时返回 false
+   */
+  private async executeInWebFrame(doc: Document, code: string): Promise<boolean> {
+    const frame = this.getDocumentWebFrame(doc);
+    if (!frame || typeof frame.executeJavaScript !== 'function') return false;
+    await frame.executeJavaScript(code);
+    return true;
+  }
+
+  /**
+   * 找到文档对应的 Electron WebFrame：从 Obsidian 窗口开始，按 iframe 元素逐层查找
+   */
+  private getDocumentWebFrame(doc: Document): any {
+    if (this.documentWebFrames.has(doc)) {
+      return this.documentWebFrames.get(doc);
+    }
+
+    const frameElements: Element[] = [];
+    let win = doc.defaultView;
+    while (win && win.frameElement) {
+      frameElements.unshift(win.frameElement);
+      win = win.frameElement.ownerDocument.defaultView;
+    }
+
+    let frame = getElectronWebFrame();
+    for (const frameElement of frameElements) {
+      if (!frame) return null;
+      frameElement.setAttribute(FRAME_SELECTOR_ATTRIBUTE, '');
+      try {
+        frame = frame.getFrameForSelector(`[${FRAME_SELECTOR_ATTRIBUTE}]`);
+      } catch (error) {
+        frame = null;
+      } finally {
+        frameElement.removeAttribute(FRAME_SELECTOR_ATTRIBUTE);
       }
-      
-      // 创建一个隐藏元素作为标记
-      const marker = iframe.contentDocument.createElement('div');
-      marker.id = `${this.settings.injectionMarkerPrefix}${script.id}`;
-      marker.style.display = 'none';
-      marker.dataset.scriptId = script.id;
-      marker.dataset.scriptName = script.name;
-      marker.dataset.injectionTime = Date.now().toString();
-      
-      // 添加到body
-      iframe.contentDocument.body.appendChild(marker);
-      this.logger.debug(`已为脚本 ${script.name} 添加注入标记`);
-    } catch (error) {
-      this.logger.warn(`无法添加注入标记: ${error.message}`);
     }
+    this.documentWebFrames.set(doc, frame);
+    return frame;
   }
 
   /**
-   * 向webview注入脚本
+   * 消息桥调用脚本所在框架中桥接客户端的方式
+   * @param frame 脚本注入到子框架时为该框架
    */
-  private async injectScriptToWebview(
-    webview: HTMLElement, 
-    scriptContent: string,
-    script: UserScript
-  ): Promise<boolean> {
-    return new Promise<boolean>((resolve) => {
-      try {
-        // 对于webview元素，尝试使用不同的注入方法
-        const webviewEl = webview as any;
+  private getBridgeEndpoint(element: HTMLElement, frame?: ChildFrame): BridgeEndpoint {
+    if (frame?.kind === 'webview') {
+      const webFrame = frame.frame;
+      return (name, args) => webFrame.executeJavaScript(getBridgeCallCode(name, args));
+    }
+    if (frame?.kind === 'document') {
+      const doc = frame.document;
+      return (name, args) => this.callInDocument(doc, name, args);
+    }
+    if (element instanceof HTMLIFrameElement) {
+      return async (name, args) => {
+        const doc = element.contentDocument;
+        return doc ? this.callInDocument(doc, name, args) : undefined;
+      };
+    }
+    return (name, args) => this.executeInWebview(element, getBridgeCallCode(name, args));
+  }
+
+  /**
+   * 调用 iframe 文档 window 上的桥接客户端
+   *
+   * 优先通过 Electron 的框架接口执行调用代码，结果由 Electron 复制回来；不可用时直接调用页面中的函数，
+   * 参数只有字符串等基本类型，返回值由消息桥检查类型。
+   */
+  private async callInDocument(doc: Document, name: string, args: BridgeArgument[]): Promise<unknown> {
+    const frame = this.getDocumentWebFrame(doc);
+    if (frame && typeof frame.executeJavaScript === 'function') {
+      return frame.executeJavaScript(getBridgeCallCode(name, args));
+    }
+
+    const receiver = (doc.defaultView as any)?.[name];
+    return typeof receiver === 'function' ? receiver(...args) : undefined;
+  }
+
+  /**
+   * 遍历 iframe 页面中同源的子框架（包括嵌套的子框架），跨域的子框架无法访问，会被跳过
+   */
+  private getSameOriginChildFrames(iframe: HTMLIFrameElement): ChildFrame[] {
+    const frames: ChildFrame[] = [];
+    const walk = (win: Window) => {
+      for (let i = 0; i < win.frames.length; i++) {
+        const child = win.frames[i];
+        try {
+          // 跨域时访问 document 会抛出错误
+          frames.push({ kind: 'document', url: child.location.href, document: child.document });
+          walk(child);
+        } catch (error) {
+          this.logger.debug('跳过跨域的子框架');
+        }
+      }
+    };
+
+    try {
+      if (iframe.contentWindow) {
+        walk(iframe.contentWindow);
+      }
+    } catch (error) {
+      this.logger.debug(`无法访问iframe中的子框架: ${error.message}`);
+    }
+    return frames;
+  }
+
+  /**
+   * 通过 Electron 的 WebFrameMain 获取 webview 页面中的所有子框架，remote 模块不可用时返回空列表
+   */
+  private getWebviewChildFrames(webview: HTMLElement): ChildFrame[] {
+    try {
+      const contents = this.getWebviewContents(webview);
+      if (!contents) return [];
+
+      return (contents.mainFrame.framesInSubtree as any[])
+        .filter(frame => frame.parent)
+        .map(frame => ({ kind: 'webview' as const, url: frame.url, frame }));
+    } catch (error) {
+      this.logger.debug(`无法获取webview的子框架: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * 通过进程和路由编号找到 webview 页面中的子框架
+   */
+  private getWebviewFrame(processId: number, routingId: number): ChildFrame | null {
+    try {
+      const remote = getElectronRemote();
+      const frame = remote?.webFrameMain?.fromId(processId, routingId);
+      return frame ? { kind: 'webview', url: frame.url, frame } : null;
+    } catch (error) {
+      this.logger.debug(`无法获取webview的子框架: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * 通过 Electron 的 remote 模块获取 webview 的 webContents，remote 模块不可用时返回 null
+   */
+  private getWebviewContents(webview: HTMLElement): any {
+    const webviewEl = webview as any;
+    const remote = getElectronRemote();
+    if (!remote || typeof webviewEl.getWebContentsId !== 'function') {
+      return null;
+    }
+    return remote.webContents.fromId(webviewEl.getWebContentsId());
+  }
+
+  /**
+   * 在 webview 页面的主框架中执行代码
+   *
+   * 优先通过主框架的 WebFrameMain 执行：webview 的 executeJavaScript 在页面加载期间会排队到加载结束，
+   * WebFrameMain 则在渲染进程收到消息时立即执行。remote 模块不可用时退回到 webview 的 executeJavaScript。
+   */
+  private executeInWebview(webview: HTMLElement, code: string): Promise<any> {
+    let frame: any = null;
+    try {
+      frame = this.getWebviewContents(webview)?.mainFrame;
+    } catch (error) {
+      this.logger.debug(`无法获取webview的主框架: ${error.message}`);
+    }
+    if (frame && typeof frame.executeJavaScript === 'function') {
+      return frame.executeJavaScript(code);
+    }
+    return (webview as any).executeJavaScript(code);
+  }
+
+  /**
+   * 等待元素中的文档到达某个阶段
+   * - document-start：文档可以执行代码
+   * - document-body：<body> 已经出现
+   * - document-end：DOM 解析完成
+   * - document-idle：页面加载完成
+   */
+  private waitForPhase(element: HTMLElement, phase: RunAtTiming): Promise<void> {
+    if (phase === 'document-body') {
+      return this.waitForBody(element);
+    }
+
+    return new Promise<void>(resolve => {
+      let target: EventTarget = element;
+      let eventName: string;
+      if (element instanceof HTMLIFrameElement) {
+        const doc = element.contentDocument;
+        if (phase === 'document-end' && doc && doc.readyState === 'loading') {
+          target = doc;
+          eventName = 'DOMContentLoaded';
+        } else {
+          eventName = 'load';
+        }
+      } else {
+        eventName = phase === 'document-idle' ? 'did-stop-loading' : 'dom-ready';
+      }
+
+      let settled = false;
+      const settle = () => {
+        if (settled) return;
+        settled = true;
+        target.removeEventListener(eventName, settle);
+        resolve();
+      };
+
+      // 先监听再检查状态，避免检查和监听之间错过事件
+      target.addEventListener(eventName, settle);
+      this.getReadyState(element).then(state => {
+        if (state === null) return;
+        if (phase === 'document-start'
+          || (phase === 'document-end' && state !== 'loading')
+          || state === 'complete') {
+          settle();
+        }
+      });
+    });
+  }
+
+  /**
+   * 等待元素中的文档出现 <body>，DOM 解析完成时仍没有 <body>（例如 frameset 页面）也不再等待
+   */
+  private async waitForBody(element: HTMLElement): Promise<void> {
+    await this.waitForPhase(element, 'document-start');
+
+    try {
+      if (element instanceof HTMLIFrameElement) {
+        const doc = element.contentDocument;
+        if (doc && !doc.body) {
+          await new Promise<void>(resolve => {
+            const observer = new MutationObserver(() => {
+              if (doc.body) {
+                observer.disconnect();
+                resolve();
+              }
+            });
+            observer.observe(doc, { childList: true, subtree: true });
+            doc.addEventListener('DOMContentLoaded', () => {
+              observer.disconnect();
+              resolve();
+            });
+          });
+        }
+      } else {
+        const webviewEl = element as any;
+        if (typeof webviewEl.executeJavaScript === 'function') {
+          await this.executeInWebview(webviewEl, WAIT_FOR_BODY_SCRIPT);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`等待 <body> 时出错: ${error.message}`);
+    }
+  }
+
+  /**
+   * 在元素当前的页面中运行 @run-at context-menu 的脚本
+   *
+   * 与自动注入不同，每次选择都会重新运行脚本。
+   */
+  async runContextMenuScript(element: HTMLElement, url: string, script: UserScript): Promise<boolean> {
+    this.logger.info(`从菜单运行脚本 "${script.name}": ${url}`);
+    return this.injectSingleScript(element, url, script);
+  }
+
+  /**
+   * 读取元素中文档的 readyState
+   * @returns 无法访问文档时（跨域的 iframe、尚未 dom-ready 的 webview）返回 null
+   */
+  private async getReadyState(element: HTMLElement): Promise<DocumentReadyState | null> {
+    try {
+      if (element instanceof HTMLIFrameElement) {
+        return element.contentDocument ? element.contentDocument.readyState : null;
+      }
+      const webviewEl = element as any;
+      if (typeof webviewEl.executeJavaScript !== 'function') {
+        return 'complete';
+      }
+      return await this.executeInWebview(webviewEl, 'document.readyState');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 元素开始加载新文档，丢弃仍在等待旧文档的注入
+   */
+  private startNewDocument(element: HTMLElement): void {
+    this.documentGenerations.set(element, (this.documentGenerations.get(element) || 0) + 1);
+    this.injectionQueues.delete(element);
+    // 旧文档中的脚本已经不存在，作废它们的桥接客户端
+    this.bridge.revokeScripts(element);
+  }
+
+  /**
+   * 在 webview 导航开始时准备新文档的 document-start 脚本：读取存储值的快照和 @require/@resource 的内容，
+   * 确定注入方式并生成代码，使新文档提交时不需要再等待任何异步操作
+   *
+   * 存储值的快照取自导航开始时，提交之前其他页面对存储值的修改不会推送给这些脚本。
+   */
+  private prepareDocumentStart(element: HTMLElement, url: string): void {
+    this.preparedDocumentStarts.delete(element);
+    if (!/^https?:/i.test(url)) return;
+
+    const scripts = this.scriptManager.findScriptsForUrl(url).filter(script => script.runAt === 'document-start');
+    if (!scripts.length) return;
+
+    const prepared: PreparedDocumentStart = {
+      url,
+      generation: this.documentGenerations.get(element) || 0,
+      scripts,
+      codes: null
+    };
+    this.preparedDocumentStarts.set(element, prepared);
+    this.bridge.attach(element);
+
+    Promise.all(scripts.map(async script => {
+      const code = await this.prepareScriptWithGMAPI(element, script, url, this.resolveInjectionMode(script, null));
+      // 新文档中还没有运行过任何脚本，注入标记在脚本之后设置，不影响脚本开头的 'use strict'
+      const markerId = JSON.stringify(`${this.settings.injectionMarkerPrefix}${script.id}`);
+      return `${code}\n;window[${markerId}] = true;`;
+    }))
+      .then(codes => {
+        prepared.codes = codes;
+      })
+      .catch((error: Error) => {
+        this.logger.warn(`准备 ${url} 的 document-start 脚本失败: ${error.message}`);
+        if (this.preparedDocumentStarts.get(element) === prepared) {
+          this.preparedDocumentStarts.delete(element);
+        }
+      });
+  }
+
+  /**
+   * 新文档提交时发送准备好的 document-start 脚本，每个脚本一次 executeJavaScript，中间不等待任何异步操作
+   *
+   * 发送的脚本记为已注入，随后按阶段注入时跳过；没有准备好（仍在读取资源、提交的地址与导航开始时不同）时
+   * 什么也不做，这些脚本按阶段注入。
+   */
+  private injectPreparedDocumentStart(element: HTMLElement, url: string): void {
+    const prepared = this.preparedDocumentStarts.get(element);
+    this.preparedDocumentStarts.delete(element);
+    if (!prepared || !prepared.codes || prepared.url !== url
+      || prepared.generation !== (this.documentGenerations.get(element) || 0)) {
+      return;
+    }
+
+    prepared.codes.forEach((code, index) => {
+      const script = prepared.scripts[index];
+      const failed = (error: Error) => this.logger.error(`脚本 "${script.name}" 注入失败: ${error.message}`);
+      try {
+        this.executeInWebview(element, code).catch(failed);
+      } catch (error) {
+        failed(error);
+      }
+      this.markScriptAsInjected(url, script.id);
+    });
+    this.logger.debug(`已在文档提交时发送 ${prepared.scripts.length} 个 document-start 脚本: ${url}`);
+  }
+
+  /**
+   * 为给定URL和WebView/iframe注入匹配的脚本
+   */
+  async injectScriptsForUrl(element: HTMLElement, url: string): Promise<void> {
+    try {
+      if (!url || !element) {
+        this.logger.warn('无效的URL或element参数');
+        return;
+      }
+
+      this.logger.info(`为URL [${url}] 查找匹配的脚本`);
+
+      // 获取匹配该URL的所有启用脚本
+      const matchingScripts = this.scriptManager.findScriptsForUrl(url);
+      if (!matchingScripts.length) {
+        this.logger.info(`没有匹配URL [${url}] 的脚本`);
+        return;
+      }
+
+      // 注入找到的脚本
+      await this.injectScripts(element, url, matchingScripts);
+    } catch (error) {
+      this.logger.error(`脚本注入过程中发生错误: ${error.message}`);
+    }
+  }
+
+  /**
+   * 检查是否应该注入脚本
+   * - 避免重复注入
+   * - 支持强制重新注入
+   */
+  private async shouldInjectScript(
+    webview: HTMLElement, 
+    script: UserScript, 
+    url: string, 
+    forceReinject: boolean = false
+  ): Promise<boolean> {
+    // 如果不检查重复注入或强制重新注入，则直接返回true
+    if (!this.settings.checkDuplicateInjection || forceReinject) {
+      return true;
+    }
+
+    try {
+      // 检查DOM中是否已有注入标记
+      if (webview instanceof HTMLIFrameElement && webview.contentDocument) {
+        const markerId = `${this.settings.injectionMarkerPrefix}${script.id}`;
+        const existingMarker = webview.contentDocument.getElementById(markerId);
         
+        if (existingMarker) {
+          this.logger.debug(`脚本 ${script.name} 已注入到 ${url}，跳过`);
+          return false;
+        }
+      }
+
+      // 检查内存中的注入记录
+      const pageScripts = this.injectedScripts.get(url);
+      if (pageScripts && pageScripts.has(script.id)) {
+        this.logger.debug(`脚本 ${script.name} 已在内存中标记为注入到 ${url}，跳过`);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      // 如果检查过程中出错（如跨域访问限制），为安全起见返回true
+      this.logger.warn(`检查脚本注入状态时出错: ${error.message}，将继续注入`);
+      return true;
+    }
+  }
+
+  /**
+   * 注入单个脚本，处理所有相关逻辑
+   */
+  private async injectSingleScript(
+    webview: HTMLElement, 
+    url: string, 
+    script: UserScript, 
+    retryCount: number = 0
+  ): Promise<boolean> {
+    try {
+      this.logger.debug(`开始注入脚本 "${script.name}" 到 ${url}`);
+      
+      // 接收页面中GM API通过消息桥发出的请求
+      this.bridge.attach(webview);
+      
+      // 准备GM API和脚本包装
+      const mode = this.resolveInjectionMode(script, webview instanceof HTMLIFrameElement ? webview.contentDocument : null);
+      const scriptWithGM = await this.prepareScriptWithGMAPI(webview, script, url, mode);
+      
+      // 根据元素类型选择不同的注入方法
+      let success = false;
+      if (webview instanceof HTMLIFrameElement) {
+        success = await this.injectScriptToIframe(webview, scriptWithGM, script, mode);
+      } else {
+        success = await this.injectScriptToWebview(webview, scriptWithGM, script);
+      }
+      
+      if (success) {
+        // 记录注入成功
+        this.markScriptAsInjected(url, script.id);
+        this.logger.info(`脚本 "${script.name}" 注入成功`);
+        return true;
+      } else {
+        throw new Error("注入失败");
+      }
+    } catch (error) {
+      this.logger.error(`脚本 "${script.name}" 注入失败: ${error.message}`);
+      
+      // 尝试重试
+      if (retryCount < this.settings.maxRetries) {
+        this.logger.debug(`尝试重新注入脚本 "${script.name}"，尝试次数: ${retryCount + 1}/${this.settings.maxRetries}`);
+        return await this.injectSingleScript(webview, url, script, retryCount + 1);
+      }
+      
+      return false;
+    }
+  }
+
+  /**
+   * 记录脚本已被注入
+   */
+  private markScriptAsInjected(url: string, scriptId: string): void {
+    if (!this.injectedScripts.has(url)) {
+      this.injectedScripts.set(url, new Set());
+    }
+    this.injectedScripts.get(url)?.add(scriptId);
+  }
+
+  /**
+   * 向iframe注入脚本
+   */
+  private async injectScriptToIframe(
+    iframe: HTMLIFrameElement, 
+    scriptContent: string,
+    script: UserScript,
+    mode: ExecutionMode
+  ): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      try {
+        // 确保iframe已经加载
+        const checkIframeReady = () => {
+          try {
+            // 检查iframe是否可访问
+            if (iframe.contentWindow && iframe.contentDocument) {
+              // 检查是否已经注入，右键菜单脚本每次选择都运行
+              const markerId = `${this.settings.injectionMarkerPrefix}${script.id}`;
+              if (script.runAt !== 'context-menu' && iframe.contentDocument.getElementById(markerId)) {
+                this.logger.debug(`脚本 ${script.name} 已有标记，跳过注入`);
+                resolve(true);
+                return;
+              }
+
+              // 优先通过 Electron 的框架接口执行，包装器中的桥接密钥不会出现在页面能观察到的 <script> 元素中；
+              // content 模式不使用 <script> 元素，框架接口不可用时注入失败
+              const contentDocument = iframe.contentDocument;
+              this.executeInWebFrame(contentDocument, scriptContent)
+                .then(executed => {
+                  if (executed) {
+                    this.addInjectionMarker(iframe, script);
+                    resolve(true);
+                  } else if (mode === 'content') {
+                    this.logger.error(`无法通过 Electron 的框架接口注入脚本 ${script.name}`);
+                    resolve(false);
+                  } else {
+                    this.appendScriptElement(iframe, contentDocument, scriptContent, script);
+                    resolve(true);
+                  }
+                })
+                .catch((error: Error) => {
+                  this.logger.error(`脚本 ${script.name} 执行失败: ${error.message}`);
+                  resolve(false);
+                });
+            } else {
+              // 持续检查直到iframe准备就绪
+              setTimeout(checkIframeReady, 100);
+            }
+          } catch (error) {
+            this.logger.error(`准备iframe时出错: ${error.message}`);
+            resolve(false);
+          }
+        };
+        
+        checkIframeReady();
+      } catch (error) {
+        this.logger.error(`向iframe注入脚本时出错: ${error.message}`);
+        resolve(false);
+      }
+    });
+  }
+
+  /**
+   * 以 <script> 元素把脚本注入 iframe 的文档
+   */
+  private appendScriptElement(iframe: HTMLIFrameElement, doc: Document, scriptContent: string, script: UserScript): void {
+    // 创建脚本元素
+    const scriptElement = doc.createElement('script');
+    scriptElement.textContent = scriptContent;
+    scriptElement.setAttribute('data-script-id', script.id);
+    scriptElement.setAttribute('data-script-name', script.name);
+
+    // 添加到document，内联脚本在插入时同步执行，不会触发 load/error 事件
+    if (doc.head) {
+      doc.head.appendChild(scriptElement);
+    } else if (doc.body) {
+      doc.body.appendChild(scriptElement);
+    } else {
+      doc.documentElement.appendChild(scriptElement);
+    }
+    this.addInjectionMarker(iframe, script);
+  }
+
+  /**
+   * 添加注入标记到iframe
+   */
+  private addInjectionMarker(iframe: HTMLIFrameElement, script: UserScript): void {
+    try {
+      if (!iframe.contentDocument || !iframe.contentDocument.body) {
+        return;
+      }
+      
+      // 创建一个隐藏元素作为标记
+      const marker = iframe.contentDocument.createElement('div');
+      marker.id = `${this.settings.injectionMarkerPrefix}${script.id}`;
+      marker.style.display = 'none';
+      marker.dataset.scriptId = script.id;
+      marker.dataset.scriptName = script.name;
+      marker.dataset.injectionTime = Date.now().toString();
+      
+      // 添加到body
+      iframe.contentDocument.body.appendChild(marker);
+      this.logger.debug(`已为脚本 ${script.name} 添加注入标记`);
+    } catch (error) {
+      this.logger.warn(`无法添加注入标记: ${error.message}`);
+    }
+  }
+
+  /**
+   * 向webview注入脚本
+   */
+  private async injectScriptToWebview(
+    webview: HTMLElement, 
+    scriptContent: string,
+    script: UserScript
+  ): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      try {
+        // 对于webview元素，尝试使用不同的注入方法
+        const webviewEl = webview as any;
+        
+        // @grant none 的脚本需要在页面全局作用域中执行，不能再包一层函数
+        if (typeof webviewEl.executeJavaScript === 'function' && isGrantNone(script)) {
+          this.injectToWebviewPageScope(webviewEl, scriptContent, script)
+            .then(resolve)
+            .catch((error: Error) => {
+              this.logger.error(`在页面作用域执行脚本失败: ${error.message}`);
+              resolve(false);
+            });
+        }
         // 方法1: 使用executeJavaScript (Electron webview)
-        if (typeof webviewEl.executeJavaScript === 'function') {
+        else if (typeof webviewEl.executeJavaScript === 'function') {
           // 包装脚本，添加标记逻辑
+          // 标记记在 window 上而不是 DOM 中，document-start 时页面还没有 <body>
+          // 右键菜单脚本每次选择都运行
+          const markerId = JSON.stringify(`${this.settings.injectionMarkerPrefix}${script.id}`);
+          const repeatable = script.runAt === 'context-menu';
           const wrappedScript = `
             (function() {
               try {
                 // 检查是否已注入
-                if (document.getElementById('${this.settings.injectionMarkerPrefix}${script.id}')) {
+                if (!${repeatable} && window[${markerId}]) {
                   console.log('脚本已注入，跳过');
                   return true;
                 }
+                window[${markerId}] = true;
                 
                 // 执行脚本
                 ${scriptContent}
                 
-                // 添加标记
-                const marker = document.createElement('div');
-                marker.id = '${this.settings.injectionMarkerPrefix}${script.id}';
-                marker.style.display = 'none';
-                marker.dataset.scriptId = '${script.id}';
-                marker.dataset.scriptName = '${script.name}';
-                marker.dataset.injectionTime = '${Date.now()}';
-                document.body.appendChild(marker);
-                
                 return true;
               } catch(e) {
                 console.error('执行脚本出错:', e);
@@ -409,7 +1097,7 @@ export class EnhancedScriptInjector {
             })();
           `;
           
-          webviewEl.executeJavaScript(wrappedScript)
+          this.executeInWebview(webviewEl, wrappedScript)
             .then((result: boolean) => resolve(result))
             .catch((error: Error) => {
               this.logger.error(`使用executeJavaScript注入失败: ${error.message}`);
@@ -444,6 +1132,32 @@ export class EnhancedScriptInjector {
     });
   }
 
+  /**
+   * 在webview页面的全局作用域中直接执行脚本（@grant none）
+   */
+  private async injectToWebviewPageScope(
+    webviewEl: any,
+    scriptContent: string,
+    script: UserScript
+  ): Promise<boolean> {
+    const markerId = JSON.stringify(`${this.settings.injectionMarkerPrefix}${script.id}`);
+
+    // 标记记在 window 上，document-start 时页面还没有可以放置标记元素的节点
+    const alreadyInjected = await this.executeInWebview(
+      webviewEl,
+      `(function() { const injected = window[${markerId}] === true; window[${markerId}] = true; return injected; })()`
+    );
+    // 右键菜单脚本每次选择都运行
+    if (alreadyInjected && script.runAt !== 'context-menu') {
+      this.logger.debug(`脚本 ${script.name} 已注入，跳过`);
+      return true;
+    }
+
+    await this.executeInWebview(webviewEl, scriptContent);
+
+    return true;
+  }
+
   /**
    * 使用eval方法注入脚本
    */
@@ -639,88 +1353,6 @@ export class EnhancedScriptInjector {
     }
   }
 
-  /**
-   * 为iframe设置DOMContentLoaded监听器
-   * 用于document-end脚本
-   */
-  private async setupContentLoadedListener(
-    iframe: HTMLIFrameElement, 
-    url: string, 
-    scripts: UserScript[]
-  ): Promise<void> {
-    if (!scripts.length) return;
-    
-    try {
-      // 检查iframe是否已加载
-      if (iframe.contentDocument) {
-        if (iframe.contentDocument.readyState === 'loading') {
-          // 文档正在加载，添加事件监听器
-          iframe.contentDocument.addEventListener('DOMContentLoaded', async () => {
-            for (const script of scripts) {
-              if (await this.shouldInjectScript(iframe, script, url)) {
-                await this.injectSingleScript(iframe, url, script);
-              }
-            }
-          });
-        } else {
-          // 文档已经加载完成，直接注入
-          for (const script of scripts) {
-            if (await this.shouldInjectScript(iframe, script, url)) {
-              await this.injectSingleScript(iframe, url, script);
-            }
-          }
-        }
-      } else {
-        // iframe可能跨域，使用load事件
-        iframe.addEventListener('load', async () => {
-          for (const script of scripts) {
-            if (await this.shouldInjectScript(iframe, script, url)) {
-              await this.injectSingleScript(iframe, url, script);
-            }
-          }
-        });
-      }
-    } catch (error) {
-      this.logger.error(`设置ContentLoaded监听器出错: ${error.message}`);
-    }
-  }
-
-  /**
-   * 为iframe设置load监听器
-   * 用于document-idle脚本
-   */
-  private setupLoadListener(
-    iframe: HTMLIFrameElement, 
-    url: string, 
-    scripts: UserScript[]
-  ): void {
-    if (!scripts.length) return;
-    
-    try {
-      // 使用iframe的load事件
-      const loadHandler = async () => {
-        // 延迟一点时间，确保页面完全加载
-        setTimeout(async () => {
-          for (const script of scripts) {
-            if (await this.shouldInjectScript(iframe, script, url)) {
-              await this.injectSingleScript(iframe, url, script);
-            }
-          }
-        }, 100);
-      };
-      
-      // 添加load事件监听
-      iframe.addEventListener('load', loadHandler);
-      
-      // 检查iframe是否已经加载完成
-      if (iframe.contentDocument && iframe.contentDocument.readyState === 'complete') {
-        loadHandler();
-      }
-    } catch (error) {
-      this.logger.error(`设置Load监听器出错: ${error.message}`);
-    }
-  }
-
   /**
    * 为元素注册刷新事件监听
    * 确保页面刷新后重新注入脚本
@@ -730,6 +1362,8 @@ export class EnhancedScriptInjector {
       if (element instanceof HTMLIFrameElement) {
         // 为iframe添加刷新监听
         element.addEventListener('load', async () => {
+          // 之前等待旧文档的注入不再继续
+          this.startNewDocument(element);
           if (this.settings.autoReinject) {
             // 清除此URL的注入记录，以允许重新注入
             this.injectedScripts.delete(url);
@@ -743,18 +1377,44 @@ export class EnhancedScriptInjector {
         // 为其他webview元素添加刷新监听
         const webviewEl = element as any;
         if (typeof webviewEl.addEventListener === 'function') {
-          // 监听导航事件
-          webviewEl.addEventListener('did-navigate', async () => {
+          let currentUrl = url;
+          let loadingDocument = false;
+
+          // 主框架开始加载新文档：停止等待旧文档的注入，清除注入记录以便新文档重新注入，
+          // 同时开始准备新文档的 document-start 脚本
+          webviewEl.addEventListener('did-start-navigation', (event: any) => {
+            if (!event.isMainFrame || event.isInPlace) return;
+            loadingDocument = true;
+            this.startNewDocument(element);
+            this.injectedScripts.delete(currentUrl);
+            this.injectedScripts.delete(event.url);
             if (this.settings.autoReinject) {
-              // 获取新的URL
-              const newUrl = webviewEl.src || webviewEl.getAttribute('src') || url;
-              
-              // 清除旧URL的注入记录
-              this.injectedScripts.delete(url);
-              this.logger.debug(`检测到webview导航，准备重新注入脚本: ${newUrl}`);
-              
-              // 重新注入脚本
-              await this.injectScriptsForUrl(element, newUrl);
+              this.prepareDocumentStart(element, event.url);
+            }
+          });
+
+          // 子框架加载完成后注入匹配的脚本，跨域的子框架也可以
+          webviewEl.addEventListener('did-frame-finish-load', (event: any) => {
+            if (event.isMainFrame || !this.settings.autoReinject) return;
+            const frame = this.getWebviewFrame(event.frameProcessId, event.frameRoutingId);
+            if (frame) {
+              this.injectFrame(element, frame);
+            }
+          });
+
+          // 主框架提交新文档后立即发送准备好的 document-start 脚本（见 injectPreparedDocumentStart），
+          // 之后再按阶段注入其余脚本。代码在渲染进程收到消息时执行，通常早于页面自己的脚本，
+          // 但与页面的解析同时进行，并不保证；只有 preload 能保证先于页面运行，
+          // 而内置浏览器的 webview 由 Obsidian 创建，插件无法为其设置。
+          // 脚本实际的注入时机通过 GM_info.runAt 告知脚本
+          webviewEl.addEventListener('did-frame-navigate', async (event: any) => {
+            if (!event.isMainFrame || !loadingDocument) return;
+            loadingDocument = false;
+            currentUrl = event.url;
+            if (this.settings.autoReinject) {
+              this.injectPreparedDocumentStart(element, currentUrl);
+              this.logger.debug(`检测到webview导航，准备注入脚本: ${currentUrl}`);
+              await this.injectScriptsForUrl(element, currentUrl);
             }
           });
           
@@ -762,8 +1422,8 @@ export class EnhancedScriptInjector {
           webviewEl.addEventListener('did-navigate-in-page', async () => {
             if (this.settings.autoReinject) {
               // 重新注入脚本，但不清除记录（在页内导航）
-              this.logger.debug(`检测到webview页内导航，检查脚本: ${url}`);
-              await this.injectScriptsForUrl(element, url);
+              this.logger.debug(`检测到webview页内导航，检查脚本: ${currentUrl}`);
+              await this.injectScriptsForUrl(element, currentUrl);
             }
           });
         }
@@ -802,129 +1462,60 @@ export class EnhancedScriptInjector {
   /**
    * 为脚本准备GM API并包装脚本
    */
-  private prepareScriptWithGMAPI(script: UserScript, url: string): string {
-    // 创建GM API
-    const gmAPI = this.buildGMAPI(script, url);
-    const gmInfo = this.buildGMInfo(script, url);
-    
-    // 包装脚本
-    return this.wrapScriptWithAPI(script.source, gmAPI, gmInfo);
-  }
+  private async prepareScriptWithGMAPI(element: HTMLElement, script: UserScript, url: string, mode: ExecutionMode, frame?: ChildFrame): Promise<string> {
+    // @require 的代码和 @resource 的内容从缓存读取，随脚本一起注入
+    const resources = await this.resourceCache.getScriptResources(script);
 
-  /**
-   * 构建GM Info对象
-   * 此方法应该从BackupScriptInjector中复制
-   */
-  private buildGMInfo(script: UserScript, url: string): any {
-    // 实现从BackupScriptInjector复制
-    return {
-      script: {
-        name: script.name,
-        namespace: script.namespace,
-        description: script.description,
-        version: script.version,
-        includes: script.includes,
-        excludes: script.excludes,
-        matches: script.matches,
-        resources: script.resources,
-        requires: script.requires
-      },
-      version: '0.1.0',
-      scriptHandler: 'Obsidian CheekyChimp (Enhanced)',
-      scriptMetaStr: this.getScriptMetaStr(script)
-    };
-  }
-
-  /**
-   * 构建GM API对象
-   * 此方法应该从BackupScriptInjector中复制
-   */
-  private buildGMAPI(script: UserScript, url: string): any {
-    const self = this; // 保存this引用
-    
-    // 基本GM API实现
-    return {
-      GM_info: this.buildGMInfo(script, url),
-      
-      // 存储API
-      GM_getValue: (name: string, defaultValue?: any): any => {
-        return this.storage.getValue(`${script.id}:${name}`, defaultValue) || defaultValue;
-      },
-      
-      GM_setValue: (name: string, value: any): void => {
-        this.storage.setValue(`${script.id}:${name}`, value);
-      },
-      
-      GM_deleteValue: (name: string): void => {
-        this.storage.deleteValue(`${script.id}:${name}`);
-      },
-      
-      GM_listValues: (): string[] => {
-        return []; // 实际实现应该过滤属于此脚本的键
-      },
-      
-      // 资源API
-      GM_getResourceText: (name: string): string => {
-        return ''; // 应实现资源获取
-      },
-      
-      GM_getResourceURL: (name: string): string => {
-        return ''; // 应实现资源URL获取
-      },
-      
-      // UI API
-      GM_addStyle: (css: string): void => {
-        // 实现添加样式
-      },
-      
-      // XHR API
-      GM_xmlhttpRequest: (details: any): any => {
-        return null; // 应实现XHR请求
-      },
-      
-      // 菜单API
-      GM_registerMenuCommand: (name: string, fn: Function, accessKey?: string): number => {
-        // 实现菜单命令注册
-        return 0;
-      },
-      
-      GM_unregisterMenuCommand: (menuCmdId: number): void => {
-        // 实现菜单命令注销
-      },
-      
-      // 其他API
-      GM_openInTab: (url: string, options?: any): any => {
-        return null; // 应实现打开标签页
-      },
-      
-      GM_setClipboard: (data: string, info?: any): void => {
-        // 实现剪贴板操作
-      },
-      
-      GM_notification: (details: any, ondone?: Function): void => {
-        // 实现通知
+    // @grant none 的脚本直接在页面上下文中运行，不做任何包装；content 模式下只放进沙箱
+    if (isGrantNone(script)) {
+      const code = [...resources.requires.map(item => item.code), script.source].join('\n;\n');
+      return mode === 'content'
+        ? `(function() {\n  const unsafeWindow = window;\n  ${createSandboxScope(code, ['unsafeWindow'])}\n})();`
+        : code;
+    }
+
+    // 存储值的快照随脚本一起注入，使 GM_getValue 可以同步读取
+    const values = await this.valueStore.getValues(script.id);
+
+    // 创建GM API
+    const gmInfo = this.buildGMInfo(script, url, mode, element, !!frame);
+    
+    // 桥接客户端的名称和密钥只写进包装器，消息桥据此确认请求来自这个脚本
+    const registration = this.bridge.registerScript(element, script.id, url, this.getBridgeEndpoint(element, frame));
+
+    // 包装脚本
+    return this.wrapScriptWithAPI(script, gmInfo, values, resources, registration, mode);
+  }
+
+  /**
+   * 构建GM Info对象
+   * 此方法应该从BackupScriptInjector中复制
+   */
+  private buildGMInfo(script: UserScript, url: string, mode: ExecutionMode, element?: HTMLElement, subframe = false): any {
+    // 实现从BackupScriptInjector复制
+    return {
+      script: {
+        name: script.name,
+        namespace: script.namespace,
+        description: script.description,
+        version: script.version,
+        includes: script.includes,
+        excludes: script.excludes,
+        matches: script.matches,
+        resources: script.resources,
+        requires: script.requires,
+        grant: getEffectiveGrants(script),
+        'run-at': script.runAt || 'document-idle',
+        noframes: !!script.noframes
       },
-      
-      // 访问原始window对象
-      unsafeWindow: window as any,
-      
-      // 支持新版GM API - Promise接口
-      GM: {
-        getValue: (name: string, defaultValue?: any) => Promise.resolve(self.storage.getValue(`${script.id}:${name}`, defaultValue) || defaultValue),
-        setValue: (name: string, value: any) => {
-          self.storage.setValue(`${script.id}:${name}`, value);
-          return Promise.resolve();
-        },
-        deleteValue: (name: string) => {
-          self.storage.deleteValue(`${script.id}:${name}`);
-          return Promise.resolve();
-        },
-        listValues: () => Promise.resolve([]),
-        getResourceUrl: (name: string) => Promise.resolve(''),
-        xmlHttpRequest: (details: any) => null,
-        addStyle: (css: string) => Promise.resolve(null),
-        registerMenuCommand: (name: string, fn: Function, accessKey?: string) => Promise.resolve(0)
-      }
+      // 实际的注入方式，@inject-into auto 时取决于页面
+      injectInto: mode,
+      // 脚本是否运行在子框架中
+      isFrame: subframe,
+      isIncognito: element ? isIncognito(element) : false,
+      version: '0.1.0',
+      scriptHandler: 'Obsidian CheekyChimp (Enhanced)',
+      scriptMetaStr: getScriptMetaStr(script)
     };
   }
 
@@ -932,174 +1523,461 @@ export class EnhancedScriptInjector {
    * 包装脚本与GM API
    * 此方法应该从BackupScriptInjector中复制
    */
-  private wrapScriptWithAPI(scriptSource: string, gmAPI: any, gmInfo: any): string {
-    // 添加脚本依赖（如果有）
-    let dependencies = '';
-    if (gmInfo.script.requires && gmInfo.script.requires.length > 0) {
-      dependencies = `
-        // 加载依赖脚本
-        function loadDependencies() {
-          const deps = ${JSON.stringify(gmInfo.script.requires)};
-          let loaded = 0;
-          
-          return new Promise((resolve) => {
-            if (deps.length === 0) {
-              resolve();
-              return;
-            }
-            
-            deps.forEach((url) => {
-              const script = document.createElement('script');
-              script.src = url;
-              script.onload = () => {
-                loaded++;
-                if (loaded === deps.length) {
-                  resolve();
-                }
-              };
-              script.onerror = () => {
-                console.error('[CheekyChimp Enhanced] 加载依赖失败:', url);
-                loaded++;
-                if (loaded === deps.length) {
-                  resolve();
-                }
-              };
-              document.head.appendChild(script);
-            });
-          });
-        }
-        
-        // 等待依赖加载完成
-        await loadDependencies();
-      `;
-    }
+  private wrapScriptWithAPI(script: UserScript, gmInfo: any, values: Record<string, any>, resources: ScriptResources, registration: BridgeRegistration, mode: ExecutionMode): string {
+    // @require 的代码与脚本在同一作用域中按声明顺序执行，可以使用脚本获得授权的GM API
+    const dependencies = resources.requires
+      .map(item => `// @require ${item.url}\n${item.code}\n;`)
+      .join('\n');
     
     // 创建一个包含所有GM API的上下文
     let gmApiStr = '';
     
     // 添加每个API函数
     gmApiStr += `
-      const GM_getValue = function(name, defaultValue) {
-        try {
-          const value = window.localStorage.getItem('CheekyChimp_' + '${gmInfo.script.name}_' + name);
-          return value === null ? defaultValue : JSON.parse(value);
-        } catch(e) {
-          console.error('[CheekyChimp Enhanced] GM_getValue错误:', e);
-          return defaultValue;
+      // 存储值：注入时带入插件侧的快照，读取在本地完成，修改同步到插件，
+      // 插件把其他页面的修改通过 value-change 事件推送过来
+      const valueScriptId = ${JSON.stringify(script.id)};
+      const storedValues = ${JSON.stringify(values)};
+      const valueListeners = new Map();
+      let nextValueListenerId = 1;
+
+      const cloneValue = function(value) {
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+      };
+
+      const hasValue = function(name) {
+        return Object.prototype.hasOwnProperty.call(storedValues, name);
+      };
+
+      const notifyValueChange = function(name, oldValue, newValue, remote) {
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+        valueListeners.forEach(function(listener) {
+          if (listener.name !== name) return;
+          try {
+            listener.callback(name, cloneValue(oldValue), cloneValue(newValue), remote);
+          } catch(e) {
+            console.error('[CheekyChimp Enhanced] 值变化监听器出错:', e);
+          }
+        });
+      };
+
+      const applyValue = function(name, value, remote) {
+        const oldValue = storedValues[name];
+        if (value === undefined) {
+          delete storedValues[name];
+        } else {
+          storedValues[name] = value;
+        }
+        notifyValueChange(name, oldValue, value, remote);
+      };
+
+      bridge.on('value-change', function(change) {
+        if (change && change.scriptId === valueScriptId) {
+          applyValue(change.name, change.newValue, true);
         }
+      });
+
+      const GM_getValue = function(name, defaultValue) {
+        return hasValue(name) ? cloneValue(storedValues[name]) : defaultValue;
       };
       
-      const GM_setValue = function(name, value) {
+      // 修改先在本地生效再交给插件保存，插件拒绝（例如超出存储配额）时撤销本地修改。
+      // entries 中值为 undefined 的键会被删除；返回的 Promise 在保存完成后解析，失败时拒绝
+      const writeStoredValues = function(entries) {
+        const toSet = {};
+        const toDelete = [];
+        const previous = {};
+
         try {
-          window.localStorage.setItem('CheekyChimp_' + '${gmInfo.script.name}_' + name, JSON.stringify(value));
+          Object.keys(entries).forEach(function(name) {
+            if (entries[name] !== undefined) {
+              toSet[name] = cloneValue(entries[name]);
+            } else if (hasValue(name)) {
+              toDelete.push(name);
+            }
+          });
         } catch(e) {
-          console.error('[CheekyChimp Enhanced] GM_setValue错误:', e);
+          return Promise.reject(e);
+        }
+
+        const setNames = Object.keys(toSet);
+        setNames.concat(toDelete).forEach(function(name) {
+          previous[name] = storedValues[name];
+        });
+        setNames.forEach(function(name) {
+          applyValue(name, toSet[name], false);
+        });
+        toDelete.forEach(function(name) {
+          applyValue(name, undefined, false);
+        });
+
+        // 只撤销之后没有再被修改过的键
+        const rollback = function(names, expected) {
+          names.forEach(function(name) {
+            const current = hasValue(name) ? storedValues[name] : undefined;
+            if (current === expected(name)) {
+              applyValue(name, previous[name], false);
+            }
+          });
+        };
+
+        const requests = [];
+        if (setNames.length > 0) {
+          requests.push(bridge.request('values-set', { values: toSet }).catch(function(e) {
+            rollback(setNames, function(name) { return toSet[name]; });
+            throw e;
+          }));
+        }
+        if (toDelete.length > 0) {
+          requests.push(bridge.request('values-delete', { names: toDelete }).catch(function(e) {
+            rollback(toDelete, function() { return undefined; });
+            throw e;
+          }));
         }
+        return Promise.all(requests).then(function() {});
+      };
+
+      const reportStorageError = function(api) {
+        return function(e) {
+          console.error('[CheekyChimp Enhanced] ' + api + '错误:', e);
+        };
+      };
+
+      const GM_setValue = function(name, value) {
+        const entries = {};
+        entries[name] = value;
+        writeStoredValues(entries).catch(reportStorageError('GM_setValue'));
       };
       
       const GM_deleteValue = function(name) {
-        try {
-          window.localStorage.removeItem('CheekyChimp_' + '${gmInfo.script.name}_' + name);
-        } catch(e) {
-          console.error('[CheekyChimp Enhanced] GM_deleteValue错误:', e);
-        }
+        const entries = {};
+        entries[name] = undefined;
+        writeStoredValues(entries).catch(reportStorageError('GM_deleteValue'));
       };
       
       const GM_listValues = function() {
-        try {
-          const values = [];
-          const prefix = 'CheekyChimp_' + '${gmInfo.script.name}_';
-          for (let i = 0; i < window.localStorage.length; i++) {
-            const key = window.localStorage.key(i);
-            if (key && key.startsWith(prefix)) {
-              values.push(key.substring(prefix.length));
-            }
+        return Object.keys(storedValues);
+      };
+
+      // 参数为键名数组，或以键名为属性、默认值为属性值的对象
+      const GM_getValues = function(keysOrDefaults) {
+        const result = {};
+        const defaults = Array.isArray(keysOrDefaults) ? {} : Object.assign({}, keysOrDefaults);
+        const names = Array.isArray(keysOrDefaults) ? keysOrDefaults : Object.keys(defaults);
+        names.forEach(function(name) {
+          if (hasValue(name)) {
+            result[name] = cloneValue(storedValues[name]);
+          } else if (defaults[name] !== undefined) {
+            result[name] = defaults[name];
           }
-          return values;
-        } catch(e) {
-          console.error('[CheekyChimp Enhanced] GM_listValues错误:', e);
-          return [];
+        });
+        return result;
+      };
+
+      const GM_setValues = function(values) {
+        writeStoredValues(Object.assign({}, values)).catch(reportStorageError('GM_setValues'));
+      };
+
+      const GM_deleteValues = function(names) {
+        const entries = {};
+        (names || []).forEach(function(name) {
+          entries[name] = undefined;
+        });
+        writeStoredValues(entries).catch(reportStorageError('GM_deleteValues'));
+      };
+
+      // 回调参数为 (name, oldValue, newValue, remote)，remote 表示修改来自其他页面
+      const GM_addValueChangeListener = function(name, callback) {
+        if (typeof callback !== 'function') {
+          console.error('[CheekyChimp Enhanced] GM_addValueChangeListener需要回调函数');
+          return undefined;
         }
+        const id = nextValueListenerId++;
+        valueListeners.set(id, { name: String(name), callback: callback });
+        return id;
+      };
+
+      const GM_removeValueChangeListener = function(listenerId) {
+        valueListeners.delete(listenerId);
       };
       
       const GM_addStyle = function(css) {
         try {
           const style = document.createElement('style');
           style.textContent = css;
-          document.head.appendChild(style);
+          // document-start 时可能还没有 <head>
+          (document.head || document.documentElement).appendChild(style);
           return style;
         } catch(e) {
           console.error('[CheekyChimp Enhanced] GM_addStyle错误:', e);
         }
       };
       
-      // 创建一个模拟版的XMLHttpRequest函数
-      const GM_xmlhttpRequest = function(details) {
-        try {
-          const xhr = new XMLHttpRequest();
-          xhr.open(details.method || 'GET', details.url, true);
-          
-          if (details.headers) {
-            for (const header in details.headers) {
-              xhr.setRequestHeader(header, details.headers[header]);
+      // GM_xmlhttpRequest：通过消息桥交给插件侧检查@connect权限并发出请求，不受页面跨域限制
+      // onSettled 用于 GM.xmlHttpRequest 的 Promise，在加载完成或失败时调用
+      const sendXmlhttpRequest = function(details, onSettled) {
+        const requestId = ${JSON.stringify(script.id)} + ':' + Date.now().toString(36) + ':' + Math.random().toString(36).slice(2);
+        let targetUrl = details.url;
+        let readyState = 1;
+        let head = null;
+        let settled = false;
+
+        const invoke = function(name, response) {
+          if (typeof details[name] !== 'function') return;
+          try {
+            details[name].call(details, response);
+          } catch(e) {
+            console.error('[CheekyChimp Enhanced] GM_xmlhttpRequest ' + name + '回调出错:', e);
+          }
+        };
+
+        const snapshot = function(extra) {
+          return Object.assign({
+            finalUrl: head ? head.finalUrl : targetUrl,
+            readyState: readyState,
+            status: head ? head.status : 0,
+            statusText: head ? head.statusText : '',
+            responseHeaders: head ? head.responseHeaders : '',
+            responseText: '',
+            responseXML: null,
+            response: null,
+            context: details.context
+          }, extra || {});
+        };
+
+        const getHeader = function(name) {
+          const lines = (head ? head.responseHeaders : '').split(/\\r?\\n/);
+          for (let i = 0; i < lines.length; i++) {
+            if (lines[i].toLowerCase().indexOf(name + ':') === 0) {
+              return lines[i].substring(name.length + 1).trim();
             }
           }
-          
-          if (details.responseType) {
-            xhr.responseType = details.responseType;
+          return null;
+        };
+
+        const parseDocument = function(text, contentType, onlyMarkup) {
+          const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+          const isXml = /[/+]xml$/.test(mime);
+          if (onlyMarkup && !isXml && mime !== 'text/html') return null;
+          try {
+            return new DOMParser().parseFromString(text, isXml ? mime : 'text/html');
+          } catch(e) {
+            return null;
           }
-          
-          xhr.onload = function() {
-            if (details.onload) {
-              details.onload({
-                responseText: xhr.responseText,
-                responseXML: xhr.responseXML,
-                readyState: xhr.readyState,
-                responseHeaders: xhr.getAllResponseHeaders(),
-                status: xhr.status,
-                statusText: xhr.statusText,
-                response: xhr.response
-              });
-            }
-          };
-          
-          xhr.onerror = function() {
-            if (details.onerror) {
-              details.onerror({
-                error: 'Network error',
-                readyState: xhr.readyState,
-                status: xhr.status,
-                statusText: xhr.statusText
-              });
+        };
+
+        const decodeText = function(bytes, contentType) {
+          const charset = /charset=["']?([^;"'\\s]+)/i.exec(contentType || '');
+          try {
+            return new TextDecoder(charset ? charset[1] : 'utf-8').decode(bytes);
+          } catch(e) {
+            return new TextDecoder('utf-8').decode(bytes);
+          }
+        };
+
+        const toBase64 = function(bytes) {
+          let binary = '';
+          for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+          }
+          return btoa(binary);
+        };
+
+        // 按 responseType 构建最终的响应对象
+        const buildLoadResponse = function(bodyBase64) {
+          const binary = atob(bodyBase64);
+          const bytes = new Uint8Array(binary.length);
+          for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+          }
+
+          const contentType = details.overrideMimeType || getHeader('content-type');
+          const isBinary = details.responseType === 'arraybuffer' || details.responseType === 'blob';
+          const responseText = isBinary ? '' : decodeText(bytes, contentType);
+          let response = responseText;
+          let responseXML = null;
+
+          if (details.responseType === 'arraybuffer') {
+            response = bytes.buffer;
+          } else if (details.responseType === 'blob') {
+            response = new Blob([bytes], { type: (contentType || '').split(';')[0].trim() });
+          } else if (details.responseType === 'json') {
+            try {
+              response = responseText ? JSON.parse(responseText) : null;
+            } catch(e) {
+              response = null;
             }
-          };
-          
-          xhr.onabort = details.onabort;
-          xhr.ontimeout = details.ontimeout;
-          xhr.onprogress = details.onprogress;
-          
-          if (details.data) {
-            xhr.send(details.data);
+          } else if (details.responseType === 'document') {
+            responseXML = parseDocument(responseText, contentType, false);
+            response = responseXML;
           } else {
-            xhr.send();
+            responseXML = parseDocument(responseText, contentType, true);
           }
-          
-          return {
-            abort: function() {
-              xhr.abort();
+
+          return snapshot({
+            readyState: 4,
+            responseText: responseText,
+            responseXML: responseXML,
+            response: response
+          });
+        };
+
+        const settle = function(name, response) {
+          if (settled) return;
+          settled = true;
+          readyState = 4;
+          bridge.off('xhr-event', onEvent);
+          invoke(name, response);
+          invoke('onloadend', response);
+          if (onSettled) onSettled(response, name === 'onload');
+        };
+
+        // 插件侧推送的请求事件
+        const onEvent = function(event) {
+          if (!event || event.requestId !== requestId || settled) return;
+
+          switch (event.type) {
+            case 'headers':
+              head = event.head;
+              readyState = 2;
+              invoke('onreadystatechange', snapshot());
+              break;
+            case 'progress':
+              if (readyState < 3) {
+                readyState = 3;
+                invoke('onreadystatechange', snapshot());
+              }
+              invoke('onprogress', snapshot({
+                lengthComputable: event.lengthComputable,
+                loaded: event.loaded,
+                total: event.total
+              }));
+              break;
+            case 'load': {
+              head = event.head;
+              const response = buildLoadResponse(event.bodyBase64);
+              readyState = 4;
+              invoke('onreadystatechange', response);
+              settle('onload', response);
+              break;
             }
-          };
+            case 'error':
+              settle('onerror', snapshot({ readyState: 4, error: event.message }));
+              break;
+            case 'timeout':
+              settle('ontimeout', snapshot({ readyState: 4, error: 'timeout' }));
+              break;
+          }
+        };
+
+        // 把请求数据转换为可以通过消息桥传递的形式
+        const serializeBody = function() {
+          const data = details.data;
+          if (data === undefined || data === null) {
+            return Promise.resolve({});
+          }
+          if (typeof data === 'string') {
+            if (!details.binary) {
+              return Promise.resolve({ body: data });
+            }
+            const bytes = new Uint8Array(data.length);
+            for (let i = 0; i < data.length; i++) {
+              bytes[i] = data.charCodeAt(i) & 0xff;
+            }
+            return Promise.resolve({ bodyBase64: toBase64(bytes) });
+          }
+          if (data instanceof ArrayBuffer) {
+            return Promise.resolve({ bodyBase64: toBase64(new Uint8Array(data)) });
+          }
+          if (ArrayBuffer.isView(data)) {
+            return Promise.resolve({ bodyBase64: toBase64(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)) });
+          }
+          // Blob、FormData、URLSearchParams 借助 Response 编码，同时得到对应的 Content-Type
+          const encoded = new Response(data);
+          return encoded.arrayBuffer().then(function(buffer) {
+            return {
+              bodyBase64: toBase64(new Uint8Array(buffer)),
+              contentType: encoded.headers.get('content-type')
+            };
+          });
+        };
+
+        const control = {
+          abort: function() {
+            if (settled) return;
+            bridge.request('xhr-abort', { requestId: requestId }).catch(function() {});
+            settle('onabort', snapshot({ readyState: 4, error: 'aborted' }));
+          }
+        };
+
+        invoke('onloadstart', snapshot());
+
+        try {
+          targetUrl = new URL(details.url, location.href).href;
         } catch(e) {
           console.error('[CheekyChimp Enhanced] GM_xmlhttpRequest错误:', e);
-          if (details.onerror) {
-            details.onerror({
-              error: e.toString(),
-              readyState: 0,
-              status: 0,
-              statusText: 'Error'
-            });
-          }
+          settle('onerror', snapshot({ readyState: 4, error: e.toString() }));
+          return control;
         }
+
+        bridge.on('xhr-event', onEvent);
+
+        serializeBody().then(function(body) {
+          if (settled) return undefined;
+
+          const headers = Object.assign({}, details.headers);
+          const hasContentType = Object.keys(headers).some(function(name) {
+            return name.toLowerCase() === 'content-type';
+          });
+          if (body.contentType && !hasContentType) {
+            headers['Content-Type'] = body.contentType;
+          }
+
+          return bridge.request('xhr-send', {
+            requestId: requestId,
+            url: targetUrl,
+            method: details.method,
+            headers: headers,
+            body: body.body,
+            bodyBase64: body.bodyBase64,
+            timeout: details.timeout,
+            user: details.user,
+            password: details.password,
+            anonymous: !!details.anonymous
+          });
+        }).then(function(allowed) {
+          if (settled) {
+            // 请求在放行前已被中止，通知插件侧停止
+            if (allowed) bridge.request('xhr-abort', { requestId: requestId }).catch(function() {});
+            return;
+          }
+          if (!allowed) {
+            settle('onerror', snapshot({
+              readyState: 4,
+              error: 'Refused to connect to "' + new URL(targetUrl).hostname + '": This domain is not a part of the @connect list'
+            }));
+          }
+        }, function(e) {
+          settle('onerror', snapshot({ readyState: 4, error: String(e && e.message || e) }));
+        });
+
+        return control;
+      };
+
+      const GM_xmlhttpRequest = function(details) {
+        return sendXmlhttpRequest(details);
+      };
+
+      // GM.xmlHttpRequest：加载完成时兑现，出错、超时或取消时以响应对象拒绝，同时保留 abort
+      const GM_xmlHttpRequestAsync = function(details) {
+        let control = null;
+        const promise = new Promise(function(resolve, reject) {
+          control = sendXmlhttpRequest(details, function(response, ok) {
+            (ok ? resolve : reject)(response);
+          });
+        });
+        promise.abort = function() { control.abort(); };
+        return promise;
       };
       
       // 其他GM函数的实现
@@ -1113,12 +1991,67 @@ export class EnhancedScriptInjector {
         console.log('[CheekyChimp Enhanced] 注销菜单命令:', id);
       };
       
+      // GM_openInTab：由插件在内置网页浏览器的新标签页中打开，返回可以关闭和监听关闭的句柄
       const GM_openInTab = function(url, options) {
+        let tabId = null;
+        let closeRequested = false;
+
+        const handle = {
+          closed: false,
+          onclose: null,
+          close: function() {
+            if (handle.closed) return;
+            if (tabId === null) {
+              closeRequested = true;
+            } else {
+              bridge.request('tab-close', { id: tabId }).catch(function() {});
+            }
+          }
+        };
+
+        const markClosed = function() {
+          if (handle.closed) return;
+          handle.closed = true;
+          bridge.off('tab-event', onEvent);
+          if (typeof handle.onclose === 'function') {
+            try {
+              handle.onclose();
+            } catch(e) {
+              console.error('[CheekyChimp Enhanced] GM_openInTab onclose回调出错:', e);
+            }
+          }
+        };
+
+        const onEvent = function(event) {
+          if (event && event.id === tabId && event.type === 'closed') {
+            markClosed();
+          }
+        };
+
         try {
-          window.open(url, '_blank');
+          bridge.request('open-in-tab', {
+            url: new URL(url, location.href).href,
+            options: options
+          }).then(function(id) {
+            if (id === null || id === undefined) {
+              markClosed();
+              return;
+            }
+            tabId = id;
+            bridge.on('tab-event', onEvent);
+            if (closeRequested) {
+              handle.close();
+            }
+          }, function(e) {
+            console.error('[CheekyChimp Enhanced] GM_openInTab错误:', e);
+            markClosed();
+          });
         } catch(e) {
           console.error('[CheekyChimp Enhanced] GM_openInTab错误:', e);
+          handle.closed = true;
         }
+
+        return handle;
       };
       
       const GM_setClipboard = function(text) {
@@ -1130,59 +2063,164 @@ export class EnhancedScriptInjector {
         }
       };
       
-      // 资源访问函数
+      // 资源访问函数：@resource 的内容在注入时从缓存带入，可以同步读取
+      const scriptResources = ${JSON.stringify(resources.resources)};
+
+      // 资源以 Base64 带入，文本和 blob: URL 在第一次读取时生成
+      const resourceTexts = {};
+      const resourceBlobUrls = {};
+
+      const decodeResource = function(resource) {
+        const binary = atob(resource.base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+          bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+      };
+
       const GM_getResourceText = function(name) {
-        console.log('[CheekyChimp Enhanced] 获取资源文本:', name);
-        return '';
+        const resource = scriptResources[name];
+        if (!resource) return null;
+        if (!(name in resourceTexts)) {
+          resourceTexts[name] = new TextDecoder().decode(decodeResource(resource));
+        }
+        return resourceTexts[name];
       };
       
-      const GM_getResourceURL = function(name) {
-        console.log('[CheekyChimp Enhanced] 获取资源URL:', name);
-        return '';
+      // isBlobUrl 为 false 时返回 Base64 编码的 data: URL，否则返回 blob: URL
+      const GM_getResourceURL = function(name, isBlobUrl) {
+        const resource = scriptResources[name];
+        if (!resource) return null;
+        if (isBlobUrl === false) {
+          return 'data:' + resource.contentType + ';base64,' + resource.base64;
+        }
+        if (!resourceBlobUrls[name]) {
+          const blob = new Blob([decodeResource(resource)], { type: resource.contentType });
+          resourceBlobUrls[name] = URL.createObjectURL(blob);
+        }
+        return resourceBlobUrls[name];
       };
       
-      // 通知函数
-      const GM_notification = function(details) {
-        try {
-          console.log('[CheekyChimp Enhanced] 显示通知:', details.title || '通知', details.text);
-          if (typeof Notification !== 'undefined') {
-            new Notification(details.title || '通知', {
-              body: details.text,
-              icon: details.image
-            });
-          }
-        } catch(e) {
-          console.error('[CheekyChimp Enhanced] GM_notification错误:', e);
+      // 通知函数：由插件显示通知，点击和关闭事件通过消息桥传回
+      // 支持 GM_notification(details, ondone) 和 GM_notification(text, title, image, onclick)
+      const showNotification = function(detailsOrText, titleOrOndone, image, onclick) {
+        const details = typeof detailsOrText === 'string'
+          ? { text: detailsOrText, title: typeof titleOrOndone === 'string' ? titleOrOndone : undefined, image: image, onclick: onclick }
+          : Object.assign({}, detailsOrText);
+        if (typeof titleOrOndone === 'function' && !details.ondone) {
+          details.ondone = titleOrOndone;
         }
+
+        let notificationId = null;
+
+        return new Promise(function(resolve) {
+          const call = function(callback) {
+            if (typeof callback !== 'function') return;
+            try {
+              callback.call(details);
+            } catch(e) {
+              console.error('[CheekyChimp Enhanced] GM_notification回调出错:', e);
+            }
+          };
+
+          const onEvent = function(event) {
+            if (!event || event.id !== notificationId) return;
+            if (event.type === 'click') {
+              call(details.onclick);
+            } else if (event.type === 'done') {
+              bridge.off('notification-event', onEvent);
+              call(details.ondone);
+              resolve(true);
+            }
+          };
+
+          bridge.request('notification', {
+            options: {
+              text: details.text,
+              title: details.title,
+              image: details.image,
+              timeout: details.timeout,
+              highlight: details.highlight,
+              silent: details.silent,
+              tag: details.tag
+            }
+          }).then(function(id) {
+            if (id === null || id === undefined) {
+              // 脚本已静音或只请求了 highlight
+              resolve(false);
+              return;
+            }
+            notificationId = id;
+            bridge.on('notification-event', onEvent);
+          }, function(e) {
+            console.error('[CheekyChimp Enhanced] GM_notification错误:', e);
+            resolve(false);
+          });
+        });
+      };
+
+      const GM_notification = function(detailsOrText, titleOrOndone, image, onclick) {
+        showNotification(detailsOrText, titleOrOndone, image, onclick);
       };
       
       // 现代GM API
       const GM = {
         getValue: (name, defaultValue) => Promise.resolve(GM_getValue(name, defaultValue)),
-        setValue: (name, value) => { 
-          GM_setValue(name, value); 
-          return Promise.resolve(); 
-        },
-        deleteValue: (name) => { 
-          GM_deleteValue(name); 
-          return Promise.resolve(); 
-        },
+        setValue: (name, value) => writeStoredValues({ [name]: value }),
+        deleteValue: (name) => writeStoredValues({ [name]: undefined }),
         listValues: () => Promise.resolve(GM_listValues()),
-        xmlHttpRequest: (details) => GM_xmlhttpRequest(details),
+        getValues: (keysOrDefaults) => Promise.resolve(GM_getValues(keysOrDefaults)),
+        setValues: (values) => writeStoredValues(Object.assign({}, values)),
+        deleteValues: (names) => writeStoredValues((names || []).reduce(function(entries, name) {
+          entries[name] = undefined;
+          return entries;
+        }, {})),
+        addValueChangeListener: (name, callback) => Promise.resolve(GM_addValueChangeListener(name, callback)),
+        removeValueChangeListener: (listenerId) => Promise.resolve(GM_removeValueChangeListener(listenerId)),
+        xmlHttpRequest: (details) => GM_xmlHttpRequestAsync(details),
+        notification: (detailsOrText, titleOrOndone, image, onclick) => showNotification(detailsOrText, titleOrOndone, image, onclick),
+        openInTab: (url, options) => GM_openInTab(url, options),
+        getResourceText: (name) => Promise.resolve(GM_getResourceText(name)),
+        getResourceUrl: (name, isBlobUrl) => Promise.resolve(GM_getResourceURL(name, isBlobUrl)),
         addStyle: (css) => Promise.resolve(GM_addStyle(css)),
         registerMenuCommand: (name, fn) => Promise.resolve(GM_registerMenuCommand(name, fn))
       };
     `;
     
+    // 实际的注入时机，首次打开页面或页面加载很快时可能晚于 @run-at
+    const runAtExpression = script.runAt === 'context-menu'
+      ? `'context-menu'`
+      : `document.readyState === 'loading' ? (document.body ? 'document-body' : 'document-start')
+        : document.readyState === 'interactive' ? 'document-end' : 'document-idle'`;
+
     // GM_info对象
     const gmInfoStr = `
       const GM_info = ${JSON.stringify(gmInfo, null, 2)};
+      GM_info.runAt = ${runAtExpression};
     `;
     
-    // 包装脚本
+    // 注入用户脚本，未授权的API在脚本作用域中不可见
+    const scriptContent = `${dependencies}\n${script.source}`;
+    // 沙箱放在授权作用域之内，沙箱的全局对象中只有已授权的API和筛选后的 GM 对象；
+    // 沙箱中的控制台只替换脚本看到的 console，页面模式下临时替换页面的 console
+    const runScript = mode === 'content'
+      ? `{
+          const console = scriptConsole;
+          ${createGrantScope(script, createSandboxScope(scriptContent, [...getGrantedGlobalApis(script), 'GM_info', 'GM', 'console']))}
+        }`
+      : `console = scriptConsole;
+          ${createGrantScope(script, scriptContent)}
+          
+          // 恢复原始控制台
+          console = originalConsole;`;
+
+    // 包装脚本，消息桥客户端只保存在包装器的闭包中，需要先于GM API创建
     return `
       (async function() {
         try {
+          const bridge = ${this.bridge.getClientCode(registration)};
+
           // 定义unsafeWindow
           const unsafeWindow = window;
           
@@ -1192,8 +2230,6 @@ export class EnhancedScriptInjector {
           // 定义GM API
           ${gmApiStr}
           
-          ${dependencies}
-          
           // 保存原始控制台
           const originalConsole = {
             log: console.log,
@@ -1204,7 +2240,7 @@ export class EnhancedScriptInjector {
           };
           
           // 修改控制台以便识别用户脚本日志
-          console = Object.assign({}, console, {
+          const scriptConsole = Object.assign({}, console, {
             log: (...args) => originalConsole.log('[${gmInfo.script.name}]', ...args),
             warn: (...args) => originalConsole.warn('[${gmInfo.script.name}]', ...args),
             error: (...args) => originalConsole.error('[${gmInfo.script.name}]', ...args),
@@ -1212,58 +2248,11 @@ export class EnhancedScriptInjector {
             debug: (...args) => originalConsole.debug('[${gmInfo.script.name}]', ...args)
           });
           
-          // 注入用户脚本
-          ${scriptSource}
-          
-          // 恢复原始控制台
-          console = originalConsole;
+          ${runScript}
         } catch(e) {
           console.error('[CheekyChimp Enhanced] 运行脚本时出错:', e);
         }
       })();
     `;
   }
-
-  /**
-   * 获取脚本元数据字符串
-   */
-  private getScriptMetaStr(script: UserScript): string {
-    const metaLines = [];
-    
-    metaLines.push('// ==UserScript==');
-    
-    if (script.name) metaLines.push(`// @name ${script.name}`);
-    if (script.namespace) metaLines.push(`// @namespace ${script.namespace}`);
-    if (script.version) metaLines.push(`// @version ${script.version}`);
-    if (script.description) metaLines.push(`// @description ${script.description}`);
-    if (script.author) metaLines.push(`// @author ${script.author}`);
-    if (script.homepage) metaLines.push(`// @homepage ${script.homepage}`);
-    if (script.icon) metaLines.push(`// @icon ${script.icon}`);
-    
-    script.includes.forEach(include => {
-      metaLines.push(`// @include ${include}`);
-    });
-    
-    script.matches.forEach(match => {
-      metaLines.push(`// @match ${match}`);
-    });
-    
-    script.excludes.forEach(exclude => {
-      metaLines.push(`// @exclude ${exclude}`);
-    });
-    
-    script.requires.forEach(require => {
-      metaLines.push(`// @require ${require}`);
-    });
-    
-    script.resources.forEach(resource => {
-      metaLines.push(`// @resource ${resource.name} ${resource.url}`);
-    });
-    
-    if (script.runAt) metaLines.push(`// @run-at ${script.runAt}`);
-    
-    metaLines.push('// ==/UserScript==');
-    
-    return metaLines.join('\n');
-  }
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { GM_API, GMInfo, GMXmlHttpRequestDetails, GMNotificationDetails } from './GMApiTypes';
-import { ResourceLoader } from '../resources/ResourceLoader';
+import { ScriptResources } from '../resources/resource-cache';
+import { ResourceAPI } from './resource-api';
 import { StorageService } from '../storage/StorageService';
 
 /**
@@ -7,7 +8,7 @@ import { StorageService } from '../storage/StorageService';
  */
 export class GMApiFactory {
     private scriptInfo: GMInfo;
-    private resourceLoader: ResourceLoader;
+    private resources: ResourceAPI;
     private storageService: StorageService;
     private window: Window;
     private menuCommands: Map<number, { name: string; callback: Function; accessKey?: string }> = new Map();
@@ -15,12 +16,12 @@ export class GMApiFactory {
 
     constructor(
         scriptInfo: GMInfo,
-        resourceLoader: ResourceLoader,
+        resources: ScriptResources,
         storageService: StorageService,
         window: Window
     ) {
         this.scriptInfo = scriptInfo;
-        this.resourceLoader = resourceLoader;
+        this.resources = new ResourceAPI(resources);
         this.storageService = storageService;
         this.window = window;
     }
@@ -64,13 +65,9 @@ export class GMApiFactory {
             },
             
             // 资源相关
-            GM_getResourceText: (name: string) => {
-                return this.resourceLoader.getResourceText(name);
-            },
+            GM_getResourceText: this.resources.getResourceText,
             
-            GM_getResourceURL: (name: string) => {
-                return this.resourceLoader.getResourceURL(name);
-            },
+            GM_getResourceURL: this.resources.getResourceURL,
             
             // DOM操作
             GM_addStyle: (css: string) => {
@@ -263,8 +260,8 @@ export class GMApiFactory {
             },
             
             // 资源
-            getResourceUrl: async (name: string) => {
-                return this.resourceLoader.getResourceURL(name);
+            getResourceUrl: async (name: string, isBlobUrl?: boolean) => {
+                return this.resources.getResourceURL(name, isBlobUrl);
             },
             
             // XHR
@@ -90,8 +90,8 @@ export interface GMFunctions {
     GM_setValue(name: string, value: any): void;
     GM_deleteValue(name: string): void;
     GM_listValues(): string[];
-    GM_getResourceText(name: string): string;
-    GM_getResourceURL(name: string): string;
+    GM_getResourceText(name: string): string | null;
+    GM_getResourceURL(name: string, isBlobUrl?: boolean): string | null;
     GM_addStyle(css: string): HTMLStyleElement | void;
     GM_xmlhttpRequest(details: GMXmlHttpRequestDetails): { abort: () => void };
     GM_registerMenuCommand(name: string, fn: Function, accessKey?: string): number;
@@ -112,7 +112,7 @@ export interface GMNewFunctions {
     setValue(name: string, value: any): Promise<void>;
     deleteValue(name: string): Promise<void>;
     listValues(): Promise<string[]>;
-    getResourceUrl(name: string): Promise<string>;
+    getResourceUrl(name: string, isBlobUrl?: boolean): Promise<string | null>;
     xmlHttpRequest(details: GMXmlHttpRequestDetails): { abort: () => void };
     addStyle(css: string): Promise<HTMLStyleElement>;
     registerMenuCommand(name: string, fn: Function, accessKey?: string): Promise<number>;
@@ -7,25 +7,43 @@ export interface XMLHttpRequestDetails {
   /** 请求URL */
   url: string;
   /** 请求方法 */
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'HEAD' | 'OPTIONS';
+  method?: string;
   /** 请求头 */
   headers?: Record<string, string>;
   /** 请求数据 */
-  data?: string | FormData | Blob;
+  data?: string | FormData | Blob | ArrayBuffer | ArrayBufferView | URLSearchParams;
+  /** 以二进制方式发送字符串数据 */
+  binary?: boolean;
   /** 是否发送凭据（如cookies） */
   withCredentials?: boolean;
+  /** 不发送凭据，优先于 withCredentials */
+  anonymous?: boolean;
   /** 请求超时（毫秒） */
   timeout?: number;
   /** 响应类型 */
-  responseType?: 'text' | 'json' | 'arraybuffer' | 'blob';
+  responseType?: 'text' | 'json' | 'arraybuffer' | 'blob' | 'document';
+  /** 覆盖响应的MIME类型 */
+  overrideMimeType?: string;
+  /** HTTP认证用户名 */
+  user?: string;
+  /** HTTP认证密码 */
+  password?: string;
+  /** 原样附加到响应对象上的数据 */
+  context?: any;
+  /** 请求开始回调 */
+  onloadstart?: (response: XMLHttpRequestResponse) => void;
+  /** 下载进度回调 */
+  onprogress?: (response: XMLHttpRequestProgress) => void;
   /** 请求完成回调 */
   onload?: (response: XMLHttpRequestResponse) => void;
+  /** 请求结束回调（无论成功与否） */
+  onloadend?: (response: XMLHttpRequestResponse) => void;
   /** 请求失败回调 */
-  onerror?: (error: Error) => void;
+  onerror?: (response: XMLHttpRequestResponse) => void;
   /** 请求超时回调 */
-  ontimeout?: () => void;
+  ontimeout?: (response: XMLHttpRequestResponse) => void;
   /** 请求取消回调 */
-  onabort?: () => void;
+  onabort?: (response: XMLHttpRequestResponse) => void;
   /** 请求状态变化回调 */
   onreadystatechange?: (response: XMLHttpRequestResponse) => void;
 }
@@ -44,10 +62,28 @@ export interface XMLHttpRequestResponse {
   statusText: string;
   /** 响应头 */
   responseHeaders: string;
-  /** 响应文本 */
+  /** 响应文本，响应类型为 arraybuffer/blob 时为空 */
   responseText: string;
-  /** 响应对象 */
+  /** 响应文档（HTML/XML响应或 responseType 为 document 时） */
+  responseXML?: Document | null;
+  /** 响应对象，类型由 responseType 决定 */
   response: any;
+  /** 请求时传入的 context */
+  context?: any;
+  /** 失败原因（仅出错、超时或取消时） */
+  error?: string;
+}
+
+/**
+ * 进度事件中的响应对象
+ */
+export interface XMLHttpRequestProgress extends XMLHttpRequestResponse {
+  /** 是否知道总长度 */
+  lengthComputable: boolean;
+  /** 已传输的字节数 */
+  loaded: number;
+  /** 总字节数 */
+  total: number;
 }
 
 /**
@@ -58,6 +94,11 @@ export interface XMLHttpRequestControl {
   abort: () => void;
 }
 
+/**
+ * GM.xmlHttpRequest 的返回值：加载完成时兑现，出错、超时或取消时拒绝，同时可以中止请求
+ */
+export type XMLHttpRequestPromise = Promise<XMLHttpRequestResponse> & XMLHttpRequestControl;
+
 /**
  * 通知详情接口
  */
@@ -68,8 +109,14 @@ export interface NotificationDetails {
   title?: string;
   /** 通知图标 */
   image?: string;
-  /** 通知超时（毫秒） */
+  /** 通知超时（毫秒），0 表示不自动关闭 */
   timeout?: number;
+  /** 同时突出显示脚本所在的页面 */
+  highlight?: boolean;
+  /** 系统通知不播放提示音 */
+  silent?: boolean;
+  /** 相同标签的新通知会替换之前的通知 */
+  tag?: string;
   /** 点击通知回调 */
   onclick?: () => void;
   /** 关闭通知回调 */
@@ -82,9 +129,9 @@ export interface NotificationDetails {
 export interface TabOptions {
   /** 是否激活新标签页 */
   active?: boolean;
-  /** 是否在后台打开 */
+  /** 是否插入到当前标签页之后 */
   insert?: boolean;
-  /** 标签页打开位置 */
+  /** 关闭新标签页时是否回到当前标签页 */
   setParent?: boolean;
 }
 
@@ -112,7 +159,21 @@ export interface GMInfo {
     resources: { name: string; url: string; }[];
     /** 依赖列表 */
     requires: string[];
+    /** 授权的API列表(@grant) */
+    grant: string[];
+    /** 声明的运行时机(@run-at) */
+    'run-at'?: string;
+    /** 是否只在顶层页面运行(@noframes) */
+    noframes?: boolean;
   };
+  /** 脚本实际的注入方式(@inject-into 为 auto 时取决于页面是否允许内联脚本) */
+  injectInto?: 'page' | 'content';
+  /** 脚本是否运行在子框架中 */
+  isFrame?: boolean;
+  /** 页面是否运行在不保存数据的会话中 */
+  isIncognito?: boolean;
+  /** 实际的注入时机，可能晚于 @run-at */
+  runAt?: 'document-start' | 'document-body' | 'document-end' | 'document-idle' | 'context-menu';
   /** 脚本处理器版本 */
   version: string;
   /** 脚本处理器名称 */
@@ -121,6 +182,12 @@ export interface GMInfo {
   scriptMetaStr: string;
 }
 
+/**
+ * 存储值变化的回调
+ * @param remote 修改是否来自其他页面
+ */
+export type ValueChangeCallback = (name: string, oldValue: any, newValue: any, remote: boolean) => void;
+
 /**
  * GM_API 接口，定义所有Greasemonkey API函数
  */
@@ -140,11 +207,26 @@ export interface GM_API {
   /** 列出所有存储的键 */
   GM_listValues(): string[];
   
-  /** 获取资源文本 */
-  GM_getResourceText(name: string): string;
+  /** 获取多个存储的值，参数为键名数组或以默认值为属性值的对象 */
+  GM_getValues(keysOrDefaults: string[] | Record<string, any>): Record<string, any>;
+  
+  /** 设置多个存储的值 */
+  GM_setValues(values: Record<string, any>): void;
   
-  /** 获取资源URL */
-  GM_getResourceURL(name: string): string;
+  /** 删除多个存储的值 */
+  GM_deleteValues(names: string[]): void;
+  
+  /** 监听存储值的变化，返回监听器ID */
+  GM_addValueChangeListener(name: string, callback: ValueChangeCallback): number;
+  
+  /** 移除存储值变化监听器 */
+  GM_removeValueChangeListener(listenerId: number): void;
+  
+  /** 获取资源文本，资源不存在时返回 null */
+  GM_getResourceText(name: string): string | null;
+  
+  /** 获取资源URL，isBlobUrl 为 false 时返回 data: URL，否则返回 blob: URL */
+  GM_getResourceURL(name: string, isBlobUrl?: boolean): string | null;
   
   /** 添加CSS样式 */
   GM_addStyle(css: string): HTMLStyleElement | void;
@@ -159,13 +241,13 @@ export interface GM_API {
   GM_unregisterMenuCommand(menuCmdId: number): void;
   
   /** 在新标签页打开URL */
-  GM_openInTab(url: string, options?: TabOptions | boolean): { close: () => void } | null;
+  GM_openInTab(url: string, options?: TabOptions | boolean): { close: () => void; closed: boolean; onclose: (() => void) | null } | null;
   
   /** 设置剪贴板内容 */
   GM_setClipboard(data: string, info?: string | { type?: string; mimetype?: string }): void;
   
   /** 显示通知 */
-  GM_notification(details: NotificationDetails | string, title?: string, image?: string, onclick?: () => void): void;
+  GM_notification(details: NotificationDetails | string, titleOrOndone?: string | (() => void), image?: string, onclick?: () => void): void;
   
   /** 添加DOM元素 */
   GM_addElement?(tagName: string, attributes: Record<string, string>): HTMLElement;
@@ -187,8 +269,23 @@ export interface GM_API {
     /** 列出所有存储的键（异步） */
     listValues(): Promise<string[]>;
     
+    /** 获取多个存储的值（异步） */
+    getValues(keysOrDefaults: string[] | Record<string, any>): Promise<Record<string, any>>;
+    
+    /** 设置多个存储的值（异步） */
+    setValues(values: Record<string, any>): Promise<void>;
+    
+    /** 删除多个存储的值（异步） */
+    deleteValues(names: string[]): Promise<void>;
+    
+    /** 监听存储值的变化（异步） */
+    addValueChangeListener(name: string, callback: ValueChangeCallback): Promise<number>;
+    
+    /** 移除存储值变化监听器（异步） */
+    removeValueChangeListener(listenerId: number): Promise<void>;
+    
     /** 发送XMLHttpRequest请求 */
-    xmlHttpRequest(details: XMLHttpRequestDetails): XMLHttpRequestControl | null;
+    xmlHttpRequest(details: XMLHttpRequestDetails): XMLHttpRequestPromise;
     
     /** 添加CSS样式（异步） */
     addStyle(css: string): Promise<HTMLStyleElement>;
@@ -198,5 +295,8 @@ export interface GM_API {
     
     /** 添加DOM元素（异步） */
     addElement(tagName: string, attributes: Record<string, string>): Promise<HTMLElement>;
+    
+    /** 显示通知，通知关闭时兑现 */
+    notification(details: NotificationDetails | string, titleOrOndone?: string | (() => void), image?: string, onclick?: () => void): Promise<boolean>;
   };
 } 
\ No newline at end of file
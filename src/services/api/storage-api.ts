@@ -1,5 +1,6 @@
 import { UserScript, ScriptStorage } from '../../models/script';
 import { StorageError } from '../error/error-types';
+import { ValueChangeCallback } from './gm-api-types';
 
 /**
  * 存储API服务，负责管理脚本数据的存储和访问
@@ -7,6 +8,9 @@ import { StorageError } from '../error/error-types';
 export class StorageAPI {
   private storage: ScriptStorage;
   private script: UserScript;
+  private listeners = new Map<number, { name: string; callback: ValueChangeCallback }>();
+  private nextListenerId = 1;
+  private storageEventHandler: ((event: StorageEvent) => void) | null = null;
   
   /**
    * 创建存储API实例
@@ -26,6 +30,16 @@ export class StorageAPI {
     this.setValueAsync = this.setValueAsync.bind(this);
     this.deleteValueAsync = this.deleteValueAsync.bind(this);
     this.listValuesAsync = this.listValuesAsync.bind(this);
+    this.getValues = this.getValues.bind(this);
+    this.setValues = this.setValues.bind(this);
+    this.deleteValues = this.deleteValues.bind(this);
+    this.getValuesAsync = this.getValuesAsync.bind(this);
+    this.setValuesAsync = this.setValuesAsync.bind(this);
+    this.deleteValuesAsync = this.deleteValuesAsync.bind(this);
+    this.addValueChangeListener = this.addValueChangeListener.bind(this);
+    this.removeValueChangeListener = this.removeValueChangeListener.bind(this);
+    this.addValueChangeListenerAsync = this.addValueChangeListenerAsync.bind(this);
+    this.removeValueChangeListenerAsync = this.removeValueChangeListenerAsync.bind(this);
   }
   
   /**
@@ -37,6 +51,13 @@ export class StorageAPI {
     return `${this.script.id}:${name}`;
   }
   
+  /**
+   * 脚本的值在localStorage中的键
+   */
+  private getLocalKey(name: string): string {
+    return `cheekychimp:${this.script.id}:${name}`;
+  }
+  
   /**
    * 同步获取存储的值
    * @param name 键名
@@ -45,16 +66,9 @@ export class StorageAPI {
    */
   getValue(name: string, defaultValue?: any): any {
     try {
-      // 首先尝试从localStorage获取(同步方式)
-      const localStorageKey = `cheekychimp:${this.script.id}:${name}`;
-      const value = localStorage.getItem(localStorageKey);
-      
-      if (value !== null) {
-        return value;
-      }
-      
-      // 如果localStorage中没有，返回默认值
-      return defaultValue;
+      // 从localStorage获取(同步方式)
+      const value = localStorage.getItem(this.getLocalKey(name));
+      return value === null ? defaultValue : parseStoredValue(value);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       console.error(`获取存储值失败 (${name}):`, err);
@@ -63,15 +77,28 @@ export class StorageAPI {
   }
   
   /**
-   * 同步设置存储的值
+   * 同步设置存储的值，值按JSON序列化保存，读取时保留原来的类型
    * @param name 键名
-   * @param value 值
+   * @param value 值，undefined 等同于删除
    */
   setValue(name: string, value: any): void {
+    if (value === undefined) {
+      this.deleteValue(name);
+      return;
+    }
+    
     try {
       // 存储到localStorage(同步方式)
-      const localStorageKey = `cheekychimp:${this.script.id}:${name}`;
-      localStorage.setItem(localStorageKey, value);
+      const localStorageKey = this.getLocalKey(name);
+      const serialized = serializeValue(name, value);
+      const oldValue = localStorage.getItem(localStorageKey);
+      localStorage.setItem(localStorageKey, serialized);
+      this.notifyListeners(
+        name,
+        oldValue === null ? undefined : parseStoredValue(oldValue),
+        parseStoredValue(serialized),
+        false
+      );
       
       // 也异步存储到插件的存储中
       this.setValueAsync(name, value).catch(error => {
@@ -90,8 +117,12 @@ export class StorageAPI {
   deleteValue(name: string): void {
     try {
       // 从localStorage删除(同步方式)
-      const localStorageKey = `cheekychimp:${this.script.id}:${name}`;
+      const localStorageKey = this.getLocalKey(name);
+      const oldValue = localStorage.getItem(localStorageKey);
       localStorage.removeItem(localStorageKey);
+      if (oldValue !== null) {
+        this.notifyListeners(name, parseStoredValue(oldValue), undefined, false);
+      }
       
       // 也异步从插件的存储中删除
       this.deleteValueAsync(name).catch(error => {
@@ -110,7 +141,7 @@ export class StorageAPI {
   listValues(): string[] {
     try {
       const keys = [];
-      const prefix = `cheekychimp:${this.script.id}:`;
+      const prefix = this.getLocalKey('');
       
       // 从localStorage获取键(同步方式)
       for (let i = 0; i < localStorage.length; i++) {
@@ -128,6 +159,44 @@ export class StorageAPI {
     }
   }
   
+  /**
+   * 同步获取多个值
+   * @param keysOrDefaults 键名数组，或以键名为属性、默认值为属性值的对象
+   * @returns 存在的值，以及有默认值的键的默认值
+   */
+  getValues(keysOrDefaults: string[] | Record<string, any>): Record<string, any> {
+    const defaults: Record<string, any> = Array.isArray(keysOrDefaults) ? {} : keysOrDefaults;
+    const names = Array.isArray(keysOrDefaults) ? keysOrDefaults : Object.keys(keysOrDefaults);
+    const result: Record<string, any> = {};
+    
+    names.forEach(name => {
+      const value = this.getValue(name);
+      if (value !== undefined) {
+        result[name] = value;
+      } else if (defaults[name] !== undefined) {
+        result[name] = defaults[name];
+      }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * 同步设置多个值
+   * @param values 以键名为属性的对象
+   */
+  setValues(values: Record<string, any>): void {
+    Object.keys(values).forEach(name => this.setValue(name, values[name]));
+  }
+  
+  /**
+   * 同步删除多个值
+   * @param names 键名数组
+   */
+  deleteValues(names: string[]): void {
+    names.forEach(name => this.deleteValue(name));
+  }
+  
   /**
    * 异步获取存储的值
    * @param name 键名
@@ -155,6 +224,10 @@ export class StorageAPI {
       const key = this.getStorageKey(name);
       await this.storage.setValue(key, value);
     } catch (error) {
+      // 超出配额等存储错误直接抛出
+      if (error instanceof StorageError) {
+        throw error;
+      }
       const err = error instanceof Error ? error : new Error(String(error));
       throw new StorageError('set', `设置键 "${name}" 失败: ${err.message}`);
     }
@@ -193,4 +266,157 @@ export class StorageAPI {
       throw new StorageError('list', `列出存储键失败: ${err.message}`);
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * 异步获取多个值
+   * @param keysOrDefaults 键名数组，或以键名为属性、默认值为属性值的对象
+   */
+  async getValuesAsync(keysOrDefaults: string[] | Record<string, any>): Promise<Record<string, any>> {
+    const defaults: Record<string, any> = Array.isArray(keysOrDefaults) ? {} : keysOrDefaults;
+    const names = Array.isArray(keysOrDefaults) ? keysOrDefaults : Object.keys(keysOrDefaults);
+    const result: Record<string, any> = {};
+    
+    for (const name of names) {
+      const value = await this.getValueAsync(name);
+      if (value !== undefined) {
+        result[name] = value;
+      } else if (defaults[name] !== undefined) {
+        result[name] = defaults[name];
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * 异步设置多个值
+   * @param values 以键名为属性的对象
+   */
+  async setValuesAsync(values: Record<string, any>): Promise<void> {
+    for (const name of Object.keys(values)) {
+      await this.setValueAsync(name, values[name]);
+    }
+  }
+  
+  /**
+   * 异步删除多个值
+   * @param names 键名数组
+   */
+  async deleteValuesAsync(names: string[]): Promise<void> {
+    for (const name of names) {
+      await this.deleteValueAsync(name);
+    }
+  }
+  
+  /**
+   * 监听存储值的变化
+   *
+   * 本实例的修改以 remote=false 通知，同源其他页面对 localStorage 的修改以 remote=true 通知
+   * @param name 键名
+   * @param callback 回调，参数为 (name, oldValue, newValue, remote)
+   * @returns 监听器ID
+   */
+  addValueChangeListener(name: string, callback: ValueChangeCallback): number {
+    const id = this.nextListenerId++;
+    this.listeners.set(id, { name, callback });
+    this.ensureStorageEventHandler();
+    return id;
+  }
+  
+  /**
+   * 移除存储值变化监听器
+   * @param listenerId addValueChangeListener 返回的ID
+   */
+  removeValueChangeListener(listenerId: number): void {
+    this.listeners.delete(listenerId);
+    if (this.listeners.size === 0 && this.storageEventHandler) {
+      window.removeEventListener('storage', this.storageEventHandler);
+      this.storageEventHandler = null;
+    }
+  }
+  
+  /**
+   * 异步监听存储值的变化
+   */
+  async addValueChangeListenerAsync(name: string, callback: ValueChangeCallback): Promise<number> {
+    return this.addValueChangeListener(name, callback);
+  }
+  
+  /**
+   * 异步移除存储值变化监听器
+   */
+  async removeValueChangeListenerAsync(listenerId: number): Promise<void> {
+    this.removeValueChangeListener(listenerId);
+  }
+  
+  /**
+   * 监听其他页面对 localStorage 的修改
+   */
+  private ensureStorageEventHandler(): void {
+    if (this.storageEventHandler) {
+      return;
+    }
+    
+    const prefix = this.getLocalKey('');
+    this.storageEventHandler = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage || !event.key || !event.key.startsWith(prefix)) {
+        return;
+      }
+      this.notifyListeners(
+        event.key.substring(prefix.length),
+        event.oldValue === null ? undefined : parseStoredValue(event.oldValue),
+        event.newValue === null ? undefined : parseStoredValue(event.newValue),
+        true
+      );
+    };
+    window.addEventListener('storage', this.storageEventHandler);
+  }
+  
+  /**
+   * 通知监听该键的监听器，值没有变化时不通知
+   */
+  private notifyListeners(name: string, oldValue: any, newValue: any, remote: boolean): void {
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      return;
+    }
+    
+    this.listeners.forEach(listener => {
+      if (listener.name !== name) {
+        return;
+      }
+      try {
+        listener.callback(name, oldValue, newValue, remote);
+      } catch (error) {
+        console.error(`存储值变化监听器出错 (${name}):`, error);
+      }
+    });
+  }
+}
+
+/**
+ * 把值序列化为JSON，无法序列化的值（函数、循环引用等）抛出 StorageError
+ */
+function serializeValue(name: string, value: any): string {
+  let serialized: string | undefined;
+  try {
+    serialized = JSON.stringify(value);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new StorageError('set', `键 "${name}" 的值无法序列化: ${err.message}`);
+  }
+  if (serialized === undefined) {
+    throw new StorageError('set', `键 "${name}" 的值无法序列化`);
+  }
+  return serialized;
+}
+
+/**
+ * 解析localStorage中保存的值，旧版本直接保存的字符串原样返回
+ */
+function parseStoredValue(stored: string): any {
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    return stored;
+  }
+}
@@ -1,19 +1,23 @@
 import { UserScript } from '../../models/script';
 import { NotificationDetails } from './gm-api-types';
 import { APICallError } from '../error/error-types';
+import { NotificationService, normalizeNotificationArgs } from '../notification-service';
 
 /**
  * UI API服务，负责处理用户界面相关功能
  */
 export class UIAPI {
   private script: UserScript;
+  private notificationService: NotificationService;
   
   /**
    * 创建UI API实例
    * @param script 脚本对象
+   * @param notificationService 通知服务，未提供时以 Obsidian Notice 显示
    */
-  constructor(script: UserScript) {
+  constructor(script: UserScript, notificationService?: NotificationService) {
     this.script = script;
+    this.notificationService = notificationService || new NotificationService(() => 'notice', () => []);
     
     // 绑定方法
     this.addStyle = this.addStyle.bind(this);
@@ -24,6 +28,7 @@ export class UIAPI {
     this.addElement = this.addElement.bind(this);
     this.addElementAsync = this.addElementAsync.bind(this);
     this.notification = this.notification.bind(this);
+    this.notificationAsync = this.notificationAsync.bind(this);
   }
   
   /**
@@ -188,44 +193,51 @@ export class UIAPI {
    * 显示通知
    * 该方法与GM_notification接口保持一致
    * @param details 通知详情对象或通知文本
-   * @param _title 标题（当details为字符串时）- 为保持接口兼容
-   * @param _image 图片URL（当details为字符串时）- 为保持接口兼容
-   * @param _onclick 点击回调（当details为字符串时）- 为保持接口兼容
+   * @param titleOrOndone 标题（当details为字符串时）或关闭回调
+   * @param image 图片URL（当details为字符串时）
+   * @param onclick 点击回调（当details为字符串时）
    */
   notification(
     details: NotificationDetails | string,
-    _title?: string,
-    _image?: string,
-    _onclick?: () => void
+    titleOrOndone?: string | (() => void),
+    image?: string,
+    onclick?: () => void
   ): void {
-    try {
-      console.warn('CheekyChimp: GM_notification 未完全实现');
-      
-      // 处理不同参数形式
-      let text: string;
-      let callback: (() => void) | undefined;
-      
-      if (typeof details === 'string') {
-        // 简单文本通知
-        text = details;
-        callback = _onclick;
-      } else {
-        // 详细通知对象
-        text = details.text;
-        callback = details.onclick;
-      }
-      
-      // 显示简单提示
-      alert(text);
-      
-      // 执行回调（如果有）
-      if (callback) {
-        setTimeout(callback, 10);
+    this.notificationAsync(details, titleOrOndone, image, onclick);
+  }
+  
+  /**
+   * 显示通知（GM.notification）
+   * @returns Promise，通知关闭时兑现为 true，没有显示通知时兑现为 false
+   */
+  notificationAsync(
+    details: NotificationDetails | string,
+    titleOrOndone?: string | (() => void),
+    image?: string,
+    onclick?: () => void
+  ): Promise<boolean> {
+    return new Promise(resolve => {
+      try {
+        const options = normalizeNotificationArgs(details, titleOrOndone, image, onclick);
+        const id = this.notificationService.show(this.script, options, {
+          onclick: options.onclick,
+          ondone: () => {
+            if (options.ondone) {
+              options.ondone();
+            }
+            resolve(true);
+          }
+        });
+        
+        if (id === null) {
+          resolve(false);
+        }
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        console.error('CheekyChimp: 显示通知失败:', err);
+        resolve(false);
       }
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      console.error('CheekyChimp: 显示通知失败:', err);
-    }
+    });
   }
   
   /**
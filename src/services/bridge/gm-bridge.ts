@@ -0,0 +1,452 @@
+import { Logger } from '../logging/logger';
+
+/**
+ * 页面通知插件取走请求时使用的前缀
+ */
+export const BRIDGE_CHANNEL = '__cheekychimp_bridge__';
+
+/**
+ * 处理请求时可用的上下文
+ *
+ * 脚本和页面地址取自注入脚本时登记的信息，而不是页面发来的内容。
+ */
+export interface BridgeContext {
+    /** 发出请求的 webview 或 iframe 元素 */
+    element: HTMLElement;
+    /** 发出请求的脚本 */
+    scriptId: string;
+    /** 脚本注入时所在页面（或子框架）的地址 */
+    url: string;
+    /** 发出请求的客户端，向它推送事件时使用（见 pushToCaller） */
+    caller: string;
+}
+
+/**
+ * 调用页面中桥接客户端时传递的参数，只允许基本类型，不把插件中的对象交给页面
+ */
+export type BridgeArgument = string | number | boolean;
+
+/**
+ * 在脚本所在的框架中调用页面 window 上名为 name 的桥接客户端，返回它的返回值
+ */
+export type BridgeEndpoint = (name: string, args: BridgeArgument[]) => Promise<unknown>;
+
+/**
+ * 注入脚本时分配给桥接客户端的名称和密钥
+ */
+export interface BridgeRegistration {
+    /** 客户端在页面 window 上的属性名 */
+    name: string;
+    /** 插件调用客户端时出示的密钥，只保存在插件和客户端的闭包中 */
+    key: string;
+}
+
+/**
+ * 注入脚本时登记的调用方
+ */
+interface BridgeCaller {
+    element: HTMLElement;
+    scriptId: string;
+    url: string;
+    key: string;
+    endpoint: BridgeEndpoint;
+}
+
+/**
+ * 插件侧的请求处理函数，返回值会作为结果回传给页面
+ */
+export type BridgeHandler = (payload: any, context: BridgeContext) => any | Promise<any>;
+
+interface BridgeRequest {
+    id: string;
+    action: string;
+    payload: any;
+}
+
+/**
+ * 生成在页面中调用桥接客户端的代码，供通过 executeJavaScript 实现的 BridgeEndpoint 使用
+ */
+export function getBridgeCallCode(name: string, args: BridgeArgument[]): string {
+    const receiver = `window[${JSON.stringify(name)}]`;
+    return `typeof ${receiver} === 'function' ? ${receiver}(${args.map(arg => JSON.stringify(arg)).join(', ')}) : undefined`;
+}
+
+/**
+ * GM API 消息桥
+ *
+ * 用户脚本运行在 webview/iframe 页面中，无法直接访问插件能力（Obsidian 弹窗、
+ * 插件存储、不受跨域限制的网络请求等）。页面侧通过本桥发送请求，插件侧注册处理函数并回传结果，
+ * 插件也可以主动向页面推送事件。
+ *
+ * 每次注入脚本时为它分配一个随机名称和密钥（registerScript），包装器中的客户端以该名称挂到页面的 window 上。
+ * 页面侧只发出不带内容的通知，插件收到后调用客户端取走排队的请求，再调用客户端交回结果和事件：
+ * - 通知：webview 主框架通过 console 输出，插件监听 console-message 事件；webview 的子框架
+ *   通过 postMessage 交给主框架转发；iframe 及其子框架直接 postMessage 给 Obsidian 窗口
+ * - 调用客户端：通过 executeJavaScript 或直接调用页面中的函数（见 BridgeEndpoint），只传递字符串等基本类型
+ *
+ * 密钥不经过页面能观察到的通道，客户端只接受出示密钥的调用，因此注入之后运行的页面代码
+ * 既不能替脚本发出请求，也不能伪造插件的回复和事件。脚本与页面共用同一个 JS 环境，
+ * 先于脚本运行的页面代码可以篡改客户端用到的内置对象，页面也可以读取请求的内容，
+ * 消息桥不能防范这些情况。
+ */
+export class GMBridge {
+    private logger = new Logger('GMBridge');
+    private handlers = new Map<string, BridgeHandler>();
+    private attached = new Map<HTMLElement, () => void>();
+    private frames = new Set<HTMLIFrameElement>();
+    /** 客户端名称 -> 调用方 */
+    private callers = new Map<string, BridgeCaller>();
+
+    constructor() {
+        this.handleWindowMessage = this.handleWindowMessage.bind(this);
+        window.addEventListener('message', this.handleWindowMessage);
+    }
+
+    /**
+     * 注册一个请求处理函数
+     */
+    handle(action: string, handler: BridgeHandler): void {
+        this.handlers.set(action, handler);
+    }
+
+    /**
+     * 开始接收某个 webview 或 iframe 发出的请求，重复调用不会重复监听
+     */
+    attach(element: HTMLElement): void {
+        if (this.attached.has(element)) {
+            return;
+        }
+
+        if (element instanceof HTMLIFrameElement) {
+            this.frames.add(element);
+            this.attached.set(element, () => this.frames.delete(element));
+            return;
+        }
+
+        const listener = (event: any) => {
+            const message: string = event.message;
+            if (typeof message === 'string' && message.startsWith(BRIDGE_CHANNEL)) {
+                this.drain(element, message.substring(BRIDGE_CHANNEL.length));
+            }
+        };
+
+        element.addEventListener('console-message', listener);
+        this.attached.set(element, () => element.removeEventListener('console-message', listener));
+    }
+
+    /**
+     * 为注入到元素中的脚本分配客户端的名称和密钥，两者需要写进脚本的包装器（见 getClientCode）
+     * @param url 脚本注入时所在页面（或子框架）的地址，作为处理请求时的页面地址
+     * @param endpoint 在脚本所在的框架中调用客户端的方式
+     */
+    registerScript(element: HTMLElement, scriptId: string, url: string, endpoint: BridgeEndpoint): BridgeRegistration {
+        const registration = { name: `__cheekychimp_${createSecret()}`, key: createSecret() };
+        this.callers.set(registration.name, { element, scriptId, url, key: registration.key, endpoint });
+        return registration;
+    }
+
+    /**
+     * 作废元素中登记的客户端，元素加载新文档时调用
+     */
+    revokeScripts(element: HTMLElement): void {
+        this.callers.forEach((caller, name) => {
+            if (caller.element === element) {
+                this.callers.delete(name);
+            }
+        });
+    }
+
+    /**
+     * 停止接收某个元素的请求
+     */
+    detach(element: HTMLElement): void {
+        const cleanup = this.attached.get(element);
+        if (cleanup) {
+            cleanup();
+            this.attached.delete(element);
+        }
+        this.revokeScripts(element);
+    }
+
+    /**
+     * 释放所有监听，插件卸载时调用
+     */
+    destroy(): void {
+        window.removeEventListener('message', this.handleWindowMessage);
+        Array.from(this.attached.keys()).forEach(element => this.detach(element));
+        this.handlers.clear();
+    }
+
+    /**
+     * 向指定元素中的所有脚本推送事件
+     */
+    push(element: HTMLElement, event: string, data: any): void {
+        this.callers.forEach((caller, name) => {
+            if (caller.element === element) {
+                this.deliver(name, ['event', event, toJson(data)]);
+            }
+        });
+    }
+
+    /**
+     * 向发出请求的脚本推送事件
+     */
+    pushToCaller(context: BridgeContext, event: string, data: any): void {
+        this.deliver(context.caller, ['event', event, toJson(data)]);
+    }
+
+    /**
+     * 向所有已连接的页面推送事件
+     * @param exclude 不需要推送的元素
+     */
+    broadcast(event: string, data: any, exclude?: HTMLElement): void {
+        this.getAttachedElements().forEach(element => {
+            if (element !== exclude) {
+                this.push(element, event, data);
+            }
+        });
+    }
+
+    /**
+     * 向页面中的指定脚本推送事件
+     * @param exclude 不需要推送的元素
+     */
+    pushToScript(scriptId: string, event: string, data: any, exclude?: HTMLElement): void {
+        const elements = this.getAttachedElements();
+        this.callers.forEach((caller, name) => {
+            if (caller.scriptId === scriptId && caller.element !== exclude && elements.indexOf(caller.element) !== -1) {
+                this.deliver(name, ['event', event, toJson(data)]);
+            }
+        });
+    }
+
+    /**
+     * 获取当前仍在文档中的已连接元素
+     */
+    getAttachedElements(): HTMLElement[] {
+        const elements: HTMLElement[] = [];
+        Array.from(this.attached.keys()).forEach(element => {
+            if (element.isConnected) {
+                elements.push(element);
+            } else {
+                this.detach(element);
+            }
+        });
+        return elements;
+    }
+
+    /**
+     * 生成创建页面侧桥接客户端的表达式，需在GM API之前求值，结果保存在脚本包装器的闭包中
+     *
+     * 返回的对象不挂载到 window 上，提供：
+     * - request(action, payload)：向插件发送请求，返回 Promise
+     * - on(event, callback) / off(event, callback)：监听插件推送的事件
+     *
+     * window 上只有一个不可修改的接收函数，插件通过它取走请求、交回结果，调用时需要出示密钥。
+     * 客户端的状态都保存在没有原型的对象中，页面在 Object.prototype 或 Array.prototype 上
+     * 添加的属性不会被读写。
+     */
+    getClientCode(registration: BridgeRegistration): string {
+        return `(function() {
+          const name = ${JSON.stringify(registration.name)};
+          const key = ${JSON.stringify(registration.key)};
+          const stringify = JSON.stringify;
+          const parse = JSON.parse;
+          const defineProperty = Object.defineProperty;
+          const top = window.top;
+          // 通知插件取走请求，通知中只有客户端的名称
+          const notify = top === window
+            ? console.debug.bind(console, ${JSON.stringify(BRIDGE_CHANNEL)} + name)
+            : function() { top.postMessage(${JSON.stringify(BRIDGE_CHANNEL)} + name, '*'); };
+
+          let queue = { __proto__: null };
+          let notified = false;
+          const pending = { __proto__: null };
+          const listeners = { __proto__: null };
+          let nextId = 1;
+
+          defineProperty(window, name, {
+            __proto__: null,
+            value: function(callerKey, command, arg1, arg2, arg3) {
+              if (callerKey !== key) return undefined;
+
+              if (command === 'drain') {
+                const requests = queue;
+                queue = { __proto__: null };
+                notified = false;
+                return stringify(requests);
+              }
+
+              if (command === 'reply') {
+                const request = pending[arg1];
+                if (!request) return undefined;
+                delete pending[arg1];
+                const value = arg3 === '' ? undefined : parse(arg3);
+                if (arg2) {
+                  request.resolve(value);
+                } else {
+                  request.reject(new Error(value));
+                }
+                return undefined;
+              }
+
+              if (command === 'event') {
+                const callbacks = listeners[arg1];
+                if (!callbacks) return undefined;
+                for (const id in callbacks) {
+                  try {
+                    callbacks[id](arg2 === '' ? undefined : parse(arg2));
+                  } catch (e) {
+                    console.error('[CheekyChimp] 处理桥接事件出错:', e);
+                  }
+                }
+              }
+              return undefined;
+            }
+          });
+
+          return Object.freeze({
+            request: function(action, payload) {
+              return new Promise(function(resolve, reject) {
+                const id = '' + nextId++;
+                pending[id] = { __proto__: null, resolve: resolve, reject: reject };
+                queue[id] = { __proto__: null, id: id, action: action, payload: payload };
+                if (!notified) {
+                  notified = true;
+                  notify();
+                }
+              });
+            },
+            on: function(event, callback) {
+              const callbacks = listeners[event] || (listeners[event] = { __proto__: null });
+              callbacks['' + nextId++] = callback;
+            },
+            off: function(event, callback) {
+              const callbacks = listeners[event];
+              if (!callbacks) return;
+              for (const id in callbacks) {
+                if (callbacks[id] === callback) delete callbacks[id];
+              }
+            }
+          });
+        })()`;
+    }
+
+    /**
+     * 生成在 webview 页面顶层安装转发的代码：子框架中的脚本把通知交给它，由它通过 console 交给插件
+     *
+     * 转发的只是不带内容的通知，页面中的任何框架都可以发送，插件只会因此多取一次请求。
+     */
+    getRelayCode(): string {
+        return `
+          if (!Object.prototype.hasOwnProperty.call(window, '__cheekychimpBridgeRelay')) {
+            Object.defineProperty(window, '__cheekychimpBridgeRelay', { __proto__: null, value: true });
+            (function() {
+              const channel = ${JSON.stringify(BRIDGE_CHANNEL)};
+              const notify = console.debug.bind(console);
+              window.addEventListener('message', function(event) {
+                const data = event.data;
+                if (event.source !== window && typeof data === 'string' && data.indexOf(channel) === 0) {
+                  notify(data);
+                }
+              });
+            })();
+          }
+        `;
+    }
+
+    /**
+     * 处理 iframe 及其子框架通过 postMessage 发出的通知
+     */
+    private handleWindowMessage(event: MessageEvent): void {
+        const data = event.data;
+        if (typeof data !== 'string' || !data.startsWith(BRIDGE_CHANNEL)) {
+            return;
+        }
+
+        const name = data.substring(BRIDGE_CHANNEL.length);
+        const caller = this.callers.get(name);
+        if (caller && caller.element instanceof HTMLIFrameElement && this.frames.has(caller.element)) {
+            this.drain(caller.element, name);
+        }
+    }
+
+    /**
+     * 取走客户端排队的请求并逐个处理
+     */
+    private async drain(element: HTMLElement, name: string): Promise<void> {
+        const caller = this.callers.get(name);
+        if (!caller || caller.element !== element) {
+            return;
+        }
+
+        let requests: Record<string, BridgeRequest>;
+        try {
+            // 客户端返回的应是字符串，在插件中解析，不使用页面中的对象
+            const drained = await caller.endpoint(name, [caller.key, 'drain']);
+            requests = typeof drained === 'string' ? JSON.parse(drained) : null;
+        } catch (error) {
+            this.logger.warn('无法取走页面中的请求', error);
+            return;
+        }
+        if (!requests || typeof requests !== 'object') {
+            return;
+        }
+
+        Object.keys(requests).forEach(id => {
+            const request = requests[id];
+            if (request && typeof request.id === 'string' && typeof request.action === 'string') {
+                this.dispatch(name, caller, request);
+            }
+        });
+    }
+
+    /**
+     * 调用对应的处理函数并回传结果
+     */
+    private async dispatch(name: string, caller: BridgeCaller, request: BridgeRequest): Promise<void> {
+        const handler = this.handlers.get(request.action);
+        if (!handler) {
+            this.deliver(name, ['reply', request.id, false, toJson(`未知的请求: ${request.action}`)]);
+            return;
+        }
+
+        try {
+            const context = { element: caller.element, scriptId: caller.scriptId, url: caller.url, caller: name };
+            const result = await handler(request.payload, context);
+            this.deliver(name, ['reply', request.id, true, toJson(result)]);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn(`处理请求 ${request.action} 失败: ${message}`);
+            this.deliver(name, ['reply', request.id, false, toJson(message)]);
+        }
+    }
+
+    /**
+     * 以客户端的密钥调用页面中的客户端，客户端所在的文档已经关闭时静默放弃
+     */
+    private deliver(name: string, args: BridgeArgument[]): void {
+        const caller = this.callers.get(name);
+        if (!caller) {
+            return;
+        }
+
+        caller.endpoint(name, [caller.key, ...args]).catch((error: Error) => {
+            this.logger.debug(`向页面发送消息失败: ${error.message}`);
+        });
+    }
+}
+
+/**
+ * 序列化交给客户端的数据，undefined 序列化为空字符串
+ */
+function toJson(data: any): string {
+    return data === undefined ? '' : JSON.stringify(data);
+}
+
+/**
+ * 生成随机密钥
+ */
+function createSecret(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => ('0' + byte.toString(16)).slice(-2)).join('');
+}
@@ -0,0 +1,151 @@
+import { UserScript } from '../../models/script';
+import { ConnectPermissionManager } from '../connect-permissions';
+import { isAnyApiGranted } from '../injection/grants';
+import { Logger } from '../logging/logger';
+import { PrivilegedRequestControl, sendPrivilegedRequest } from '../network/privileged-request';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/base64';
+import { BridgeContext, GMBridge } from './gm-bridge';
+
+/**
+ * 页面通过消息桥提交的请求
+ */
+export interface BridgeXhrRequest {
+    /** 页面生成的请求ID，用于关联后续事件 */
+    requestId: string;
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    /** 文本请求体 */
+    body?: string;
+    /** Base64 编码的二进制请求体，优先于 body */
+    bodyBase64?: string;
+    timeout?: number;
+    user?: string;
+    password?: string;
+    /** 不发送 Cookie */
+    anonymous?: boolean;
+}
+
+/**
+ * 推送给页面的请求事件名
+ */
+export const XHR_EVENT = 'xhr-event';
+
+// 脚本获得其中任意一个授权才能发出请求
+const XHR_APIS = ['GM_xmlhttpRequest', 'GM.xmlHttpRequest'];
+
+// 进度事件的最小推送间隔（毫秒）
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * 在插件侧执行页面中 GM_xmlhttpRequest 发起的请求
+ *
+ * 页面发送 xhr-send 请求，插件确认脚本获得了 GM_xmlhttpRequest 授权，再按发出请求的脚本和
+ * 它所在页面的地址（取自消息桥登记的调用方）检查@connect权限后发出请求，返回值表示是否已放行；
+ * 之后通过 xhr-event 推送 headers、progress、load、error、timeout 事件，响应体以 Base64 传回。
+ * 页面可以发送 xhr-abort 中止请求。
+ */
+export class XhrBridgeHandler {
+    private logger = new Logger('XhrBridge');
+    private active = new Map<string, PrivilegedRequestControl>();
+
+    constructor(
+        private bridge: GMBridge,
+        private getScript: (scriptId: string) => UserScript | undefined,
+        private connectPermissions: ConnectPermissionManager
+    ) {}
+
+    /**
+     * 注册消息桥处理函数
+     */
+    register(): void {
+        this.bridge.handle('xhr-send', (payload: BridgeXhrRequest, context) => this.send(payload, context));
+        this.bridge.handle('xhr-abort', (payload: { requestId: string }, context) => this.abort(payload.requestId, context));
+    }
+
+    /**
+     * 中止所有进行中的请求，插件卸载时调用
+     */
+    abortAll(): void {
+        this.active.forEach(control => control.abort());
+        this.active.clear();
+    }
+
+    private async send(request: BridgeXhrRequest, context: BridgeContext): Promise<boolean> {
+        const script = this.getScript(context.scriptId);
+        if (!script) {
+            return false;
+        }
+        if (!isAnyApiGranted(script, XHR_APIS)) {
+            throw new Error(`脚本 "${script.name}" 没有获得 GM_xmlhttpRequest 授权`);
+        }
+
+        const allowed = await this.connectPermissions.isAllowed(script, request.url, context.url);
+        if (!allowed) {
+            return false;
+        }
+
+        const push = (type: string, data: any = {}) => {
+            this.bridge.pushToCaller(context, XHR_EVENT, { requestId: request.requestId, type, ...data });
+        };
+        // 请求ID由页面生成，按发出请求的客户端区分，避免一个脚本中止另一个脚本的请求
+        const key = getRequestKey(context, request.requestId);
+        const done = () => this.active.delete(key);
+        let lastProgress = 0;
+
+        this.logger.debug(`脚本 ${script.name} 请求 ${request.url}`);
+
+        const control = sendPrivilegedRequest({
+            url: request.url,
+            method: request.method,
+            headers: request.headers,
+            body: request.bodyBase64 !== undefined ? base64ToArrayBuffer(request.bodyBase64) : request.body,
+            timeout: request.timeout,
+            user: request.user,
+            password: request.password,
+            anonymous: request.anonymous,
+            // 重定向的目标同样需要通过@connect检查
+            allowRedirect: url => this.connectPermissions.isAllowed(script, url, context.url)
+        }, {
+            onHeaders: head => push('headers', { head }),
+            onProgress: (loaded, total, lengthComputable) => {
+                const now = Date.now();
+                if (now - lastProgress >= PROGRESS_INTERVAL || (lengthComputable && loaded >= total)) {
+                    lastProgress = now;
+                    push('progress', { loaded, total, lengthComputable });
+                }
+            },
+            onLoad: (head, body) => {
+                done();
+                push('load', { head, bodyBase64: arrayBufferToBase64(body) });
+            },
+            onError: message => {
+                done();
+                push('error', { message });
+            },
+            onTimeout: () => {
+                done();
+                push('timeout');
+            }
+        });
+
+        this.active.set(key, control);
+        return true;
+    }
+
+    private abort(requestId: string, context: BridgeContext): void {
+        const key = getRequestKey(context, requestId);
+        const control = this.active.get(key);
+        if (control) {
+            control.abort();
+            this.active.delete(key);
+        }
+    }
+}
+
+/**
+ * 进行中请求的键：发出请求的客户端加页面生成的请求ID
+ */
+function getRequestKey(context: BridgeContext, requestId: string): string {
+    return `${context.caller}:${requestId}`;
+}
@@ -0,0 +1,71 @@
+import { isHostDeclared, matchConnectRule } from './connect-permissions';
+
+describe('matchConnectRule', () => {
+    const PAGE_URL = 'https://www.example.com/page';
+
+    // [主机, 规则, 是否匹配]
+    const cases: [string, string, boolean][] = [
+        // self 是脚本当前运行页面的主机
+        ['www.example.com', 'self', true],
+        ['WWW.Example.com', 'self', true],
+        ['example.com', 'self', false],
+        ['api.example.com', 'self', false],
+
+        // localhost 包括本机的各种地址
+        ['localhost', 'localhost', true],
+        ['app.localhost', 'localhost', true],
+        ['127.0.0.1', 'localhost', true],
+        ['127.8.9.10', 'localhost', true],
+        ['[::1]', 'localhost', true],
+        ['128.0.0.1', 'localhost', false],
+        ['localhost.example.com', 'localhost', false],
+
+        // IP：精确地址、通配符和 CIDR 网段
+        ['192.168.1.10', '192.168.1.10', true],
+        ['192.168.1.11', '192.168.1.10', false],
+        ['192.168.1.77', '192.168.1.*', true],
+        ['192.168.2.77', '192.168.1.*', false],
+        ['10.20.30.40', '10.0.0.0/8', true],
+        ['11.0.0.1', '10.0.0.0/8', false],
+        ['172.31.255.255', '172.16.0.0/12', true],
+        ['172.32.0.0', '172.16.0.0/12', false],
+        ['8.8.8.8', '0.0.0.0/0', true],
+        ['example.com', '10.0.0.0/8', false],
+
+        // 域名匹配本身和所有子域名
+        ['example.com', 'example.com', true],
+        ['api.example.com', 'example.com', true],
+        ['a.b.example.com', 'example.com', true],
+        ['notexample.com', 'example.com', false],
+        ['example.com.evil.org', 'example.com', false],
+        ['api.example.com', '*.example.com', true],
+        ['api.example.com', '.example.com', true],
+        ['api.example.com', 'https://example.com/path', true],
+        ['API.Example.COM', 'example.com', true],
+
+        // * 不直接放行，只在询问时提供允许所有域名的选项
+        ['example.com', '*', false],
+        ['localhost', '*', false]
+    ];
+
+    it.each(cases)('%s 对规则 %s 返回 %s', (host, rule, expected) => {
+        expect(matchConnectRule(host, rule, PAGE_URL)).toBe(expected);
+    });
+
+    it('没有页面地址时 self 不匹配', () => {
+        expect(matchConnectRule('www.example.com', 'self')).toBe(false);
+    });
+});
+
+describe('isHostDeclared', () => {
+    const cases: [string, string[], boolean][] = [
+        ['api.example.com', ['other.org', 'example.com'], true],
+        ['api.example.com', ['other.org'], false],
+        ['api.example.com', [], false],
+        ['api.example.com', ['*'], false]
+    ];
+
+    it.each(cases)('%s 对规则 %j 返回 %s', (host, rules, expected) => {
+        expect(isHostDeclared(host, rules, 'https://page.example.net/')).toBe(expected);
+    });
+});
@@ -0,0 +1,338 @@
+import { UserScript } from '../models/script';
+import { Logger } from './logging/logger';
+
+/**
+ * 用户对某个脚本的跨域连接所做的持久化决定
+ */
+export interface ConnectDecisions {
+    /** 始终允许连接的主机 */
+    allowed: string[];
+    /** 始终拒绝连接的主机 */
+    denied: string[];
+    /** 允许连接所有主机（仅在脚本声明了 @connect * 时可选） */
+    allowAll: boolean;
+}
+
+/**
+ * 连接确认对话框中的选项
+ */
+export type ConnectChoice = 'allow-once' | 'always-allow' | 'allow-all' | 'deny';
+
+/**
+ * 需要用户确认的连接请求
+ */
+export interface ConnectPromptRequest {
+    script: UserScript;
+    /** 目标主机名 */
+    host: string;
+    /** 完整的请求地址 */
+    url: string;
+    /** 是否提供“始终允许所有域名”选项 */
+    canAllowAll: boolean;
+}
+
+/**
+ * 向用户询问是否允许连接，关闭对话框时应返回 null
+ */
+export type ConnectPrompt = (request: ConnectPromptRequest) => Promise<ConnectChoice | null>;
+
+/**
+ * 判断脚本能否连接到某个地址，由调用方绑定脚本和页面
+ */
+export type ConnectChecker = (targetUrl: string) => Promise<boolean>;
+
+/**
+ * 获取 @connect 声明，兼容尚未解析该字段的旧数据
+ */
+export function getConnectRules(script: UserScript): string[] {
+    if (script.connects) {
+        return script.connects;
+    }
+
+    const rules: string[] = [];
+    const connectRegex = /\/\/\s*@connect\s+(\S+)/g;
+    let match;
+    while ((match = connectRegex.exec(script.source || '')) !== null) {
+        rules.push(match[1]);
+    }
+    return rules;
+}
+
+/**
+ * 解析 IPv4 地址，失败时返回 null
+ */
+function parseIPv4(value: string): number[] | null {
+    const parts = value.split('.');
+    if (parts.length !== 4) {
+        return null;
+    }
+
+    const numbers = parts.map(part => /^\d{1,3}$/.test(part) ? parseInt(part, 10) : NaN);
+    return numbers.every(n => !isNaN(n) && n >= 0 && n <= 255) ? numbers : null;
+}
+
+function ipv4ToInt(parts: number[]): number {
+    return ((parts[0] << 24) >>> 0) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+}
+
+/**
+ * 判断IP是否匹配规则，支持精确地址、通配符（192.168.1.*）和CIDR（10.0.0.0/8）
+ */
+function matchIpRule(host: string, rule: string): boolean | null {
+    const cidr = rule.match(/^([\d.]+)\/(\d{1,2})$/);
+    if (cidr) {
+        const network = parseIPv4(cidr[1]);
+        const bits = parseInt(cidr[2], 10);
+        const ip = parseIPv4(host);
+        if (!network || bits > 32) return null;
+        if (!ip) return false;
+        if (bits === 0) return true;
+        const mask = (0xffffffff << (32 - bits)) >>> 0;
+        return ((ipv4ToInt(ip) & mask) >>> 0) === ((ipv4ToInt(network) & mask) >>> 0);
+    }
+
+    if (/^(\d{1,3}|\*)(\.(\d{1,3}|\*)){3}$/.test(rule) && rule.includes('*')) {
+        const ip = parseIPv4(host);
+        if (!ip) return false;
+        return rule.split('.').every((part, index) => part === '*' || parseInt(part, 10) === ip[index]);
+    }
+
+    if (parseIPv4(rule)) {
+        return host === rule;
+    }
+
+    return null;
+}
+
+/**
+ * 是否为本机地址
+ */
+function isLocalhost(host: string): boolean {
+    if (host === 'localhost' || host.endsWith('.localhost') || host === '[::1]' || host === '::1') {
+        return true;
+    }
+    const ip = parseIPv4(host);
+    return !!ip && ip[0] === 127;
+}
+
+/**
+ * 规范化规则：去掉协议、路径和前导的 "*." 或 "."
+ */
+function normalizeRule(rule: string): string {
+    let normalized = rule.trim().toLowerCase();
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//.test(normalized)) {
+        try {
+            normalized = new URL(normalized).hostname;
+        } catch (e) {
+            // 保留原始值
+        }
+    }
+
+    return normalized.replace(/^\*\./, '').replace(/^\./, '').replace(/\/.*$/, '');
+}
+
+/**
+ * 判断目标主机是否匹配单条 @connect 规则（Tampermonkey 语义）
+ *
+ * - self：脚本当前运行页面的主机
+ * - localhost：本机地址（localhost、127.0.0.0/8、::1）
+ * - IP：精确地址、通配符或CIDR网段
+ * - 域名：该域名及其所有子域名
+ * - *：不直接放行，而是在询问时提供“始终允许所有域名”选项
+ */
+export function matchConnectRule(host: string, rule: string, pageUrl?: string): boolean {
+    const target = host.toLowerCase();
+    const trimmedRule = rule.trim();
+
+    if (trimmedRule === '*') {
+        return false;
+    }
+
+    if (trimmedRule === 'self') {
+        if (!pageUrl) return false;
+        try {
+            return new URL(pageUrl).hostname.toLowerCase() === target;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    if (trimmedRule === 'localhost') {
+        return isLocalhost(target);
+    }
+
+    const ipMatch = matchIpRule(target, trimmedRule);
+    if (ipMatch !== null) {
+        return ipMatch;
+    }
+
+    const domain = normalizeRule(trimmedRule);
+    if (!domain) {
+        return false;
+    }
+
+    return target === domain || target.endsWith('.' + domain);
+}
+
+/**
+ * 目标主机是否在脚本的 @connect 声明中
+ */
+export function isHostDeclared(host: string, rules: string[], pageUrl?: string): boolean {
+    return rules.some(rule => matchConnectRule(host, rule, pageUrl));
+}
+
+/**
+ * 管理脚本跨域连接权限
+ *
+ * 声明过的主机直接放行；未声明的主机先查看用户保存的决定，没有决定时弹出确认对话框。
+ * 决定按脚本ID保存，可以在设置页中撤销。
+ */
+export class ConnectPermissionManager {
+    private logger = new Logger('ConnectPermissions');
+    // 相同脚本和主机的并发请求共用一个确认对话框
+    private pendingPrompts = new Map<string, Promise<ConnectChoice | null>>();
+
+    constructor(
+        private getStore: () => Record<string, ConnectDecisions>,
+        private save: () => Promise<void>,
+        private prompt: ConnectPrompt
+    ) {}
+
+    /**
+     * 创建绑定了脚本和页面的检查函数
+     */
+    createChecker(script: UserScript, pageUrl: string): ConnectChecker {
+        return (targetUrl: string) => this.isAllowed(script, targetUrl, pageUrl);
+    }
+
+    /**
+     * 判断脚本是否可以连接到目标地址，必要时询问用户
+     */
+    async isAllowed(script: UserScript, targetUrl: string, pageUrl: string): Promise<boolean> {
+        let host: string;
+        try {
+            host = new URL(targetUrl, pageUrl || undefined).hostname.toLowerCase();
+        } catch (e) {
+            this.logger.warn(`无效的请求地址: ${targetUrl}`);
+            return false;
+        }
+
+        const rules = getConnectRules(script);
+        if (isHostDeclared(host, rules, pageUrl)) {
+            return true;
+        }
+
+        const decisions = this.getDecisions(script.id);
+        if (decisions.denied.includes(host)) {
+            return false;
+        }
+        if (decisions.allowAll || decisions.allowed.includes(host)) {
+            return true;
+        }
+
+        const choice = await this.askUser({
+            script,
+            host,
+            url: targetUrl,
+            canAllowAll: rules.includes('*')
+        });
+
+        switch (choice) {
+            case 'allow-once':
+                return true;
+            case 'always-allow':
+                await this.updateDecisions(script.id, d => {
+                    if (!d.allowed.includes(host)) d.allowed.push(host);
+                });
+                return true;
+            case 'allow-all':
+                await this.updateDecisions(script.id, d => {
+                    d.allowAll = true;
+                });
+                return true;
+            case 'deny':
+                await this.updateDecisions(script.id, d => {
+                    if (!d.denied.includes(host)) d.denied.push(host);
+                });
+                return false;
+            default:
+                // 直接关闭对话框视为本次拒绝，不保存
+                return false;
+        }
+    }
+
+    /**
+     * 获取脚本保存的连接决定
+     */
+    getDecisions(scriptId: string): ConnectDecisions {
+        const stored = this.getStore()[scriptId];
+        return {
+            allowed: stored?.allowed ? [...stored.allowed] : [],
+            denied: stored?.denied ? [...stored.denied] : [],
+            allowAll: !!stored?.allowAll
+        };
+    }
+
+    /**
+     * 撤销对某个主机的决定（无论允许还是拒绝）
+     */
+    async revoke(scriptId: string, host: string): Promise<void> {
+        await this.updateDecisions(scriptId, d => {
+            d.allowed = d.allowed.filter(item => item !== host);
+            d.denied = d.denied.filter(item => item !== host);
+        });
+    }
+
+    /**
+     * 撤销“允许所有域名”
+     */
+    async revokeAllowAll(scriptId: string): Promise<void> {
+        await this.updateDecisions(scriptId, d => {
+            d.allowAll = false;
+        });
+    }
+
+    /**
+     * 清除脚本的所有决定，删除脚本时调用
+     */
+    async clear(scriptId: string): Promise<void> {
+        const store = this.getStore();
+        if (store[scriptId]) {
+            delete store[scriptId];
+            await this.save();
+        }
+    }
+
+    private askUser(request: ConnectPromptRequest): Promise<ConnectChoice | null> {
+        const key = `${request.script.id}:${request.host}`;
+        let pending = this.pendingPrompts.get(key);
+
+        if (!pending) {
+            pending = this.prompt(request).then(choice => {
+                this.pendingPrompts.delete(key);
+                return choice;
+            }, error => {
+                this.pendingPrompts.delete(key);
+                throw error;
+            });
+            this.pendingPrompts.set(key, pending);
+        }
+
+        return pending;
+    }
+
+    private async updateDecisions(scriptId: string, update: (decisions: ConnectDecisions) => void): Promise<void> {
+        const store = this.getStore();
+        const decisions = this.getDecisions(scriptId);
+        update(decisions);
+
+        if (decisions.allowed.length === 0 && decisions.denied.length === 0 && !decisions.allowAll) {
+            delete store[scriptId];
+        } else {
+            store[scriptId] = decisions;
+        }
+
+        await this.save();
+    }
+}
@@ -1,7 +1,11 @@
 import { UserScript, ScriptStorage, GM_API } from '../../models/script';
 import { MenuCommand } from './types';
-import { extractConnectDomains, isConnectAllowed, getScriptMetaStr, logPrefix } from './utils';
+import { isConnectAllowed, getScriptMetaStr, logPrefix } from './utils';
 import { MenuCommandManager } from './MenuCommandManager';
+import { createGrantScope, filterGrantedApi, getEffectiveGrants, isGrantNone } from './grants';
+import { ConnectChecker, getConnectRules } from '../connect-permissions';
+import { NotificationService, normalizeNotificationArgs } from '../notification-service';
+import { TabService, toGMTabHandle } from '../tab-service';
 
 // 在文件顶部添加全局接口声明 
 declare global {
@@ -22,10 +26,22 @@ declare global {
  */
 export class GMApiFactory {
     private menuCommandManager: MenuCommandManager;
+    private notificationService: NotificationService;
     
-    constructor(private scriptStorage: ScriptStorage) {
+    /**
+     * @param connectCheckerFactory 为脚本创建@connect检查函数，未提供时拒绝所有未声明的主机
+     * @param notificationService 通知服务，未提供时以 Obsidian Notice 显示
+     * @param tabService 标签页服务，未提供时使用系统浏览器打开链接
+     */
+    constructor(
+        private scriptStorage: ScriptStorage,
+        private connectCheckerFactory?: (script: UserScript, url: string) => ConnectChecker,
+        notificationService?: NotificationService,
+        private tabService?: TabService
+    ) {
         // 初始化菜单命令管理器
         this.menuCommandManager = new MenuCommandManager();
+        this.notificationService = notificationService || new NotificationService(() => 'notice', () => []);
     }
     
     /**
@@ -43,7 +59,8 @@ export class GMApiFactory {
                 excludes: script.excludes,
                 matches: script.matches,
                 resources: script.resources,
-                requires: script.requires
+                requires: script.requires,
+                grant: getEffectiveGrants(script)
             },
             version: '0.1.0', // 插件版本
             scriptHandler: 'Obsidian CheekyChimp',
@@ -51,26 +68,32 @@ export class GMApiFactory {
         };
         
         // 提取脚本中的@connect规则
-        const connectDomains = extractConnectDomains(script.source);
+        const connectDomains = getConnectRules(script);
         
         // 创建存储命名空间
         const scriptStorage = this.createStorageNamespace(script);
         
         // 创建XML HTTP请求处理函数
-        const xmlHttpRequest = this.createXmlHttpRequestFunction(script, connectDomains);
+        const xmlHttpRequest = this.createXmlHttpRequestFunction(script, url, connectDomains);
         
-        // 创建完整的GM API对象
-        return {
+        // 创建通知函数，通知关闭时兑现
+        const notify = this.createNotificationFunction(script);
+        
+        // 创建完整的GM API对象，再按@grant筛选
+        const api: GM_API = {
             // GM基本信息
             GM_info: info,
             
             // 存储API - 同步版本
             GM_getValue: (name: string, defaultValue?: any): any => {
-                return localStorage.getItem(`cheekychimp:${script.id}:${name}`) || defaultValue;
+                const value = localStorage.getItem(`cheekychimp:${script.id}:${name}`);
+                return value === null ? defaultValue : parseStoredValue(value);
             },
             GM_setValue: (name: string, value: any): void => {
-                localStorage.setItem(`cheekychimp:${script.id}:${name}`, value);
-                scriptStorage.setValue(name, value);
+                localStorage.setItem(`cheekychimp:${script.id}:${name}`, JSON.stringify(value));
+                scriptStorage.setValue(name, value).catch(error => {
+                    console.error(`${logPrefix('GMApiFactory')}: Saving value failed:`, error);
+                });
             },
             GM_deleteValue: (name: string): void => {
                 localStorage.removeItem(`cheekychimp:${script.id}:${name}`);
@@ -91,12 +114,10 @@ export class GMApiFactory {
             // 新版GM API - 异步版本
             GM: {
                 getValue: async (name: string, defaultValue?: any): Promise<any> => {
-                    const key = `cheekychimp:${script.id}:${name}`;
-                    const value = localStorage.getItem(key);
-                    return value !== null ? value : defaultValue;
+                    return scriptStorage.getValue(name, defaultValue);
                 },
                 setValue: async (name: string, value: any): Promise<void> => {
-                    localStorage.setItem(`cheekychimp:${script.id}:${name}`, value);
+                    localStorage.setItem(`cheekychimp:${script.id}:${name}`, JSON.stringify(value));
                     await scriptStorage.setValue(name, value);
                 },
                 deleteValue: async (name: string): Promise<void> => {
@@ -140,7 +161,10 @@ export class GMApiFactory {
                     }
                     document.body.appendChild(element);
                     return element;
-                }
+                },
+                
+                // 通知
+                notification: notify
             },
             
             // 资源API
@@ -179,21 +203,26 @@ export class GMApiFactory {
             GM_xmlhttpRequest: xmlHttpRequest,
             
             // 其他API
-            GM_openInTab: (url: string, options?: any): any => {
-                window.open(url, '_blank');
-                return null;
+            GM_openInTab: (tabUrl: string, options?: any): any => {
+                if (!this.tabService) {
+                    window.open(tabUrl, '_blank');
+                    return null;
+                }
+                return toGMTabHandle(this.tabService.open(new URL(tabUrl, url).href, options));
             },
             GM_setClipboard: (data: string, info?: any): void => {
                 navigator.clipboard.writeText(data)
                     .catch(err => console.error('Failed to copy text: ', err));
             },
-            GM_notification: (details: any, ondone?: Function): void => {
-                alert(typeof details === 'string' ? details : details.text);
+            GM_notification: (details: any, titleOrOndone?: any, image?: string, onclick?: () => void): void => {
+                notify(details, titleOrOndone, image, onclick);
             },
             
             // 访问window对象
             unsafeWindow: window as any
         };
+        
+        return filterGrantedApi(script, api) as GM_API;
     }
     
     /**
@@ -529,7 +558,7 @@ export class GMApiFactory {
     /**
      * 创建xmlHttpRequest函数
      */
-    private createXmlHttpRequestFunction(script: UserScript, connectDomains: string[]): (details: any) => any {
+    private createXmlHttpRequestFunction(script: UserScript, pageUrl: string, connectDomains: string[]): (details: any) => any {
         return (details: any): any => {
             console.log(`${logPrefix('GMApiFactory')}: Executing xmlhttpRequest ${details.url}`);
             try {
@@ -537,17 +566,10 @@ export class GMApiFactory {
                 const xhr = new XMLHttpRequest();
                 const controller = new AbortController();
                 
-                // 解析URL并检查是否允许连接
-                const url = new URL(details.url);
+                // 解析URL
+                const url = new URL(details.url, pageUrl);
                 const hostname = url.hostname;
                 
-                // 检查连接是否允许
-                let isAllowed: boolean = isConnectAllowed(hostname, connectDomains);
-                
-                if (!isAllowed) {
-                    console.warn(`${logPrefix('GMApiFactory')}: Request ${hostname} not in @connect list, may be blocked`);
-                }
-                
                 // 创建返回对象，提供abort方法
                 const returnObj = {
                     abort: () => {
@@ -555,12 +577,29 @@ export class GMApiFactory {
                     }
                 };
                 
+                // 检查连接是否允许：已声明的主机直接放行，其余交给用户确认
+                const checkConnect = (): Promise<boolean> => {
+                    if (isConnectAllowed(hostname, connectDomains, pageUrl)) {
+                        return Promise.resolve(true);
+                    }
+                    if (!this.connectCheckerFactory) {
+                        return Promise.resolve(false);
+                    }
+                    return this.connectCheckerFactory(script, pageUrl)(url.href);
+                };
+                
                 // 执行fetch请求
-                fetch(details.url, {
-                    method: details.method || 'GET',
-                    signal: controller.signal,
-                    credentials: details.withCredentials ? 'include' : 'same-origin'
-                })
+                checkConnect()
+                    .then(allowed => {
+                        if (!allowed) {
+                            throw new Error(`Refused to connect to "${hostname}": This domain is not a part of the @connect list`);
+                        }
+                        return fetch(url.href, {
+                            method: details.method || 'GET',
+                            signal: controller.signal,
+                            credentials: details.withCredentials ? 'include' : 'same-origin'
+                        });
+                    })
                     .then(async response => {
                         // 准备响应头
                         let responseHeaders = '';
@@ -616,6 +655,29 @@ export class GMApiFactory {
         };
     }
     
+    /**
+     * 创建通知函数，返回的 Promise 在通知关闭时兑现为 true，没有显示通知时兑现为 false
+     */
+    private createNotificationFunction(script: UserScript) {
+        return (details: any, titleOrOndone?: any, image?: string, onclick?: () => void): Promise<boolean> => {
+            return new Promise(resolve => {
+                const options = normalizeNotificationArgs(details, titleOrOndone, image, onclick);
+                const id = this.notificationService.show(script, options, {
+                    onclick: options.onclick,
+                    ondone: () => {
+                        if (options.ondone) {
+                            options.ondone();
+                        }
+                        resolve(true);
+                    }
+                });
+                if (id === null) {
+                    resolve(false);
+                }
+            });
+        };
+    }
+    
     /**
      * 创建getResourceText函数
      */
@@ -804,6 +866,11 @@ export class GMApiFactory {
      * 创建脚本包装器，包含完整的GM API和特殊处理
      */
     public createScriptWrapper(script: UserScript, gmApi: GM_API, scriptContent: string): string {
+        // @grant none 的脚本直接在页面上下文中运行，不做任何包装
+        if (isGrantNone(script)) {
+            return scriptContent;
+        }
+        
         // 检测是否为特殊脚本
         const isImmersiveTranslate = script.name.includes('Immersive Translate');
         const isNightMode = script.name.includes('夜间模式') || script.name.includes('Night Mode');
@@ -1327,12 +1394,23 @@ export class GMApiFactory {
                         setTimeout(() => clearInterval(checkInterval), 30000);
                     }
                     
-                    // 执行实际脚本
-                    ${scriptContent}
+                    // 执行实际脚本，只暴露已授权的API
+                    ${createGrantScope(script, scriptContent)}
                 } catch(e) {
                     console.error('CheekyChimp: Script execution error', e);
                 }
             })();
         `;
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * 解析localStorage中保存的值，旧版本直接保存的字符串原样返回
+ */
+function parseStoredValue(stored: string): any {
+    try {
+        return JSON.parse(stored);
+    } catch (error) {
+        return stored;
+    }
+}
@@ -124,6 +124,24 @@ export class MenuCommandManager {
         }
     }
     
+    /**
+     * 脚本ID变化时把保存的命令转移到新ID
+     */
+    public migrateScriptId(oldId: string, newId: string): void {
+        try {
+            const commands = this.commands.filter(cmd => cmd.scriptId === oldId);
+            for (const command of commands) {
+                localStorage.removeItem(this.getStorageKey(command));
+                this.removeFromGlobalObject(command);
+                command.scriptId = newId;
+                this.saveCommand(command);
+                this.addToGlobalObject(command);
+            }
+        } catch (error) {
+            console.error(`${logPrefix('MenuCommandManager')}: 迁移脚本 ID: ${oldId} 的命令失败:`, error);
+        }
+    }
+
     /**
      * 获取脚本的所有命令
      */
@@ -156,7 +156,8 @@ export class ScriptInjector {
             'document-start': 0,
             'document-body': 1,
             'document-end': 2,
-            'document-idle': 3
+            'document-idle': 3,
+            'context-menu': 4
         };
         
         // 过滤掉undefined值，设置默认的runAt
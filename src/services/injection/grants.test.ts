@@ -0,0 +1,82 @@
+import { ScriptParser } from '../script-parser';
+import { createGrantScope, getEffectiveGrants, GM_GLOBAL_APIS, GM_OBJECT_APIS, isApiGranted } from './grants';
+
+function createScript(grants: string[], body: string) {
+    return ScriptParser.parseScript([
+        '// ==UserScript==',
+        '// @name         Test Script',
+        '// @description  Uses GM_addStyle in its description only',
+        ...grants.map(grant => `// @grant        ${grant}`),
+        '// ==/UserScript==',
+        body
+    ].join('\n'));
+}
+
+describe('getEffectiveGrants', () => {
+    // [说明, @grant 声明, 脚本代码, 实际授权]
+    const cases: [string, string[], string, string[]][] = [
+        ['按声明授权', ['GM_getValue', 'GM.setValue'], 'GM_addStyle("")', ['GM_getValue', 'GM.setValue']],
+        ['只声明 none', ['none'], 'GM_getValue("a")', ['none']],
+        ['none 与其他授权一起声明时忽略 none', ['none', 'GM_addStyle'], '', ['GM_addStyle']],
+        ['未声明时按代码推断', [], 'GM_setValue("a", 1);\nGM.xmlHttpRequest({});', ['GM_setValue', 'GM.xmlHttpRequest']],
+        ['推断时不看元数据块', [], 'console.log(1);', ['none']],
+        ['推断时按完整的标识符匹配', [], 'my_GM_getValue2(); GM.getValueX();', ['none']]
+    ];
+
+    it.each(cases)('%s', (_name, grants, body, expected) => {
+        expect(getEffectiveGrants(createScript(grants, body))).toEqual(expected);
+    });
+});
+
+describe('isApiGranted', () => {
+    const cases: [string, string[], string, boolean][] = [
+        ['声明的API', ['GM_setValue'], 'GM_setValue', true],
+        ['未声明的API', ['GM_setValue'], 'GM_getValue', false],
+        ['GM_* 授权不包括 GM.*', ['GM_setValue'], 'GM.setValue', false],
+        ['GM_info 始终可用', ['none'], 'GM_info', true],
+        ['GM.info 始终可用', ['GM_setValue'], 'GM.info', true],
+        ['@grant none 没有任何API', ['none'], 'unsafeWindow', false]
+    ];
+
+    it.each(cases)('%s', (_name, grants, api, expected) => {
+        expect(isApiGranted(createScript(grants, ''), api)).toBe(expected);
+    });
+});
+
+describe('createGrantScope', () => {
+    /**
+     * 在定义了全部GM API的包装器中运行授权作用域，返回脚本中表达式的值
+     */
+    function evaluateInScope(grants: string[], expression: string): any {
+        const declarations = GM_GLOBAL_APIS
+            .map(api => `const ${api} = ${JSON.stringify(api)};`)
+            .join('\n');
+        const gm = GM_OBJECT_APIS
+            .map(api => `${api}: ${JSON.stringify(`GM.${api}`)}`)
+            .join(', ');
+        const scope = createGrantScope(createScript(grants, ''), `result = ${expression};`);
+        return new Function(`${declarations}
+const GM_info = { script: {} };
+const GM = { info: GM_info, ${gm} };
+let result;
+${scope}
+return result;`)();
+    }
+
+    // [说明, @grant 声明, 脚本中的表达式, 值]
+    const cases: [string, string[], string, any][] = [
+        ['已授权的API可见', ['GM_setValue'], 'typeof GM_setValue', 'string'],
+        ['未授权的API被遮蔽', ['GM_setValue'], 'typeof GM_getValue', 'undefined'],
+        ['unsafeWindow 同样需要授权', ['GM_setValue'], 'typeof unsafeWindow', 'undefined'],
+        ['声明 unsafeWindow 后可见', ['unsafeWindow'], 'unsafeWindow', 'unsafeWindow'],
+        ['GM_info 始终可见', ['GM_setValue'], 'typeof GM_info', 'object'],
+        ['GM 对象只包含已授权的成员', ['GM.getValue', 'GM_setValue'], 'Object.keys(GM).join()', 'info,getValue'],
+        ['GM.info 是 GM_info', ['GM.getValue'], 'GM.info === GM_info', true],
+        ['没有 GM.* 授权时 GM 不可见', ['GM_getValue'], 'typeof GM', 'undefined'],
+        ['@grant none 时全部被遮蔽', ['none'], 'typeof GM_getValue + typeof GM', 'undefinedundefined']
+    ];
+
+    it.each(cases)('%s', (_name, grants, expression, expected) => {
+        expect(evaluateInScope(grants, expression)).toBe(expected);
+    });
+});
@@ -0,0 +1,203 @@
+import { UserScript } from '../../models/script';
+
+/**
+ * @grant none 表示脚本直接运行在页面上下文中，不使用任何GM API
+ */
+export const GRANT_NONE = 'none';
+
+/**
+ * 页面中以全局标识符形式提供的API（GM_* 和 unsafeWindow）
+ */
+export const GM_GLOBAL_APIS = [
+    'unsafeWindow',
+    'GM_getValue',
+    'GM_setValue',
+    'GM_deleteValue',
+    'GM_listValues',
+    'GM_getValues',
+    'GM_setValues',
+    'GM_deleteValues',
+    'GM_addValueChangeListener',
+    'GM_removeValueChangeListener',
+    'GM_getResourceText',
+    'GM_getResourceURL',
+    'GM_addStyle',
+    'GM_addElement',
+    'GM_registerMenuCommand',
+    'GM_unregisterMenuCommand',
+    'GM_xmlhttpRequest',
+    'GM_openInTab',
+    'GM_setClipboard',
+    'GM_notification'
+];
+
+/**
+ * GM.* 形式的异步API
+ */
+export const GM_OBJECT_APIS = [
+    'getValue',
+    'setValue',
+    'deleteValue',
+    'listValues',
+    'getValues',
+    'setValues',
+    'deleteValues',
+    'addValueChangeListener',
+    'removeValueChangeListener',
+    'getResourceText',
+    'getResourceUrl',
+    'addStyle',
+    'addElement',
+    'registerMenuCommand',
+    'unregisterMenuCommand',
+    'xmlHttpRequest',
+    'openInTab',
+    'setClipboard',
+    'notification'
+];
+
+/**
+ * 获取脚本实际拥有的授权
+ *
+ * - 声明了 @grant 时以声明为准，只有 `none` 时返回 ['none']
+ * - 未声明 @grant 时与 Tampermonkey 一致，根据源码中用到的API推断授权，
+ *   一个都没有用到时视为 @grant none
+ */
+export function getEffectiveGrants(script: UserScript): string[] {
+    const declared = (script.grants || []).filter(grant => grant !== GRANT_NONE);
+    if (declared.length > 0) {
+        return declared;
+    }
+
+    if (script.grants && script.grants.length > 0) {
+        return [GRANT_NONE];
+    }
+
+    const detected = detectUsedApis(script.source || '');
+    return detected.length > 0 ? detected : [GRANT_NONE];
+}
+
+/**
+ * 脚本是否以 @grant none 模式运行
+ */
+export function isGrantNone(script: UserScript): boolean {
+    const grants = getEffectiveGrants(script);
+    return grants.length === 1 && grants[0] === GRANT_NONE;
+}
+
+/**
+ * 检查脚本是否被授权使用某个API，GM_info 始终可用
+ * @param api API名称，例如 GM_setValue、GM.setValue 或 unsafeWindow
+ */
+export function isApiGranted(script: UserScript, api: string): boolean {
+    if (api === 'GM_info' || api === 'GM.info') {
+        return true;
+    }
+    return getEffectiveGrants(script).includes(api);
+}
+
+/**
+ * 检查脚本是否被授权使用其中任意一个API，插件侧处理消息桥请求时用来核对同一功能的 GM_* 和 GM.* 形式
+ */
+export function isAnyApiGranted(script: UserScript, apis: string[]): boolean {
+    return apis.some(api => isApiGranted(script, api));
+}
+
+/**
+ * 脚本获得授权的全局API（GM_* 和 unsafeWindow）
+ */
+export function getGrantedGlobalApis(script: UserScript): string[] {
+    return GM_GLOBAL_APIS.filter(api => isApiGranted(script, api));
+}
+
+/**
+ * 从完整的GM API对象中筛选出脚本被授权的部分
+ */
+export function filterGrantedApi<T extends { [key: string]: any }>(script: UserScript, api: T): Partial<T> {
+    const filtered: { [key: string]: any } = {};
+
+    Object.keys(api).forEach(key => {
+        if (key === 'GM') {
+            const gm = filterGrantedGmObject(script, api.GM);
+            if (gm) {
+                filtered.GM = gm;
+            }
+        } else if (isApiGranted(script, key)) {
+            filtered[key] = api[key];
+        }
+    });
+
+    return filtered as Partial<T>;
+}
+
+/**
+ * 筛选 GM 对象中被授权的成员，没有任何授权成员时返回 undefined
+ */
+function filterGrantedGmObject(script: UserScript, gm: { [key: string]: any } | undefined): { [key: string]: any } | undefined {
+    if (!gm) {
+        return undefined;
+    }
+
+    const filtered: { [key: string]: any } = {};
+    let hasGrantedMember = false;
+
+    Object.keys(gm).forEach(key => {
+        if (key === 'info') {
+            filtered.info = gm.info;
+        } else if (isApiGranted(script, `GM.${key}`)) {
+            filtered[key] = gm[key];
+            hasGrantedMember = true;
+        }
+    });
+
+    return hasGrantedMember ? filtered : undefined;
+}
+
+/**
+ * 为字符串形式的脚本包装器生成授权作用域
+ *
+ * 包装器中已经定义了全部GM API，这里把用户脚本放进一个函数中，
+ * 用同名参数遮蔽未授权的API，并传入只包含已授权成员的 GM 对象。
+ * 调用处需保证 GM_info 已定义，如果定义了 GM 对象也会被筛选。
+ */
+export function createGrantScope(script: UserScript, scriptContent: string): string {
+    const granted = getGrantedGlobalApis(script);
+    const hidden = GM_GLOBAL_APIS.filter(api => granted.indexOf(api) === -1);
+    const grantedGmMembers = GM_OBJECT_APIS.filter(api => isApiGranted(script, `GM.${api}`));
+
+    const gmExpression = grantedGmMembers.length > 0
+        ? `(typeof GM !== 'undefined' ? { info: GM_info, ${grantedGmMembers
+            .map(name => `${name}: GM.${name}`)
+            .join(', ')} } : undefined)`
+        : 'undefined';
+
+    const params = [...hidden, 'GM'];
+    const args = [...hidden.map(() => 'undefined'), gmExpression];
+
+    return `(function(${params.join(', ')}) {
+${scriptContent}
+}).call(this, ${args.join(', ')});`;
+}
+
+/**
+ * 从源码中推断脚本使用到的API（用于未声明 @grant 的脚本）
+ */
+function detectUsedApis(source: string): string[] {
+    const headerEnd = source.indexOf('==/UserScript==');
+    const body = headerEnd === -1 ? source : source.substring(headerEnd);
+    const used = new Set<string>();
+
+    GM_GLOBAL_APIS.forEach(api => {
+        if (new RegExp(`\\b${api}\\b`).test(body)) {
+            used.add(api);
+        }
+    });
+
+    GM_OBJECT_APIS.forEach(api => {
+        if (new RegExp(`\\bGM\\.${api}\\b`).test(body)) {
+            used.add(`GM.${api}`);
+        }
+    });
+
+    return Array.from(used);
+}
@@ -19,6 +19,15 @@ export {
     getScriptRunAtTiming
 } from './utils';
 
+// 导出@grant授权相关工具
+export {
+    getEffectiveGrants,
+    isGrantNone,
+    isApiGranted,
+    filterGrantedApi,
+    createGrantScope
+} from './grants';
+
 // 导出类型
 export type {
     MenuCommand,
@@ -0,0 +1,133 @@
+/**
+ * 运行用户脚本的沙箱作用域
+ *
+ * 沙箱只把脚本的全局标识符与页面分开，不是隔离环境，也不是安全边界：脚本和页面运行在
+ * 同一个 JS 环境（主 world）中，共用 Object、Array、Function 等内置对象及其原型，
+ * 先于脚本运行的页面代码可以篡改它们。
+ * Electron 的 executeJavaScriptInIsolatedWorld 可以提供独立的环境，但脚本与页面之间的
+ * unsafeWindow 以及消息桥的回复都需要跨环境传递，目前没有采用。
+ *
+ * 全局标识符的查找和赋值都经过一个代理：
+ * - 脚本创建的全局变量保存在沙箱中，不会泄漏到页面，也不会覆盖页面的同名变量
+ * - window、self、globalThis 指向沙箱，读取沙箱中没有的属性时取页面的值
+ * - unsafeWindow 是页面真正的 window，需要与页面交互时显式使用
+ * - 已授权的 GM API 和消息桥客户端只存在于包装器的闭包和沙箱中，不挂载到页面的 window 上
+ *
+ * 生成的代码只使用 with 语句和 Proxy，不依赖 eval，在限制 unsafe-eval 的页面上也能运行。
+ */
+
+import { InjectInto, UserScript } from '../../models/script';
+import { isGrantNone } from './grants';
+
+/**
+ * 写入时仍然作用于页面的属性：导航和 window.onxxx 事件处理函数只有设置在页面上才有效
+ */
+const PAGE_PROPERTIES = ['location'];
+
+/**
+ * 脚本使用的注入模式（@inject-into）
+ *
+ * 用户在脚本列表中的选择优先，其次是脚本声明的 @inject-into。都没有时，
+ * 开启了「在沙箱作用域中运行脚本」的设置则使用 GM API 的脚本按 content 注入，其余按 auto 注入。
+ */
+export function getInjectionMode(script: UserScript, sandboxByDefault: boolean): InjectInto {
+    const mode = script.injectIntoOverride || script.injectInto;
+    if (mode) {
+        return mode;
+    }
+    return sandboxByDefault && !isGrantNone(script) ? 'content' : 'auto';
+}
+
+/**
+ * 把脚本代码包进沙箱
+ * @param scriptContent 脚本代码，需要是非严格模式代码中的语句（with 语句不能出现在严格模式中）
+ * @param globals 包装器作用域中需要在沙箱里可见的标识符，例如 GM API 和 GM_info；
+ *   不在这里列出的包装器变量对脚本不可见
+ */
+export function createSandboxScope(scriptContent: string, globals: string[]): string {
+    const bindings = globals
+        .map(name => `${JSON.stringify(name)}: typeof ${name} !== 'undefined' ? ${name} : undefined`)
+        .join(',\n      ');
+
+    return `(function(sandboxGlobals) {
+  const pageWindow = window;
+  const pageProperties = ${JSON.stringify(PAGE_PROPERTIES)};
+  const functionToString = Function.prototype.toString;
+  const boundFunctions = new WeakMap();
+
+  // 页面的原生函数（setTimeout、fetch、addEventListener 等）需要以页面的 window 为 this 调用，
+  // 构造函数和页面自己定义的函数原样返回，以保留静态成员和 instanceof
+  const isNativeFunction = function(fn) {
+    try {
+      return /\\{\\s*\\[native code\\]\\s*\\}\\s*$/.test(functionToString.call(fn));
+    } catch (e) {
+      return false;
+    }
+  };
+  const isConstructor = function(fn) {
+    return /^[A-Z]/.test(fn.name) || (!!fn.prototype && Object.getOwnPropertyNames(fn.prototype).length > 1);
+  };
+  const toSandboxValue = function(key, value) {
+    if (typeof value !== 'function' || key === 'eval' || !isNativeFunction(value) || isConstructor(value)) {
+      return value;
+    }
+    let bound = boundFunctions.get(value);
+    if (!bound) {
+      bound = value.bind(pageWindow);
+      boundFunctions.set(value, bound);
+    }
+    return bound;
+  };
+  const isPageProperty = function(key) {
+    return typeof key === 'string'
+      && (pageProperties.indexOf(key) !== -1 || (key.indexOf('on') === 0 && key in pageWindow));
+  };
+
+  let sandboxWindow;
+  const get = function(target, key) {
+    if (key === Symbol.unscopables) return undefined;
+    if (key === 'window' || key === 'self' || key === 'globalThis' || key === 'frames') return sandboxWindow;
+    if (key in sandboxGlobals) return sandboxGlobals[key];
+    const value = pageWindow[key];
+    // 不在框架中时 top 和 parent 就是页面本身，保持 window.top === window.self 成立
+    if ((key === 'top' || key === 'parent') && value === pageWindow) return sandboxWindow;
+    return toSandboxValue(key, value);
+  };
+  const set = function(target, key, value) {
+    if (isPageProperty(key)) {
+      pageWindow[key] = value;
+    } else {
+      sandboxGlobals[key] = value;
+    }
+    return true;
+  };
+
+  // 脚本中的 window
+  sandboxWindow = new Proxy(sandboxGlobals, {
+    get: get,
+    set: set,
+    has: function(target, key) {
+      return key in sandboxGlobals || key in pageWindow;
+    }
+  });
+
+  // with 语句使用的作用域：所有标识符都由沙箱解析，未声明变量的赋值不会落到页面上
+  const sandboxScope = new Proxy(sandboxGlobals, {
+    get: get,
+    set: set,
+    has: function() {
+      return true;
+    }
+  });
+
+  (function() {
+    with (sandboxScope) {
+${scriptContent}
+    }
+  }).call(sandboxWindow);
+})({
+      // 没有原型，toString、constructor 等名称不会被当成沙箱中的变量而遮蔽页面的值
+      __proto__: null,
+      ${bindings}
+    });`;
+}
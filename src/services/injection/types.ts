@@ -1,9 +1,9 @@
 import { UserScript, ScriptStorage, GM_API } from '../../models/script';
 
 /**
- * 脚本运行阶段类型
+ * 脚本运行阶段类型，context-menu 的脚本不自动运行，只在从菜单中选择时运行
  */
-export type RunAtTiming = 'document-start' | 'document-body' | 'document-end' | 'document-idle';
+export type RunAtTiming = 'document-start' | 'document-body' | 'document-end' | 'document-idle' | 'context-menu';
 
 /**
  * 注入结果接口
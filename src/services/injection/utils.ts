@@ -1,5 +1,9 @@
 import { UserScript } from '../../models/script';
 import { RunAtTiming } from './types';
+import { getEffectiveGrants } from './grants';
+import { createSandboxScope } from './sandbox';
+import { getConnectRules, isHostDeclared } from '../connect-permissions';
+import { includePatternToRegExp, matchesIncludePattern, matchPatternToRegExp, scriptMatchesUrl } from '../url-matcher';
 
 /**
  * 创建日志前缀，用于在日志中标识不同的组件
@@ -14,7 +18,7 @@ export function logPrefix(name: string): string {
 export function extractConnectDomains(scriptSource: string): string[] {
     const connectDomains = new Set<string>();
     
-    // 基本规则：从元数据注释中提取@connect域名
+    // 从元数据注释中提取@connect声明，'*' 也会原样保留
     const connectRegex = /\/\/\s*@connect\s+([^\s]+)/g;
     let match;
     
@@ -22,45 +26,16 @@ export function extractConnectDomains(scriptSource: string): string[] {
         connectDomains.add(match[1]);
     }
     
-    // 添加允许所有域名的标志 '*'
-    if (scriptSource.includes('// @connect *')) {
-        connectDomains.add('*');
-    }
-    
     return Array.from(connectDomains);
 }
 
 /**
- * 检查URL主机名是否允许连接
+ * 检查URL主机名是否在@connect声明中
+ * self、localhost、IP网段和子域名的语义见 matchConnectRule；
+ * 声明了 '*' 并不代表直接放行，未声明的主机需要由用户确认
  */
-export function isConnectAllowed(hostname: string, connectDomains: string[]): boolean {
-    // 如果连接域允许所有域名，直接返回true
-    if (connectDomains.includes('*') || connectDomains.includes('localhost')) {
-        return true;
-    }
-    
-    // 检查主机名是否直接匹配
-    if (connectDomains.includes(hostname)) {
-        return true;
-    }
-    
-    // 检查主机名是否为子域名
-    for (const domain of connectDomains) {
-        // 跳过IP地址匹配
-        if (/^\d+\.\d+\.\d+\.\d+$/.test(domain)) {
-            if (domain === hostname) {
-                return true;
-            }
-            continue;
-        }
-        
-        // 子域名匹配
-        if (hostname.endsWith('.' + domain)) {
-            return true;
-        }
-    }
-    
-    return false;
+export function isConnectAllowed(hostname: string, connectDomains: string[], pageUrl?: string): boolean {
+    return isHostDeclared(hostname, connectDomains, pageUrl);
 }
 
 /**
@@ -89,6 +64,14 @@ export function getScriptMetaStr(script: UserScript): string {
         metaParts.push(`// @author ${script.author}`);
     }
     
+    if (script.homepage) {
+        metaParts.push(`// @homepage ${script.homepage}`);
+    }
+    
+    if (script.icon) {
+        metaParts.push(`// @icon ${script.icon}`);
+    }
+    
     // 匹配规则
     script.includes.forEach(include => {
         metaParts.push(`// @include ${include}`);
@@ -102,6 +85,10 @@ export function getScriptMetaStr(script: UserScript): string {
         metaParts.push(`// @exclude ${exclude}`);
     });
     
+    (script.excludeMatches || []).forEach(excludeMatch => {
+        metaParts.push(`// @exclude-match ${excludeMatch}`);
+    });
+    
     // 资源和需求
     script.requires.forEach(require => {
         metaParts.push(`// @require ${require}`);
@@ -117,26 +104,15 @@ export function getScriptMetaStr(script: UserScript): string {
     }
     
     // Connect规则
-    const connectDomains = extractConnectDomains(script.source);
+    const connectDomains = getConnectRules(script);
     connectDomains.forEach(domain => {
         metaParts.push(`// @connect ${domain}`);
     });
     
     // 授权
-    metaParts.push(`// @grant unsafeWindow`);
-    metaParts.push(`// @grant GM_getValue`);
-    metaParts.push(`// @grant GM_setValue`);
-    metaParts.push(`// @grant GM_deleteValue`);
-    metaParts.push(`// @grant GM_listValues`);
-    metaParts.push(`// @grant GM_getResourceText`);
-    metaParts.push(`// @grant GM_getResourceURL`);
-    metaParts.push(`// @grant GM_addStyle`);
-    metaParts.push(`// @grant GM_registerMenuCommand`);
-    metaParts.push(`// @grant GM_unregisterMenuCommand`);
-    metaParts.push(`// @grant GM_xmlhttpRequest`);
-    metaParts.push(`// @grant GM_openInTab`);
-    metaParts.push(`// @grant GM_setClipboard`);
-    metaParts.push(`// @grant GM_notification`);
+    getEffectiveGrants(script).forEach(grant => {
+        metaParts.push(`// @grant ${grant}`);
+    });
     
     metaParts.push(`// ==/UserScript==`);
     
@@ -147,130 +123,34 @@ export function getScriptMetaStr(script: UserScript): string {
  * 检查页面是否匹配脚本
  */
 export function checkScriptMatch(script: UserScript, url: string): boolean {
-    if (!script.matches || script.matches.length === 0) {
-        return false;
-    }
-    
     if (!script.enabled) {
         return false;
     }
     
-    return script.matches.some(pattern => {
-        return matchPattern(pattern, url);
-    });
+    return scriptMatchesUrl(script, url);
 }
 
 /**
  * 将Tampermonkey/Greasemonkey样式的URL模式转换为正则表达式
+ * 包含 :// 的规则按 @match 处理，其余按 @include/@exclude 处理
  */
 export function patternToRegex(pattern: string): RegExp {
-    // 特殊情况：通配符 *
-    if (pattern === '*') {
-        return /.*/;
-    }
-    
-    // 处理 @match 规则
-    if (pattern.includes('://')) {
-        return matchPatternToRegex(pattern);
-    }
-    
-    // 处理简单的 @include/@exclude 规则（只包含通配符 * 和 ? 的URL）
-    let regexStr = pattern
-        .replace(/[.+?^${}()|[\]\\]/g, '\\$&') // 转义特殊字符
-        .replace(/\*/g, '.*')                  // * -> .*
-        .replace(/\?/g, '.');                  // ? -> .
-    
-    return new RegExp(`^${regexStr}$`);
-}
-
-/**
- * 将 @match 模式转换为正则表达式
- * 处理 scheme://host/path 格式的规则
- */
-function matchPatternToRegex(pattern: string): RegExp {
-    // 处理特殊的"全部"匹配
-    if (pattern === '*://*/*') {
-        return /^(http|https):\/\/.*/;
-    }
+    const regex = pattern.includes('://') && !pattern.startsWith('/')
+        ? matchPatternToRegExp(pattern)
+        : includePatternToRegExp(pattern);
     
-    // 解析匹配模式
-    const match = /^((\*|http|https|file|ftp):\/\/)((\*|(?:\*\.)?[^/*]+)?)\/(.*)$/.exec(pattern);
-    if (!match) {
+    if (!regex) {
         throw new Error(`无效的匹配模式: ${pattern}`);
     }
     
-    const [, , scheme, , host, path] = match;
-    
-    // 构建正则表达式组件
-    let regexStr = '^';
-    
-    // 协议
-    if (scheme === '*') {
-        regexStr += '(http|https)';
-    } else {
-        regexStr += scheme;
-    }
-    regexStr += '://';
-    
-    // 主机
-    if (host === '*') {
-        regexStr += '[^/]*';
-    } else if (host.startsWith('*.')) {
-        // 子域名 (*.example.com)
-        const domainPart = host.substring(2);
-        regexStr += '([^/]*\\.)?' + escapeRegExp(domainPart);
-    } else {
-        regexStr += escapeRegExp(host);
-    }
-    
-    // 路径
-    if (path === '*') {
-        regexStr += '(/.*)?';
-    } else if (path === '') {
-        regexStr += '/?';
-    } else {
-        regexStr += '/' + path.split('*').map(escapeRegExp).join('.*');
-    }
-    
-    regexStr += '$';
-    return new RegExp(regexStr);
-}
-
-/**
- * 对正则表达式特殊字符进行转义
- */
-function escapeRegExp(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return regex;
 }
 
 /**
- * 检查URL是否匹配指定的模式
+ * 检查URL是否匹配指定的 @include/@exclude 模式
  */
 export function matchPattern(pattern: string, url: string): boolean {
-    // 如果是正则表达式模式 (以/开头和结尾)
-    if (pattern.startsWith('/') && pattern.endsWith('/')) {
-        try {
-            const regex = new RegExp(pattern.slice(1, -1));
-            return regex.test(url);
-        } catch (e) {
-            console.error(`无效的正则表达式: ${pattern}`, e);
-            return false;
-        }
-    }
-    
-    // Tampermonkey/Greasemonkey 风格的通配符匹配
-    try {
-        const escapedPattern = pattern
-            .replace(/[-[\]{}()*+?.,\\^$|#\s]/g, '\\$&') // 转义特殊字符
-            .replace(/\\\*/g, '.*') // * 转为 .*
-            .replace(/\\\?/g, '.'); // ? 转为 .
-
-        const regex = new RegExp(`^${escapedPattern}$`);
-        return regex.test(url);
-    } catch (e) {
-        console.error(`无效的匹配模式: ${pattern}`, e);
-        return false;
-    }
+    return matchesIncludePattern(pattern, url);
 }
 
 /**
@@ -290,14 +170,17 @@ export function generateRandomId(length: number = 12): string {
 
 /**
  * 创建沙盒隔离
+ *
+ * 传入的全局变量（例如 GM API 和 unsafeWindow）在代码中可见，代码创建的全局变量保存在沙箱中，
+ * window 指向沙箱，详见 createSandboxScope
  */
 export function createSandbox(code: string, sandboxGlobals: Record<string, any>): Function {
     const globalKeys = Object.keys(sandboxGlobals);
     const globalValues = Object.values(sandboxGlobals);
     
-    // 创建一个函数，将全局变量作为参数传入，然后执行代码
+    // 创建一个函数，将全局变量作为参数传入，然后在沙箱中执行代码
     try {
-        const sandboxFn = new Function(...globalKeys, code);
+        const sandboxFn = new Function(...globalKeys, createSandboxScope(code, globalKeys));
         return () => sandboxFn.apply(null, globalValues);
     } catch (error) {
         console.error(`${logPrefix('Utils')}: 创建沙盒失败:`, error);
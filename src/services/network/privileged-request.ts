@@ -0,0 +1,385 @@
+import { Platform, requestUrl } from 'obsidian';
+import type { ClientRequest, IncomingMessage } from 'http';
+import { utf8ToBase64 } from '../utils/base64';
+
+/**
+ * 插件侧发送的请求
+ */
+export interface PrivilegedRequestOptions {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    /** 请求体，字符串按 UTF-8 发送 */
+    body?: string | ArrayBuffer;
+    /** 超时（毫秒），0 表示不限制 */
+    timeout?: number;
+    /** HTTP认证用户名 */
+    user?: string;
+    /** HTTP认证密码 */
+    password?: string;
+    /** 不发送 Cookie，脚本设置的 Cookie 请求头也会被去掉 */
+    anonymous?: boolean;
+    /**
+     * 检查是否可以跟随重定向到目标地址（通常是@connect检查），返回 false 时请求以错误结束；
+     * 未提供时不跟随任何重定向。只在桌面端生效，移动端的 requestUrl 无法检查重定向
+     */
+    allowRedirect?: (url: string) => boolean | Promise<boolean>;
+}
+
+/**
+ * 收到响应头后可用的信息
+ */
+export interface PrivilegedResponseHead {
+    finalUrl: string;
+    status: number;
+    statusText: string;
+    /** 与 XMLHttpRequest.getAllResponseHeaders() 格式一致 */
+    responseHeaders: string;
+}
+
+/**
+ * 请求过程中的回调，onLoad/onError/onTimeout 中只会调用一个
+ */
+export interface PrivilegedRequestHandlers {
+    onHeaders?: (head: PrivilegedResponseHead) => void;
+    onProgress?: (loaded: number, total: number, lengthComputable: boolean) => void;
+    onLoad: (head: PrivilegedResponseHead, body: ArrayBuffer) => void;
+    onError: (message: string) => void;
+    onTimeout?: () => void;
+}
+
+/**
+ * 请求控制对象
+ */
+export interface PrivilegedRequestControl {
+    abort(): void;
+}
+
+const MAX_REDIRECTS = 20;
+
+/**
+ * 响应体（解压后）的大小上限，超过时请求以错误结束
+ */
+export const MAX_RESPONSE_SIZE = 50 * 1024 * 1024;
+
+const RESPONSE_TOO_LARGE = `响应超过 ${MAX_RESPONSE_SIZE / 1024 / 1024} MB 的大小限制`;
+
+/**
+ * 重定向到其他源时不再发送的凭据请求头
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+/**
+ * 从插件侧发送请求，不受页面的跨域限制
+ *
+ * 桌面端使用 Node 的 http/https，支持进度、超时、中止以及 Cookie、Referer、User-Agent 等
+ * 浏览器禁止页面设置的请求头；移动端没有 Node 环境，退回到 Obsidian 的 requestUrl。
+ *
+ * 桌面端每次重定向前都会用 allowRedirect 检查目标地址，重定向到其他源时不再发送 Cookie、
+ * Authorization 等凭据请求头。requestUrl 在内部跟随重定向，既不能逐次检查也无法得知最终地址，
+ * 移动端被允许的主机可以把请求重定向到任意地址，连接确认对话框会向用户说明这一点。
+ *
+ * 两种方式的响应体都不能超过 MAX_RESPONSE_SIZE。
+ */
+export function sendPrivilegedRequest(
+    options: PrivilegedRequestOptions,
+    handlers: PrivilegedRequestHandlers
+): PrivilegedRequestControl {
+    const headers = options.anonymous
+        ? withoutHeaders(options.headers || {}, ['cookie'])
+        : { ...(options.headers || {}) };
+    if (options.user !== undefined && !hasHeader(headers, 'authorization')) {
+        headers['Authorization'] = `Basic ${utf8ToBase64(`${options.user}:${options.password || ''}`)}`;
+    }
+
+    if (Platform.isDesktopApp) {
+        return sendWithNode({ ...options, headers }, handlers);
+    }
+    return sendWithRequestUrl({ ...options, headers }, handlers);
+}
+
+/**
+ * 使用 Node 的 http/https 发送请求，手动处理重定向和压缩
+ */
+function sendWithNode(options: PrivilegedRequestOptions, handlers: PrivilegedRequestHandlers): PrivilegedRequestControl {
+    const http = require('http') as typeof import('http');
+    const https = require('https') as typeof import('https');
+    const zlib = require('zlib') as typeof import('zlib');
+
+    let current: ClientRequest | null = null;
+    let finished = false;
+    let timer: number | null = null;
+
+    const finish = () => {
+        finished = true;
+        if (timer !== null) {
+            window.clearTimeout(timer);
+            timer = null;
+        }
+    };
+
+    const fail = (message: string) => {
+        if (finished) return;
+        finish();
+        handlers.onError(message);
+    };
+
+    if (options.timeout && options.timeout > 0) {
+        timer = window.setTimeout(() => {
+            if (finished) return;
+            finish();
+            current?.destroy();
+            if (handlers.onTimeout) {
+                handlers.onTimeout();
+            } else {
+                handlers.onError('timeout');
+            }
+        }, options.timeout);
+    }
+
+    const body = typeof options.body === 'string'
+        ? Buffer.from(options.body, 'utf8')
+        : options.body ? Buffer.from(options.body) : null;
+
+    const send = (url: string, method: string, payload: Buffer | null, redirects: number, requestHeaders: Record<string, string>) => {
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch (error) {
+            fail(`无效的请求地址: ${url}`);
+            return;
+        }
+
+        const transport = target.protocol === 'https:' ? https : target.protocol === 'http:' ? http : null;
+        if (!transport) {
+            fail(`不支持的协议: ${target.protocol}`);
+            return;
+        }
+
+        const headers: Record<string, string> = { ...requestHeaders };
+        if (!hasHeader(headers, 'accept-encoding')) {
+            headers['Accept-Encoding'] = 'gzip, deflate, br';
+        }
+        if (payload && !hasHeader(headers, 'content-length')) {
+            headers['Content-Length'] = String(payload.length);
+        }
+
+        const request = transport.request(target, { method, headers }, (response: IncomingMessage) => {
+            const status = response.statusCode || 0;
+            const location = response.headers.location;
+
+            // 跟随重定向，303 以及 301/302 的 POST 改为 GET
+            if (location && [301, 302, 303, 307, 308].includes(status)) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    fail('重定向次数过多');
+                    return;
+                }
+                let next: URL;
+                try {
+                    next = new URL(location, target);
+                } catch (error) {
+                    fail(`无效的重定向地址: ${location}`);
+                    return;
+                }
+                const changeToGet = status === 303 || ((status === 301 || status === 302) && method === 'POST');
+                const nextHeaders = next.origin === target.origin
+                    ? requestHeaders
+                    : withoutHeaders(requestHeaders, CREDENTIAL_HEADERS);
+
+                Promise.resolve(options.allowRedirect ? options.allowRedirect(next.href) : false)
+                    .then(allowed => {
+                        if (finished) return;
+                        if (!allowed) {
+                            fail(`不允许重定向到 ${next.href}`);
+                            return;
+                        }
+                        send(
+                            next.href,
+                            changeToGet ? 'GET' : method,
+                            changeToGet ? null : payload,
+                            redirects + 1,
+                            nextHeaders
+                        );
+                    }, error => fail(error instanceof Error ? error.message : String(error)));
+                return;
+            }
+
+            const head: PrivilegedResponseHead = {
+                finalUrl: target.href,
+                status,
+                statusText: response.statusMessage || '',
+                responseHeaders: formatHeaders(response.rawHeaders)
+            };
+            handlers.onHeaders?.(head);
+
+            const total = parseInt(String(response.headers['content-length'] || ''), 10);
+            const lengthComputable = !isNaN(total);
+            if (lengthComputable && total > MAX_RESPONSE_SIZE) {
+                fail(RESPONSE_TOO_LARGE);
+                request.destroy();
+                return;
+            }
+            let loaded = 0;
+            response.on('data', (chunk: Buffer) => {
+                loaded += chunk.length;
+                if (!finished) {
+                    handlers.onProgress?.(loaded, lengthComputable ? total : 0, lengthComputable);
+                }
+            });
+
+            const encoding = String(response.headers['content-encoding'] || '').toLowerCase();
+            const stream = encoding === 'gzip' || encoding === 'x-gzip' ? response.pipe(zlib.createGunzip())
+                : encoding === 'deflate' ? response.pipe(zlib.createInflate())
+                : encoding === 'br' ? response.pipe(zlib.createBrotliDecompress())
+                : response;
+
+            // Content-Length 可能缺失，解压后也可能远大于传输的大小，按实际收到的内容计算
+            const chunks: Buffer[] = [];
+            let size = 0;
+            stream.on('data', (chunk: Buffer) => {
+                if (finished) return;
+                size += chunk.length;
+                if (size > MAX_RESPONSE_SIZE) {
+                    fail(RESPONSE_TOO_LARGE);
+                    request.destroy();
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            stream.on('error', (error: Error) => fail(error.message));
+            stream.on('end', () => {
+                if (finished) return;
+                finish();
+                const buffer = Buffer.concat(chunks);
+                handlers.onLoad(head, buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+            });
+        });
+
+        request.on('error', (error: Error) => fail(error.message));
+        current = request;
+
+        if (payload) {
+            request.write(payload);
+        }
+        request.end();
+    };
+
+    send(options.url, (options.method || 'GET').toUpperCase(), body, 0, options.headers || {});
+
+    return {
+        abort: () => {
+            if (finished) return;
+            finish();
+            current?.destroy();
+        }
+    };
+}
+
+/**
+ * 使用 Obsidian 的 requestUrl 发送请求（移动端），不支持进度和中止，重定向由 requestUrl 自行跟随
+ */
+function sendWithRequestUrl(options: PrivilegedRequestOptions, handlers: PrivilegedRequestHandlers): PrivilegedRequestControl {
+    let finished = false;
+    let timer: number | null = null;
+
+    if (options.timeout && options.timeout > 0) {
+        timer = window.setTimeout(() => {
+            if (finished) return;
+            finished = true;
+            if (handlers.onTimeout) {
+                handlers.onTimeout();
+            } else {
+                handlers.onError('timeout');
+            }
+        }, options.timeout);
+    }
+
+    const settle = (callback: () => void) => {
+        if (finished) return;
+        finished = true;
+        if (timer !== null) {
+            window.clearTimeout(timer);
+        }
+        callback();
+    };
+
+    requestUrl({
+        url: options.url,
+        method: (options.method || 'GET').toUpperCase(),
+        headers: options.headers,
+        body: options.body,
+        throw: false
+    }).then(response => {
+        settle(() => {
+            if (response.arrayBuffer.byteLength > MAX_RESPONSE_SIZE) {
+                handlers.onError(RESPONSE_TOO_LARGE);
+                return;
+            }
+            const head: PrivilegedResponseHead = {
+                finalUrl: options.url,
+                status: response.status,
+                statusText: '',
+                responseHeaders: Object.keys(response.headers)
+                    .map(name => `${name.toLowerCase()}: ${response.headers[name]}`)
+                    .join('\r\n')
+            };
+            handlers.onHeaders?.(head);
+            handlers.onProgress?.(response.arrayBuffer.byteLength, response.arrayBuffer.byteLength, true);
+            handlers.onLoad(head, response.arrayBuffer);
+        });
+    }, error => {
+        settle(() => handlers.onError(error instanceof Error ? error.message : String(error)));
+    });
+
+    return {
+        abort: () => settle(() => undefined)
+    };
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+    return Object.keys(headers).some(key => key.toLowerCase() === name);
+}
+
+/**
+ * 复制请求头并去掉指定的请求头（名称为小写）
+ */
+function withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(headers).forEach(key => {
+        if (names.indexOf(key.toLowerCase()) === -1) {
+            result[key] = headers[key];
+        }
+    });
+    return result;
+}
+
+/**
+ * 把 Node 的原始响应头转换为 getAllResponseHeaders() 的格式
+ */
+function formatHeaders(rawHeaders: string[]): string {
+    const lines: string[] = [];
+    for (let i = 0; i + 1 < rawHeaders.length; i += 2) {
+        lines.push(`${rawHeaders[i].toLowerCase()}: ${rawHeaders[i + 1]}`);
+    }
+    return lines.join('\r\n');
+}
+
+/**
+ * 从 Content-Type 中取出字符集，默认 UTF-8
+ */
+export function getCharset(contentType: string | null | undefined): string {
+    const match = /charset=["']?([^;"'\s]+)/i.exec(contentType || '');
+    return match ? match[1] : 'utf-8';
+}
+
+/**
+ * 按字符集解码响应体
+ */
+export function decodeText(body: ArrayBuffer, contentType?: string | null): string {
+    try {
+        return new TextDecoder(getCharset(contentType)).decode(body);
+    } catch (error) {
+        return new TextDecoder('utf-8').decode(body);
+    }
+}
@@ -0,0 +1,255 @@
+import { Notice } from 'obsidian';
+import { UserScript } from '../models/script';
+import { Logger } from './logging/logger';
+
+/**
+ * 通知的显示方式：Obsidian 的 Notice 或系统通知
+ */
+export type NotificationStyle = 'notice' | 'system';
+
+/**
+ * GM_notification 的通知选项
+ */
+export interface ScriptNotificationOptions {
+    text?: string;
+    title?: string;
+    image?: string;
+    /** 自动关闭时间（毫秒），0 表示不自动关闭 */
+    timeout?: number;
+    /** 同时突出显示脚本所在的页面 */
+    highlight?: boolean;
+    /** 系统通知不播放提示音 */
+    silent?: boolean;
+    /** 相同标签的新通知会替换脚本之前的通知 */
+    tag?: string;
+}
+
+/**
+ * 通知事件回调
+ */
+export interface ScriptNotificationCallbacks {
+    onclick?: () => void;
+    /** 通知关闭时调用（点击、超时或被替换） */
+    ondone?: () => void;
+    /** highlight 为 true 时调用，由调用方决定如何突出显示页面 */
+    onhighlight?: () => void;
+}
+
+interface ActiveNotification {
+    close: () => void;
+}
+
+const DEFAULT_NOTICE_TIMEOUT = 5000;
+
+/**
+ * 把 GM_notification 的各种调用形式统一为选项对象
+ *
+ * 支持 GM_notification(details, ondone) 和 GM_notification(text, title, image, onclick)
+ */
+export function normalizeNotificationArgs(
+    detailsOrText: any,
+    titleOrOndone?: any,
+    image?: string,
+    onclick?: () => void
+): ScriptNotificationOptions & { onclick?: () => void; ondone?: () => void } {
+    if (typeof detailsOrText === 'string') {
+        return {
+            text: detailsOrText,
+            title: typeof titleOrOndone === 'string' ? titleOrOndone : undefined,
+            image,
+            onclick
+        };
+    }
+
+    const details = { ...(detailsOrText || {}) };
+    if (typeof titleOrOndone === 'function' && !details.ondone) {
+        details.ondone = titleOrOndone;
+    }
+    return details;
+}
+
+/**
+ * 脚本通知服务
+ *
+ * 默认以 Obsidian Notice 显示，用户可以在设置中改为系统通知；
+ * 被静音的脚本不会显示任何通知。
+ */
+export class NotificationService {
+    private logger = new Logger('NotificationService');
+    private active = new Map<string, ActiveNotification>();
+    private tagged = new Map<string, string>();
+    private nextId = 1;
+
+    constructor(
+        private getStyle: () => NotificationStyle,
+        private getMutedScripts: () => string[]
+    ) {}
+
+    /**
+     * 脚本的通知是否被静音
+     */
+    isMuted(scriptId: string): boolean {
+        return this.getMutedScripts().includes(scriptId);
+    }
+
+    /**
+     * 显示通知
+     * @returns 通知ID，没有显示通知时（静音或只有 highlight）返回 null
+     */
+    show(script: UserScript, options: ScriptNotificationOptions, callbacks: ScriptNotificationCallbacks = {}): string | null {
+        if (options.highlight && callbacks.onhighlight) {
+            callbacks.onhighlight();
+        }
+
+        if (!options.text) {
+            if (!options.highlight) {
+                this.logger.warn(`脚本 ${script.name} 的通知没有内容`);
+            }
+            return null;
+        }
+
+        if (this.isMuted(script.id)) {
+            this.logger.debug(`脚本 ${script.name} 的通知已静音`);
+            return null;
+        }
+
+        // 相同标签的通知替换之前的通知
+        const tagKey = options.tag ? `${script.id}:${options.tag}` : null;
+        if (tagKey && this.tagged.has(tagKey)) {
+            this.close(this.tagged.get(tagKey)!);
+        }
+
+        const id = String(this.nextId++);
+        let done = false;
+        const finish = () => {
+            if (done) return;
+            done = true;
+            this.active.delete(id);
+            if (tagKey && this.tagged.get(tagKey) === id) {
+                this.tagged.delete(tagKey);
+            }
+            this.safeCall(callbacks.ondone);
+        };
+        const click = () => this.safeCall(callbacks.onclick);
+
+        const title = options.title || script.name;
+        const notification = this.getStyle() === 'system' && this.canUseSystemNotification()
+            ? this.showSystem(title, options, click, finish)
+            : this.showNotice(title, options, click, finish);
+
+        this.active.set(id, notification);
+        if (tagKey) {
+            this.tagged.set(tagKey, id);
+        }
+        return id;
+    }
+
+    /**
+     * 关闭通知
+     */
+    close(id: string): void {
+        const notification = this.active.get(id);
+        if (notification) {
+            notification.close();
+        }
+    }
+
+    /**
+     * 关闭所有通知，插件卸载时调用
+     */
+    closeAll(): void {
+        Array.from(this.active.keys()).forEach(id => this.close(id));
+    }
+
+    private showNotice(
+        title: string,
+        options: ScriptNotificationOptions,
+        onclick: () => void,
+        ondone: () => void
+    ): ActiveNotification {
+        const fragment = createFragment(frag => {
+            const container = frag.createDiv({ cls: 'cheekychimp-notification' });
+            if (options.image) {
+                container.createEl('img', { cls: 'cheekychimp-notification-image', attr: { src: options.image } });
+            }
+            const body = container.createDiv({ cls: 'cheekychimp-notification-body' });
+            body.createDiv({ cls: 'cheekychimp-notification-title', text: title });
+            body.createDiv({ cls: 'cheekychimp-notification-text', text: options.text });
+        });
+
+        const timeout = options.timeout === undefined ? DEFAULT_NOTICE_TIMEOUT : options.timeout;
+        const notice = new Notice(fragment, timeout);
+        let timer: number | null = null;
+
+        const close = () => {
+            if (timer !== null) {
+                window.clearTimeout(timer);
+            }
+            notice.hide();
+            ondone();
+        };
+
+        // Notice 没有关闭事件，点击会关闭 Notice，超时按相同时间计算
+        notice.noticeEl.addEventListener('click', () => {
+            onclick();
+            close();
+        });
+        if (timeout > 0) {
+            timer = window.setTimeout(close, timeout);
+        }
+
+        return { close };
+    }
+
+    private showSystem(
+        title: string,
+        options: ScriptNotificationOptions,
+        onclick: () => void,
+        ondone: () => void
+    ): ActiveNotification {
+        const notification = new Notification(title, {
+            body: options.text,
+            icon: options.image,
+            silent: !!options.silent,
+            tag: options.tag
+        });
+        let timer: number | null = null;
+
+        const close = () => {
+            if (timer !== null) {
+                window.clearTimeout(timer);
+            }
+            notification.close();
+            ondone();
+        };
+
+        notification.onclick = () => {
+            onclick();
+            close();
+        };
+        notification.onclose = () => close();
+        notification.onerror = () => {
+            this.logger.warn('系统通知显示失败');
+            close();
+        };
+
+        if (options.timeout && options.timeout > 0) {
+            timer = window.setTimeout(close, options.timeout);
+        }
+
+        return { close };
+    }
+
+    private canUseSystemNotification(): boolean {
+        return typeof Notification !== 'undefined' && Notification.permission !== 'denied';
+    }
+
+    private safeCall(callback?: () => void): void {
+        if (!callback) return;
+        try {
+            callback();
+        } catch (error) {
+            this.logger.error('通知回调出错', error);
+        }
+    }
+}
@@ -1,87 +1,62 @@
 import { ScriptStorage } from '../models/script';
-import { Plugin } from 'obsidian';
+import { ValueStore } from './storage/value-store';
 
 /**
- * Implements the ScriptStorage interface using Obsidian's data storage
+ * Implements the ScriptStorage interface on top of the plugin's value store.
+ * Keys have the form `<scriptId>:<name>`; each script's values are kept in
+ * their own storage file.
  */
 export class ObsidianStorage implements ScriptStorage {
-    private plugin: Plugin;
-    private cache: Map<string, any> = new Map();
-    
-    constructor(plugin: Plugin) {
-        this.plugin = plugin;
+    private valueStore: ValueStore;
+
+    constructor(valueStore: ValueStore) {
+        this.valueStore = valueStore;
     }
-    
+
     /**
      * Get a value from storage
      */
     async getValue(name: string, defaultValue?: any): Promise<any> {
-        // Check cache first
-        if (this.cache.has(name)) {
-            return this.cache.get(name);
-        }
-        
-        // Load from plugin data
-        const data = await this.plugin.loadData() || {};
-        const value = name in data ? data[name] : defaultValue;
-        
-        // Cache the value
-        this.cache.set(name, value);
-        
-        return value;
+        const key = this.parseKey(name);
+        return this.valueStore.get(key.scriptId, key.name, defaultValue);
     }
-    
+
     /**
      * Set a value in storage
      */
     async setValue(name: string, value: any): Promise<void> {
-        // Update cache
-        this.cache.set(name, value);
-        
-        // Load current data
-        const data = await this.plugin.loadData() || {};
-        
-        // Update data
-        data[name] = value;
-        
-        // Save data
-        await this.plugin.saveData(data);
+        const key = this.parseKey(name);
+        await this.valueStore.set(key.scriptId, key.name, value);
     }
-    
+
     /**
      * Delete a value from storage
      */
     async deleteValue(name: string): Promise<void> {
-        // Remove from cache
-        this.cache.delete(name);
-        
-        // Load current data
-        const data = await this.plugin.loadData() || {};
-        
-        // Delete property
-        if (name in data) {
-            delete data[name];
-            
-            // Save data
-            await this.plugin.saveData(data);
-        }
+        const key = this.parseKey(name);
+        await this.valueStore.delete(key.scriptId, key.name);
     }
-    
+
     /**
-     * List all stored values
+     * List all stored keys of all scripts
      */
     async listValues(): Promise<string[]> {
-        // Load data
-        const data = await this.plugin.loadData() || {};
-        
-        // Return keys
-        return Object.keys(data);
+        const keys: string[] = [];
+        for (const scriptId of await this.valueStore.listScripts()) {
+            const names = await this.valueStore.list(scriptId);
+            names.forEach(name => keys.push(`${scriptId}:${name}`));
+        }
+        return keys;
     }
-    
+
     /**
-     * Clear the cache
+     * Split a `<scriptId>:<name>` key
      */
-    clearCache(): void {
-        this.cache.clear();
+    private parseKey(key: string): { scriptId: string; name: string } {
+        const index = key.indexOf(':');
+        if (index === -1) {
+            throw new Error(`Storage key must start with a script ID: ${key}`);
+        }
+        return { scriptId: key.substring(0, index), name: key.substring(index + 1) };
     }
-} 
\ No newline at end of file
+}
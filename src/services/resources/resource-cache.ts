@@ -0,0 +1,335 @@
+import { DataAdapter, normalizePath, requestUrl } from 'obsidian';
+import { UserScript } from '../../models/script';
+import { ResourceLoadError } from '../error/error-types';
+import { Logger } from '../logging/logger';
+import { arrayBufferToBase64 } from '../utils/base64';
+import { checkIntegrity, md5Hex, parseIntegrity } from '../utils/integrity';
+
+/**
+ * 下载到的资源
+ */
+export interface FetchedResource {
+    data: ArrayBuffer;
+    /** 响应的 Content-Type，没有时为空 */
+    contentType: string;
+}
+
+/**
+ * 下载资源的函数，便于替换为其他实现
+ */
+export type ResourceFetcher = (url: string) => Promise<FetchedResource>;
+
+/**
+ * 默认的下载函数，使用 Obsidian 的 requestUrl 以避免跨域限制
+ */
+export const requestUrlResourceFetcher: ResourceFetcher = async (url: string) => {
+    const response = await requestUrl({ url, method: 'GET', throw: false });
+    if (response.status < 200 || response.status >= 300) {
+        throw new Error(`请求失败: ${response.status}`);
+    }
+
+    const header = Object.keys(response.headers).find(name => name.toLowerCase() === 'content-type');
+    return { data: response.arrayBuffer, contentType: header ? response.headers[header] : '' };
+};
+
+/**
+ * 按扩展名推断的 MIME 类型，服务器没有返回或返回了笼统的类型时使用
+ */
+const EXTENSION_TYPES: Record<string, string> = {
+    css: 'text/css',
+    js: 'text/javascript',
+    mjs: 'text/javascript',
+    json: 'application/json',
+    html: 'text/html',
+    htm: 'text/html',
+    xml: 'application/xml',
+    txt: 'text/plain',
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    ico: 'image/x-icon',
+    bmp: 'image/bmp',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+    eot: 'application/vnd.ms-fontobject',
+    mp3: 'audio/mpeg',
+    ogg: 'audio/ogg',
+    wav: 'audio/wav',
+    mp4: 'video/mp4',
+    webm: 'video/webm'
+};
+
+const GENERIC_TYPES = ['', 'text/plain', 'application/octet-stream', 'binary/octet-stream'];
+
+/**
+ * 缓存索引中的一项
+ */
+interface CachedResource {
+    /** 缓存目录中的文件名 */
+    file: string;
+    /** MIME 类型，旧版本的缓存没有 */
+    contentType?: string;
+    size: number;
+    fetchedAt: number;
+}
+
+/**
+ * 注入脚本时随脚本一起带入页面的依赖和资源
+ */
+export interface ScriptResources {
+    /** @require 的代码，按声明的顺序 */
+    requires: { url: string; code: string }[];
+    /** @resource 的内容，按资源名称 */
+    resources: Record<string, ResourceContent>;
+}
+
+/**
+ * 一个 @resource 的内容，以 Base64 保存以便原样传入页面
+ */
+export interface ResourceContent {
+    url: string;
+    contentType: string;
+    base64: string;
+}
+
+/**
+ * @require 和 @resource 的持久缓存
+ *
+ * 脚本安装或更新时下载依赖和资源，校验地址中的 #sha256= / #md5= 等校验值后保存到插件目录，
+ * 注入时从磁盘读取，不再每次启动都重新下载。索引保存在缓存目录的 index.json 中，按声明的地址（含校验值）记录。
+ */
+export class ResourceCache {
+    private logger = new Logger('ResourceCache');
+    private index: Record<string, CachedResource> | null = null;
+    private loading: Promise<Record<string, CachedResource>> | null = null;
+    /** 进行中的下载，同一地址只下载一次 */
+    private downloads = new Map<string, Promise<FetchedResource>>();
+
+    /**
+     * @param adapter 库的文件适配器
+     * @param dir 缓存目录，通常是 `<插件目录>/resources`
+     */
+    constructor(
+        private adapter: DataAdapter,
+        private dir: string,
+        private fetcher: ResourceFetcher = requestUrlResourceFetcher
+    ) {}
+
+    /**
+     * 下载脚本尚未缓存的依赖和资源
+     * @returns 下载失败的资源，不会抛出错误
+     */
+    async prefetch(script: UserScript): Promise<ResourceLoadError[]> {
+        const failures: ResourceLoadError[] = [];
+        for (const url of getResourceUrls(script)) {
+            try {
+                if (!(await this.isCached(url))) {
+                    await this.download(url);
+                }
+            } catch (error) {
+                failures.push(toResourceLoadError(url, error));
+            }
+        }
+        return failures;
+    }
+
+    /**
+     * 读取注入脚本所需的依赖和资源，未缓存的先下载
+     *
+     * 下载失败的依赖和资源会被跳过并记录日志，不影响脚本本身的注入。
+     */
+    async getScriptResources(script: UserScript): Promise<ScriptResources> {
+        const result: ScriptResources = { requires: [], resources: {} };
+        const decoder = new TextDecoder();
+
+        for (const url of script.requires) {
+            try {
+                result.requires.push({ url, code: decoder.decode((await this.get(url)).data) });
+            } catch (error) {
+                this.logger.error(`脚本 ${script.name} 的依赖加载失败`, toResourceLoadError(url, error));
+            }
+        }
+
+        for (const resource of script.resources) {
+            try {
+                const { data, contentType } = await this.get(resource.url);
+                result.resources[resource.name] = {
+                    url: resource.url,
+                    contentType,
+                    base64: arrayBufferToBase64(data)
+                };
+            } catch (error) {
+                this.logger.error(`脚本 ${script.name} 的资源 ${resource.name} 加载失败`, toResourceLoadError(resource.url, error));
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * 读取缓存的资源，未缓存时下载
+     * @throws ResourceLoadError 下载失败或校验不通过时
+     */
+    async get(url: string): Promise<FetchedResource> {
+        const index = await this.loadIndex();
+        const cached = index[url];
+        if (cached) {
+            const path = this.getPath(cached.file);
+            if (await this.adapter.exists(path)) {
+                return {
+                    data: await this.adapter.readBinary(path),
+                    contentType: cached.contentType || resolveContentType('', url)
+                };
+            }
+        }
+        return this.download(url);
+    }
+
+    /**
+     * 删除不再被任何脚本使用的缓存
+     */
+    async prune(scripts: UserScript[]): Promise<void> {
+        const index = await this.loadIndex();
+        const used = new Set<string>();
+        scripts.forEach(script => getResourceUrls(script).forEach(url => used.add(url)));
+
+        const unused = Object.keys(index).filter(url => !used.has(url));
+        if (unused.length === 0) {
+            return;
+        }
+
+        for (const url of unused) {
+            const path = this.getPath(index[url].file);
+            delete index[url];
+            try {
+                if (await this.adapter.exists(path)) {
+                    await this.adapter.remove(path);
+                }
+            } catch (error) {
+                this.logger.warn(`删除缓存文件 ${path} 失败`, error);
+            }
+        }
+        await this.saveIndex();
+    }
+
+    private async isCached(url: string): Promise<boolean> {
+        const cached = (await this.loadIndex())[url];
+        return !!cached && await this.adapter.exists(this.getPath(cached.file));
+    }
+
+    /**
+     * 下载资源，校验后写入缓存
+     */
+    private download(url: string): Promise<FetchedResource> {
+        let pending = this.downloads.get(url);
+        if (!pending) {
+            const remove = () => this.downloads.delete(url);
+            pending = this.fetchAndStore(url);
+            pending.then(remove, remove);
+            this.downloads.set(url, pending);
+        }
+        return pending;
+    }
+
+    private async fetchAndStore(url: string): Promise<FetchedResource> {
+        const { url: downloadUrl, hashes } = parseIntegrity(url);
+
+        let fetched: FetchedResource;
+        try {
+            this.logger.info(`下载资源: ${downloadUrl}`);
+            fetched = await this.fetcher(downloadUrl);
+            await checkIntegrity(fetched.data, hashes);
+        } catch (error) {
+            throw toResourceLoadError(url, error);
+        }
+
+        const file = md5Hex(url);
+        const contentType = resolveContentType(fetched.contentType, downloadUrl);
+        if (!(await this.adapter.exists(this.dir))) {
+            await this.adapter.mkdir(this.dir);
+        }
+        await this.adapter.writeBinary(this.getPath(file), fetched.data);
+
+        const index = await this.loadIndex();
+        index[url] = { file, contentType, size: fetched.data.byteLength, fetchedAt: Date.now() };
+        await this.saveIndex();
+
+        return { data: fetched.data, contentType };
+    }
+
+    private loadIndex(): Promise<Record<string, CachedResource>> {
+        if (this.index) {
+            return Promise.resolve(this.index);
+        }
+        if (!this.loading) {
+            this.loading = this.readIndex().then(index => {
+                this.index = index;
+                return index;
+            });
+        }
+        return this.loading;
+    }
+
+    private async readIndex(): Promise<Record<string, CachedResource>> {
+        const path = this.getPath('index.json');
+        try {
+            if (await this.adapter.exists(path)) {
+                const data = JSON.parse(await this.adapter.read(path));
+                if (data && typeof data === 'object') {
+                    return data;
+                }
+            }
+        } catch (error) {
+            this.logger.warn('读取资源缓存索引失败，重新建立索引', error);
+        }
+        return {};
+    }
+
+    private async saveIndex(): Promise<void> {
+        if (!(await this.adapter.exists(this.dir))) {
+            await this.adapter.mkdir(this.dir);
+        }
+        await this.adapter.write(this.getPath('index.json'), JSON.stringify(this.index || {}, null, 2));
+    }
+
+    private getPath(file: string): string {
+        return normalizePath(`${this.dir}/${file}`);
+    }
+}
+
+/**
+ * 脚本声明的全部依赖和资源地址
+ */
+function getResourceUrls(script: UserScript): string[] {
+    return [...(script.requires || []), ...(script.resources || []).map(resource => resource.url)];
+}
+
+/**
+ * 确定资源的 MIME 类型
+ *
+ * 很多服务器（例如 GitHub 的 raw 文件）对 CSS、字体和图片也返回 text/plain 或 application/octet-stream，
+ * 这时按扩展名推断，推断不出时保留服务器返回的类型。
+ */
+function resolveContentType(header: string, url: string): string {
+    const contentType = header.trim();
+    if (!GENERIC_TYPES.includes(contentType.split(';')[0].trim().toLowerCase())) {
+        return contentType;
+    }
+
+    const path = url.split(/[?#]/)[0];
+    const extension = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+    return EXTENSION_TYPES[extension] || contentType || 'application/octet-stream';
+}
+
+function toResourceLoadError(url: string, error: unknown): ResourceLoadError {
+    if (error instanceof ResourceLoadError) {
+        return error;
+    }
+    return new ResourceLoadError(url, error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,320 @@
+import { App, EventRef, normalizePath, TAbstractFile, TFile, TFolder, Vault } from 'obsidian';
+import { UserScript } from '../models/script';
+import { Logger } from './logging/logger';
+import { ScriptManager } from './script-manager';
+
+/**
+ * 用户脚本文件的扩展名
+ */
+export const USER_SCRIPT_EXTENSION = '.user.js';
+
+/**
+ * 把脚本保存为库中某个文件夹里的 .user.js 文件，并与脚本列表保持同步
+ *
+ * 在文件夹中新建、修改、删除或移动文件会添加、更新或删除对应的脚本；在插件中添加、编辑或删除脚本
+ * 也会写回文件。脚本与文件通过 UserScript.filePath 对应，启用状态和顺序仍保存在插件设置中。
+ */
+export class ScriptFolderSync {
+    private logger = new Logger('ScriptFolderSync');
+    private eventRefs: EventRef[] = [];
+    private folder = '';
+    private active = false;
+    /** 最近一次读到或写入的文件内容，按路径保存，用于忽略自己写入引起的修改事件 */
+    private contents = new Map<string, string>();
+    /** 脚本ID -> 文件路径，脚本被删除后用来找到它的文件 */
+    private files = new Map<string, string>();
+
+    constructor(private app: App, private scriptManager: ScriptManager) {
+        this.scriptManager.on('onScriptAdded', script => this.handleScriptChanged(script));
+        this.scriptManager.on('onScriptUpdated', script => this.handleScriptChanged(script));
+        this.scriptManager.on('onScriptRemoved', scriptId => this.handleScriptRemoved(scriptId));
+    }
+
+    isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * 开始同步指定的文件夹
+     *
+     * 没有文件的脚本会先导出到文件夹中，文件已经不存在的脚本按保存的源码重新写出，
+     * 然后把没有对应脚本的文件作为新脚本添加。只有在同步期间删除文件才会删除脚本。
+     */
+    async start(folder: string): Promise<void> {
+        this.stop();
+
+        const path = normalizePath(folder.trim());
+        if (!path || path === '/') {
+            throw new Error('请指定脚本文件夹');
+        }
+        this.folder = path;
+
+        const existing = this.app.vault.getAbstractFileByPath(this.folder);
+        if (existing && !(existing instanceof TFolder)) {
+            throw new Error(`${this.folder} 不是文件夹`);
+        }
+        if (!existing) {
+            await this.app.vault.createFolder(this.folder);
+        }
+
+        this.active = true;
+        await this.reconcile();
+
+        const vault = this.app.vault;
+        this.eventRefs = [
+            vault.on('create', file => this.onFileCreated(file)),
+            vault.on('modify', file => this.onFileModified(file)),
+            vault.on('delete', file => this.onFileDeleted(file)),
+            vault.on('rename', (file, oldPath) => this.onFileRenamed(file, oldPath))
+        ];
+        this.logger.info(`开始同步脚本文件夹 ${this.folder}`);
+    }
+
+    /**
+     * 停止同步，已有的文件和脚本保持不变
+     */
+    stop(): void {
+        this.eventRefs.forEach(ref => this.app.vault.offref(ref));
+        this.eventRefs = [];
+        this.active = false;
+        this.contents.clear();
+        this.files.clear();
+    }
+
+    /**
+     * 按文件夹的当前内容更新脚本列表
+     */
+    private async reconcile(): Promise<void> {
+        for (const script of this.scriptManager.getAllScripts()) {
+            if (!this.isScriptFile(script.filePath)) {
+                await this.exportScript(script);
+            } else if (!this.getFile(script.filePath)) {
+                // 文件可能只是还没被同步工具下载，删除脚本会丢失它的存储值和历史版本
+                this.logger.info(`脚本文件 ${script.filePath} 不存在，按保存的源码重新创建`);
+                await this.restoreScriptFile(script, script.filePath);
+            } else {
+                this.files.set(script.id, script.filePath);
+            }
+        }
+
+        for (const file of this.listScriptFiles(this.app.vault.getAbstractFileByPath(this.folder))) {
+            await this.syncFile(file);
+        }
+    }
+
+    private onFileCreated(file: TAbstractFile): void {
+        if (file instanceof TFile && this.isScriptFile(file.path)) {
+            this.syncFile(file);
+        }
+    }
+
+    private onFileModified(file: TAbstractFile): void {
+        if (file instanceof TFile && this.isScriptFile(file.path)) {
+            this.syncFile(file);
+        }
+    }
+
+    /**
+     * 删除文件或文件夹时删除其中的脚本
+     */
+    private onFileDeleted(file: TAbstractFile): void {
+        this.findScriptsUnder(file.path).forEach(script => {
+            this.contents.delete(script.filePath);
+            this.files.delete(script.id);
+            this.logger.info(`脚本文件 ${script.filePath} 已删除，删除脚本 ${script.name}`);
+            this.scriptManager.removeScript(script.id);
+        });
+    }
+
+    /**
+     * 移动文件或文件夹时更新脚本的文件路径，移出脚本文件夹的脚本会被删除，移入的文件会被添加
+     */
+    private onFileRenamed(file: TAbstractFile, oldPath: string): void {
+        this.findScriptsUnder(oldPath).forEach(script => {
+            const oldFilePath = script.filePath;
+            const newFilePath = file.path + oldFilePath.substring(oldPath.length);
+            const content = this.contents.get(oldFilePath);
+            this.contents.delete(oldFilePath);
+
+            if (this.isScriptFile(newFilePath)) {
+                if (content !== undefined) {
+                    this.contents.set(newFilePath, content);
+                }
+                this.files.set(script.id, newFilePath);
+                this.scriptManager.setScriptFile(script.id, newFilePath);
+            } else {
+                this.files.delete(script.id);
+                this.logger.info(`脚本文件 ${oldFilePath} 已移出脚本文件夹，删除脚本 ${script.name}`);
+                this.scriptManager.removeScript(script.id);
+            }
+        });
+
+        const moved = file instanceof TFolder ? this.listScriptFiles(file) : [file];
+        moved.forEach(item => {
+            if (item instanceof TFile && this.isScriptFile(item.path) && !this.scriptManager.findScriptByFile(item.path)) {
+                this.syncFile(item);
+            }
+        });
+    }
+
+    /**
+     * 读取文件并添加或更新对应的脚本，文件内容不是有效的用户脚本时保留原来的脚本
+     */
+    private async syncFile(file: TFile): Promise<void> {
+        let source: string;
+        try {
+            source = await this.app.vault.read(file);
+        } catch (error) {
+            this.logger.error(`读取脚本文件 ${file.path} 失败`, error);
+            return;
+        }
+
+        const known = this.contents.get(file.path);
+        this.contents.set(file.path, source);
+
+        try {
+            const script = this.scriptManager.findScriptByFile(file.path);
+            if (script) {
+                if (script.source !== source) {
+                    this.scriptManager.updateScript(script.id, source, 'file');
+                }
+            } else if (known !== source) {
+                // 内容与最近写入的相同时，说明是自己创建的文件，脚本已有对应关系
+                this.scriptManager.addScript(source, { filePath: file.path, keepBoth: true, origin: 'file' });
+            }
+        } catch (error) {
+            this.logger.warn(`无法解析脚本文件 ${file.path}`, error);
+        }
+    }
+
+    /**
+     * 脚本在插件中被添加或编辑时写回文件
+     */
+    private async handleScriptChanged(script: UserScript): Promise<void> {
+        if (!this.active) {
+            return;
+        }
+
+        try {
+            if (!this.isScriptFile(script.filePath)) {
+                await this.exportScript(script);
+                return;
+            }
+
+            this.files.set(script.id, script.filePath);
+            if (this.contents.get(script.filePath) !== script.source) {
+                await this.writeFile(script.filePath, script.source);
+            }
+        } catch (error) {
+            this.logger.error(`写入脚本文件失败: ${script.name}`, error);
+        }
+    }
+
+    /**
+     * 脚本在插件中被删除时把文件移到回收站
+     */
+    private async handleScriptRemoved(scriptId: string): Promise<void> {
+        const path = this.files.get(scriptId);
+        this.files.delete(scriptId);
+        if (!this.active || !path) {
+            return;
+        }
+
+        this.contents.delete(path);
+        const file = this.getFile(path);
+        if (file) {
+            try {
+                await this.app.vault.trash(file, true);
+            } catch (error) {
+                this.logger.error(`删除脚本文件 ${path} 失败`, error);
+            }
+        }
+    }
+
+    /**
+     * 为还没有文件的脚本创建文件
+     */
+    private async exportScript(script: UserScript): Promise<void> {
+        const path = this.getAvailablePath(script.name);
+        // 先建立对应关系，避免文件创建事件把它当作新脚本
+        this.contents.set(path, script.source);
+        this.files.set(script.id, path);
+        this.scriptManager.setScriptFile(script.id, path);
+        await this.writeFile(path, script.source);
+    }
+
+    /**
+     * 在脚本原来的路径重新创建文件，路径被文件夹占用时导出到新的路径
+     */
+    private async restoreScriptFile(script: UserScript, path: string): Promise<void> {
+        if (this.app.vault.getAbstractFileByPath(path)) {
+            await this.exportScript(script);
+            return;
+        }
+
+        const parent = path.substring(0, path.lastIndexOf('/'));
+        if (!this.app.vault.getAbstractFileByPath(parent)) {
+            await this.app.vault.createFolder(parent);
+        }
+        this.files.set(script.id, path);
+        await this.writeFile(path, script.source);
+    }
+
+    private async writeFile(path: string, content: string): Promise<void> {
+        this.contents.set(path, content);
+        const file = this.getFile(path);
+        if (file) {
+            await this.app.vault.modify(file, content);
+        } else {
+            await this.app.vault.create(path, content);
+        }
+    }
+
+    /**
+     * 根据脚本名称生成文件夹中未被占用的文件路径
+     */
+    private getAvailablePath(name: string): string {
+        const base = name.replace(/[\\/:*?"<>|#^[\]]/g, '_').trim() || 'script';
+        let path = normalizePath(`${this.folder}/${base}${USER_SCRIPT_EXTENSION}`);
+        for (let i = 2; this.isPathTaken(path); i++) {
+            path = normalizePath(`${this.folder}/${base} (${i})${USER_SCRIPT_EXTENSION}`);
+        }
+        return path;
+    }
+
+    private isPathTaken(path: string): boolean {
+        return !!this.app.vault.getAbstractFileByPath(path) || !!this.scriptManager.findScriptByFile(path);
+    }
+
+    /**
+     * 路径是否是脚本文件夹中的用户脚本文件
+     */
+    private isScriptFile(path: string | undefined): path is string {
+        return !!path && path.startsWith(`${this.folder}/`) && path.endsWith(USER_SCRIPT_EXTENSION);
+    }
+
+    /**
+     * 文件保存在指定路径或其子文件夹中的脚本
+     */
+    private findScriptsUnder(path: string): UserScript[] {
+        return this.scriptManager.getAllScripts()
+            .filter(script => !!script.filePath && (script.filePath === path || script.filePath.startsWith(`${path}/`)));
+    }
+
+    private getFile(path: string): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile ? file : null;
+    }
+
+    private listScriptFiles(folder: TAbstractFile | null): TFile[] {
+        const result: TFile[] = [];
+        if (folder instanceof TFolder) {
+            Vault.recurseChildren(folder, file => {
+                if (file instanceof TFile && this.isScriptFile(file.path)) {
+                    result.push(file);
+                }
+            });
+        }
+        return result;
+    }
+}
@@ -1,20 +1,39 @@
-import { UserScript } from '../models/script';
+import { InjectInto, UserScript } from '../models/script';
 import { ScriptParser } from './script-parser';
+import { scriptMatchesUrl } from './url-matcher';
+
+/**
+ * Where a change to a script's source came from
+ */
+export type ScriptChangeOrigin = 'import' | 'edit' | 'update' | 'file' | 'rollback';
 
 export interface ScriptManagerEvents {
-    onScriptAdded: (script: UserScript) => void;
+    onScriptAdded: (script: UserScript, origin: ScriptChangeOrigin) => void;
     onScriptRemoved: (scriptId: string) => void;
-    onScriptUpdated: (script: UserScript) => void;
+    /**
+     * `origin` and `previousSource` are only set when the source changed,
+     * not for order or file path changes
+     */
+    onScriptUpdated: (script: UserScript, origin?: ScriptChangeOrigin, previousSource?: string) => void;
     onScriptEnabled: (scriptId: string) => void;
     onScriptDisabled: (scriptId: string) => void;
 }
 
+export interface AddScriptOptions {
+    /** Vault path of the .user.js file the script is stored in */
+    filePath?: string;
+    /** Install next to an already installed copy of the same script instead of failing */
+    keepBoth?: boolean;
+    /** Where the script came from, defaults to 'import' */
+    origin?: ScriptChangeOrigin;
+}
+
 /**
  * Script manager service for managing user scripts
  */
 export class ScriptManager {
     private scripts: Map<string, UserScript> = new Map();
-    private eventListeners: Partial<ScriptManagerEvents> = {};
+    private eventListeners: { [event: string]: Function[] } = {};
 
     constructor() {}
 
@@ -25,7 +44,34 @@ export class ScriptManager {
         event: K, 
         callback: ScriptManagerEvents[K]
     ): void {
-        this.eventListeners[event] = callback;
+        const listeners = this.eventListeners[event] || (this.eventListeners[event] = []);
+        listeners.push(callback);
+    }
+
+    /**
+     * Remove event listener
+     */
+    off<K extends keyof ScriptManagerEvents>(
+        event: K,
+        callback: ScriptManagerEvents[K]
+    ): void {
+        const listeners = this.eventListeners[event];
+        if (listeners) {
+            this.eventListeners[event] = listeners.filter(item => item !== callback);
+        }
+    }
+
+    /**
+     * Call all listeners of an event
+     */
+    private emit<K extends keyof ScriptManagerEvents>(
+        event: K,
+        ...args: Parameters<ScriptManagerEvents[K]>
+    ): void {
+        const listeners = this.eventListeners[event];
+        if (listeners) {
+            listeners.forEach(listener => listener(...args));
+        }
     }
 
     /**
@@ -43,16 +89,35 @@ export class ScriptManager {
         return this.scripts.get(id);
     }
 
+    /**
+     * Get the script stored in a vault file
+     */
+    findScriptByFile(filePath: string): UserScript | undefined {
+        return Array.from(this.scripts.values()).find(script => script.filePath === filePath);
+    }
+
+    /**
+     * Find the installed copy of a script, matched by ID or by @namespace + @name
+     */
+    findInstalledScript(script: UserScript): UserScript | undefined {
+        return this.scripts.get(script.id) || Array.from(this.scripts.values())
+            .find(s => s.name === script.name && s.namespace === script.namespace);
+    }
+
     /**
      * Add a new script
      */
-    addScript(source: string): UserScript {
+    addScript(source: string, options: AddScriptOptions = {}): UserScript {
         try {
             const script = ScriptParser.parseScript(source);
+            script.filePath = options.filePath || '';
             
-            // Check if script with same ID exists
-            if (this.scripts.has(script.id)) {
-                throw new Error(`Script with name '${script.name}' already exists`);
+            // Check if the script is already installed
+            if (this.findInstalledScript(script)) {
+                if (!options.keepBoth) {
+                    throw new Error(`Script with name '${script.name}' already exists`);
+                }
+                script.id = this.getAvailableId(script.id);
             }
             
             // Set position to last
@@ -62,9 +127,7 @@ export class ScriptManager {
             this.scripts.set(script.id, script);
             
             // Trigger event
-            if (this.eventListeners.onScriptAdded) {
-                this.eventListeners.onScriptAdded(script);
-            }
+            this.emit('onScriptAdded', script, options.origin || 'import');
             
             return script;
         } catch (error) {
@@ -72,10 +135,22 @@ export class ScriptManager {
         }
     }
 
+    /**
+     * Append a number to an ID until it is not used by another script
+     */
+    getAvailableId(id: string): string {
+        let candidate = id;
+        for (let i = 2; this.scripts.has(candidate); i++) {
+            candidate = `${id}_${i}`;
+        }
+        return candidate;
+    }
+
     /**
      * Update an existing script
+     * @param origin where the new source came from
      */
-    updateScript(id: string, source: string): UserScript {
+    updateScript(id: string, source: string, origin: ScriptChangeOrigin = 'edit'): UserScript {
         if (!this.scripts.has(id)) {
             throw new Error(`Script with ID '${id}' not found`);
         }
@@ -92,7 +167,9 @@ export class ScriptManager {
             
             // 保留位置和启用状态
             parsedScript.position = oldScript?.position || 0;
-            parsedScript.enabled = oldScript?.enabled || true;
+            parsedScript.enabled = oldScript ? oldScript.enabled : true;
+            parsedScript.filePath = oldScript?.filePath || '';
+            parsedScript.injectIntoOverride = oldScript?.injectIntoOverride || '';
             
             // 更新最后更新时间戳
             parsedScript.lastUpdated = Date.now();
@@ -101,9 +178,7 @@ export class ScriptManager {
             this.scripts.set(id, parsedScript);
             
             // 触发事件
-            if (this.eventListeners.onScriptUpdated) {
-                this.eventListeners.onScriptUpdated(parsedScript);
-            }
+            this.emit('onScriptUpdated', parsedScript, origin, oldScript?.source);
             
             return parsedScript;
         } catch (error) {
@@ -129,9 +204,23 @@ export class ScriptManager {
         });
         
         // Trigger event
-        if (this.eventListeners.onScriptRemoved) {
-            this.eventListeners.onScriptRemoved(id);
+        this.emit('onScriptRemoved', id);
+    }
+
+    /**
+     * Set the vault file a script is stored in, empty to detach it from its file
+     */
+    setScriptFile(id: string, filePath: string): void {
+        const script = this.scripts.get(id);
+        if (!script) {
+            throw new Error(`Script with ID '${id}' not found`);
         }
+
+        if (script.filePath === filePath) return;
+        script.filePath = filePath;
+
+        // Trigger event
+        this.emit('onScriptUpdated', script);
     }
 
     /**
@@ -146,9 +235,7 @@ export class ScriptManager {
         script.enabled = true;
         
         // Trigger event
-        if (this.eventListeners.onScriptEnabled) {
-            this.eventListeners.onScriptEnabled(id);
-        }
+        this.emit('onScriptEnabled', id);
     }
 
     /**
@@ -163,9 +250,19 @@ export class ScriptManager {
         script.enabled = false;
         
         // Trigger event
-        if (this.eventListeners.onScriptDisabled) {
-            this.eventListeners.onScriptDisabled(id);
+        this.emit('onScriptDisabled', id);
+    }
+
+    /**
+     * Override the script's @inject-into, an empty mode goes back to the declared one
+     */
+    setInjectIntoOverride(id: string, mode: InjectInto | ''): void {
+        const script = this.scripts.get(id);
+        if (!script) {
+            throw new Error(`Script with ID '${id}' not found`);
         }
+
+        script.injectIntoOverride = mode;
     }
 
     /**
@@ -177,21 +274,11 @@ export class ScriptManager {
         for (const script of this.getAllScripts()) {
             // Skip disabled scripts
             if (!script.enabled) continue;
+
+            // @run-at context-menu scripts only run when chosen from a menu
+            if (script.runAt === 'context-menu') continue;
             
-            // Check if URL matches any include pattern
-            const shouldInclude = script.includes.length === 0 || 
-                script.includes.some(pattern => this.matchUrlPattern(url, pattern));
-            
-            // Check if URL matches any exclude pattern
-            const shouldExclude = script.excludes.some(pattern => 
-                this.matchUrlPattern(url, pattern));
-            
-            // Check if URL matches any match pattern
-            const matchesPattern = script.matches.length === 0 || 
-                script.matches.some(pattern => this.matchUrlPattern(url, pattern));
-            
-            // Include script if it should be included and not excluded
-            if (shouldInclude && !shouldExclude && matchesPattern) {
+            if (scriptMatchesUrl(script, url)) {
                 matchingScripts.push(script);
             }
         }
@@ -200,26 +287,11 @@ export class ScriptManager {
     }
 
     /**
-     * Match URL against a Greasemonkey pattern
+     * Find enabled @run-at context-menu scripts that can be run on a given URL
      */
-    private matchUrlPattern(url: string, pattern: string): boolean {
-        if (pattern === '*') return true;
-        
-        try {
-            // Convert Greasemonkey pattern to regex
-            let regexPattern = pattern
-                .replace(/[.+?^${}()|[\]\\]/g, '\\$&') // Escape regex special chars
-                .replace(/\*/g, '.*'); // Convert * to .*
-            
-            // Match from beginning to end
-            regexPattern = '^' + regexPattern + '$';
-            
-            const regex = new RegExp(regexPattern);
-            return regex.test(url);
-        } catch (error) {
-            console.error(`Invalid pattern: ${pattern}`, error);
-            return false;
-        }
+    findContextMenuScriptsForUrl(url: string): UserScript[] {
+        return this.getAllScripts()
+            .filter(script => script.enabled && script.runAt === 'context-menu' && scriptMatchesUrl(script, url));
     }
 
     /**
@@ -232,6 +304,22 @@ export class ScriptManager {
         });
     }
 
+    /**
+     * Put scripts in the given order, scripts not listed keep their relative order after them
+     */
+    setScriptOrder(ids: string[]): void {
+        const listed = ids.filter(id => this.scripts.has(id));
+        const rest = this.getAllScripts().filter(script => !listed.includes(script.id));
+        const ordered = [...listed.map(id => this.scripts.get(id) as UserScript), ...rest];
+
+        ordered.forEach((script, index) => {
+            if (script.position !== index) {
+                script.position = index;
+                this.emit('onScriptUpdated', script);
+            }
+        });
+    }
+
     /**
      * Move script up in the order
      */
@@ -252,10 +340,8 @@ export class ScriptManager {
             script.position--;
             
             // Trigger update events
-            if (this.eventListeners.onScriptUpdated) {
-                this.eventListeners.onScriptUpdated(script);
-                this.eventListeners.onScriptUpdated(previousScript);
-            }
+            this.emit('onScriptUpdated', script);
+            this.emit('onScriptUpdated', previousScript);
         }
     }
 
@@ -279,10 +365,8 @@ export class ScriptManager {
             script.position++;
             
             // Trigger update events
-            if (this.eventListeners.onScriptUpdated) {
-                this.eventListeners.onScriptUpdated(script);
-                this.eventListeners.onScriptUpdated(nextScript);
-            }
+            this.emit('onScriptUpdated', script);
+            this.emit('onScriptUpdated', nextScript);
         }
     }
 } 
\ No newline at end of file
@@ -1,4 +1,52 @@
-import { UserScript } from '../models/script';
+import { InjectInto, UserScript } from '../models/script';
+import { matchPatternToRegExp } from './url-matcher';
+
+/**
+ * Values accepted by @run-at
+ */
+export const RUN_AT_VALUES = ['document-start', 'document-body', 'document-end', 'document-idle', 'context-menu'];
+
+/**
+ * Values accepted by @inject-into
+ */
+export const INJECT_INTO_VALUES = ['page', 'content', 'auto'];
+
+/**
+ * Whether a value is a valid @inject-into mode
+ */
+export function isInjectInto(value: unknown): value is InjectInto {
+    return typeof value === 'string' && INJECT_INTO_VALUES.includes(value);
+}
+
+/**
+ * Metadata keys understood by userscript managers. Keys CheekyChimp does not
+ * use yet are still listed so that the editor does not flag them.
+ */
+export const METADATA_DIRECTIVES = [
+    'name', 'namespace', 'version', 'description', 'author', 'copyright', 'license',
+    'homepage', 'homepageURL', 'website', 'source', 'supportURL', 'contributionURL',
+    'icon', 'iconURL', 'defaulticon', 'icon64', 'icon64URL',
+    'updateURL', 'downloadURL', 'installURL',
+    'include', 'match', 'exclude', 'exclude-match',
+    'require', 'resource', 'grant', 'connect', 'run-at', 'noframes',
+    'sandbox', 'inject-into', 'unwrap', 'antifeature', 'tag', 'compatible', 'incompatible'
+];
+
+/**
+ * Metadata keys that take no value
+ */
+const FLAG_DIRECTIVES = ['noframes', 'unwrap'];
+
+/**
+ * A problem found in a script's metadata block
+ */
+export interface ScriptIssue {
+    /** Character offsets of the offending text */
+    from: number;
+    to: number;
+    severity: 'error' | 'warning';
+    message: string;
+}
 
 /**
  * Parses userscript metadata from script source
@@ -8,10 +56,12 @@ export class ScriptParser {
     private static readonly HEADER_END = '==/UserScript==';
 
     /**
-     * Generate a unique ID from script name
+     * Generate a stable ID from script name and namespace
+     *
+     * Like Tampermonkey, @namespace + @name identify a script, so parsing the
+     * same script again yields the same ID.
      */
-    static getScriptId(name: string): string {
-        const timestamp = Date.now().toString(36);
+    static getScriptId(name: string, namespace = ''): string {
         let nameId = '';
         const encodedName = encodeURI(name);
         const chars = encodedName.match(/[a-zA-Z0-9]/g);
@@ -23,7 +73,19 @@ export class ScriptParser {
             nameId = btoa(name).match(/[a-zA-Z0-9]/g)?.join('') || 'script';
         }
         
-        return `${nameId}_${timestamp}`;
+        return `${nameId}_${ScriptParser.hash(`${namespace}\n${name}`)}`;
+    }
+
+    /**
+     * 32-bit FNV-1a hash in base 36
+     */
+    private static hash(text: string): string {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0).toString(36);
     }
 
     /**
@@ -63,12 +125,13 @@ export class ScriptParser {
             const metaLine = trimmedLine.replace(/^\/\/\s*/, '').trim();
             if (!metaLine.startsWith('@')) continue;
             
-            // 尝试匹配元数据指令和值
-            const match = metaLine.match(/@([a-zA-Z0-9_\-]+)\s+(.*)/);
+            // 尝试匹配元数据指令和值，@noframes 等标记没有值
+            const match = metaLine.match(/@([a-zA-Z0-9_\-]+)(?:\s+(.*))?$/);
             if (!match) continue;
             
-            const [, directive, value] = match;
+            const [, directive, value = ''] = match;
             const trimmedValue = value.trim();
+            if (!trimmedValue && !FLAG_DIRECTIVES.includes(directive)) continue;
             
             // 处理各种元数据类型
             switch (directive) {
@@ -98,6 +161,13 @@ export class ScriptParser {
                 case 'defaulticon':
                     script.icon = trimmedValue;
                     break;
+                case 'updateURL':
+                    script.updateURL = trimmedValue;
+                    break;
+                case 'downloadURL':
+                case 'installURL':
+                    script.downloadURL = trimmedValue;
+                    break;
                 case 'include':
                     script.includes.push(trimmedValue);
                     break;
@@ -107,9 +177,22 @@ export class ScriptParser {
                 case 'exclude':
                     script.excludes.push(trimmedValue);
                     break;
+                case 'exclude-match':
+                    script.excludeMatches.push(trimmedValue);
+                    break;
                 case 'require':
                     script.requires.push(trimmedValue);
                     break;
+                case 'grant':
+                    if (!script.grants.includes(trimmedValue)) {
+                        script.grants.push(trimmedValue);
+                    }
+                    break;
+                case 'connect':
+                    if (!script.connects.includes(trimmedValue)) {
+                        script.connects.push(trimmedValue);
+                    }
+                    break;
                 case 'resource':
                     const resourceMatch = trimmedValue.match(/(\S+)\s+(.*)/);
                     if (resourceMatch) {
@@ -121,10 +204,18 @@ export class ScriptParser {
                     }
                     break;
                 case 'run-at':
-                    if (['document-start', 'document-end', 'document-idle'].includes(trimmedValue)) {
+                    if (RUN_AT_VALUES.includes(trimmedValue)) {
                         script.runAt = trimmedValue as any;
                     }
                     break;
+                case 'noframes':
+                    script.noframes = true;
+                    break;
+                case 'inject-into':
+                    if (isInjectInto(trimmedValue)) {
+                        script.injectInto = trimmedValue;
+                    }
+                    break;
             }
         }
         
@@ -134,9 +225,101 @@ export class ScriptParser {
             console.warn('脚本没有名称，使用默认名称');
         }
         
-        // 生成唯一ID
-        script.id = ScriptParser.getScriptId(script.name);
+        // 由名称和命名空间生成ID
+        script.id = ScriptParser.getScriptId(script.name, script.namespace);
         
         return script;
     }
-} 
\ No newline at end of file
+
+    /**
+     * Check the metadata block and report problems with their position,
+     * used by the script editor to show inline errors
+     */
+    static validate(source: string): ScriptIssue[] {
+        const issues: ScriptIssue[] = [];
+        const headerStartIndex = source.indexOf(this.HEADER_START);
+        const headerEndIndex = source.indexOf(this.HEADER_END);
+
+        if (headerStartIndex === -1 || headerEndIndex === -1 || headerEndIndex <= headerStartIndex) {
+            const firstLineEnd = source.indexOf('\n');
+            issues.push({
+                from: 0,
+                to: firstLineEnd === -1 ? source.length : firstLineEnd,
+                severity: 'error',
+                message: '缺少 // ==UserScript== ... // ==/UserScript== 元数据块'
+            });
+            return issues;
+        }
+
+        let offset = headerStartIndex + this.HEADER_START.length;
+        const lines = source.substring(offset, headerEndIndex).split('\n');
+        let nameFound = false;
+
+        for (const line of lines) {
+            const lineStart = offset;
+            offset += line.length + 1;
+
+            const match = line.match(/^(\s*\/\/\s*)@([a-zA-Z0-9_\-]+)(:\S+)?(?:\s+(.*?))?\s*$/);
+            if (!match) continue;
+
+            const [, prefix, directive, , rawValue] = match;
+            const value = rawValue || '';
+            const issue = (severity: ScriptIssue['severity'], message: string) => issues.push({
+                from: lineStart + prefix.length,
+                to: lineStart + line.replace(/\s+$/, '').length,
+                severity,
+                message
+            });
+
+            if (!METADATA_DIRECTIVES.includes(directive)) {
+                issue('warning', `未知的元数据 @${directive}`);
+                continue;
+            }
+
+            if (!value) {
+                if (!FLAG_DIRECTIVES.includes(directive)) {
+                    issue('warning', `@${directive} 缺少值`);
+                }
+                continue;
+            }
+
+            switch (directive) {
+                case 'name':
+                    nameFound = true;
+                    break;
+                case 'run-at':
+                    if (!RUN_AT_VALUES.includes(value)) {
+                        issue('error', `@run-at 只能是 ${RUN_AT_VALUES.join('、')}`);
+                    }
+                    break;
+                case 'inject-into':
+                    if (!INJECT_INTO_VALUES.includes(value)) {
+                        issue('error', `@inject-into 只能是 ${INJECT_INTO_VALUES.join('、')}`);
+                    }
+                    break;
+                case 'match':
+                case 'exclude-match':
+                    if (!matchPatternToRegExp(value)) {
+                        issue('error', `无效的匹配模式: ${value}`);
+                    }
+                    break;
+                case 'resource':
+                    if (!/^\S+\s+\S+/.test(value)) {
+                        issue('error', '@resource 需要名称和地址');
+                    }
+                    break;
+            }
+        }
+
+        if (!nameFound) {
+            issues.push({
+                from: headerStartIndex,
+                to: headerStartIndex + this.HEADER_START.length,
+                severity: 'warning',
+                message: '缺少 @name，将使用"未命名脚本"'
+            });
+        }
+
+        return issues;
+    }
+}
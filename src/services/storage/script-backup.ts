@@ -0,0 +1,307 @@
+import JSZip from 'jszip';
+import { InjectInto } from '../../models/script';
+import type { CheekyChimpSettings } from '../../ui/settings-tab';
+import { ConnectDecisions } from '../connect-permissions';
+import { USER_SCRIPT_EXTENSION } from '../script-folder-sync';
+import { isInjectInto, ScriptParser } from '../script-parser';
+import { base64ToUtf8 } from '../utils/base64';
+
+/**
+ * 备份中插件设置的文件名，Tampermonkey 导入时会忽略它
+ */
+const SETTINGS_FILE = 'CheekyChimp.settings.json';
+const OPTIONS_EXTENSION = '.options.json';
+const STORAGE_EXTENSION = '.storage.json';
+
+/**
+ * Violentmonkey 备份中保存脚本设置和存储值的文件
+ */
+const VIOLENTMONKEY_FILE = 'violentmonkey';
+
+/**
+ * 备份中的一个脚本
+ */
+export interface BackupScript {
+    source: string;
+    enabled: boolean;
+    /** 脚本的执行顺序 */
+    position: number;
+    /** 脚本的存储值 */
+    values: Record<string, any>;
+    /** 最后修改时间 */
+    modified: number;
+    /** 对未声明 @connect 主机的连接决定，Tampermonkey 的备份中没有 */
+    connectDecisions?: ConnectDecisions;
+    /** 通知是否被静音，Tampermonkey 的备份中没有 */
+    notificationsMuted?: boolean;
+    /** 用户为脚本选择的注入模式，Tampermonkey 的备份中没有 */
+    injectIntoOverride?: InjectInto;
+}
+
+export interface Backup {
+    scripts: BackupScript[];
+    /** 插件设置（不含脚本），Tampermonkey 的备份中没有 */
+    settings?: Partial<CheekyChimpSettings>;
+}
+
+/**
+ * 生成备份压缩包
+ *
+ * 布局与 Tampermonkey 的 zip 备份相同：每个脚本一个 `<名称>.user.js`，启用状态和顺序保存在
+ * `<名称>.options.json`，存储值保存在 `<名称>.storage.json`。CheekyChimp 特有的数据放在
+ * options.json 的 cheekychimp 字段和单独的设置文件中，Tampermonkey 导入时会忽略。
+ */
+export async function writeBackup(backup: Backup): Promise<Blob> {
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+
+    backup.scripts.forEach(script => {
+        const meta = ScriptParser.parseScript(script.source);
+        const baseName = getFileName(meta.name || 'script', usedNames);
+
+        zip.file(`${baseName}${USER_SCRIPT_EXTENSION}`, script.source);
+        zip.file(`${baseName}${OPTIONS_EXTENSION}`, JSON.stringify({
+            settings: { enabled: script.enabled, position: script.position },
+            meta: { name: meta.name, namespace: meta.namespace, modified: script.modified },
+            options: {},
+            cheekychimp: {
+                connectDecisions: script.connectDecisions,
+                notificationsMuted: !!script.notificationsMuted,
+                injectIntoOverride: script.injectIntoOverride
+            }
+        }, null, 2));
+        zip.file(`${baseName}${STORAGE_EXTENSION}`, JSON.stringify({
+            ts: script.modified,
+            data: script.values
+        }, null, 2));
+    });
+
+    if (backup.settings) {
+        zip.file(SETTINGS_FILE, JSON.stringify(backup.settings, null, 2));
+    }
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/**
+ * 读取 CheekyChimp、Tampermonkey 或 Violentmonkey 的备份压缩包
+ * @throws Error 不是有效的压缩包或其中没有脚本时
+ */
+export async function readBackup(data: Blob | ArrayBuffer): Promise<Backup> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch (error) {
+        throw new Error(`无法读取备份文件: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const scripts: BackupScript[] = [];
+    const scriptFiles = zip.file(/\.user\.js$/i).filter(file => !file.dir);
+
+    const violentmonkey = await readJson(zip, VIOLENTMONKEY_FILE);
+    if (isObject(violentmonkey)) {
+        return readViolentmonkeyBackup(scriptFiles, violentmonkey);
+    }
+
+    for (const [index, file] of scriptFiles.entries()) {
+        const baseName = file.name.slice(0, -USER_SCRIPT_EXTENSION.length);
+        const options = await readJson(zip, `${baseName}${OPTIONS_EXTENSION}`);
+        const storage = await readJson(zip, `${baseName}${STORAGE_EXTENSION}`);
+        const extra = options?.cheekychimp || {};
+
+        scripts.push({
+            source: await file.async('string'),
+            enabled: options?.settings?.enabled !== false,
+            position: typeof options?.settings?.position === 'number' ? options.settings.position : index,
+            values: isObject(storage?.data) ? storage.data : {},
+            modified: options?.meta?.modified || file.date.getTime(),
+            connectDecisions: extra.connectDecisions,
+            notificationsMuted: !!extra.notificationsMuted,
+            injectIntoOverride: toInjectInto(extra.injectIntoOverride)
+        });
+    }
+
+    const settings = await readJson(zip, SETTINGS_FILE);
+    if (scripts.length === 0 && !settings) {
+        throw new Error('备份中没有找到脚本');
+    }
+
+    scripts.sort((a, b) => a.position - b.position);
+    return { scripts, settings: isObject(settings) ? settings : undefined };
+}
+
+/**
+ * 读取 Tampermonkey 导出的 .txt 文件
+ *
+ * 文件内容为 JSON，scripts 中的每一项包含脚本源码（Base64 编码）、启用状态、顺序和存储值。
+ * @throws Error 不是 Tampermonkey 的导出文件或其中没有脚本时
+ */
+export function readTampermonkeyExport(text: string): Backup {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error('不是有效的 Tampermonkey 导出文件');
+    }
+    if (!isObject(data) || !Array.isArray(data.scripts)) {
+        throw new Error('不是有效的 Tampermonkey 导出文件');
+    }
+
+    const scripts: BackupScript[] = [];
+    data.scripts.forEach((item: any, index: number) => {
+        const source = decodeTampermonkeySource(item?.source);
+        if (!source) {
+            return;
+        }
+
+        scripts.push({
+            source,
+            enabled: item.enabled !== false,
+            position: typeof item.position === 'number' ? item.position : index,
+            values: isObject(item.storage?.data) ? item.storage.data : {},
+            modified: item.meta?.modified || item.storage?.ts || Date.now()
+        });
+    });
+
+    if (scripts.length === 0) {
+        throw new Error('导出文件中没有找到脚本');
+    }
+
+    scripts.sort((a, b) => a.position - b.position);
+    return { scripts };
+}
+
+/**
+ * Tampermonkey 导出的源码通常是 Base64 编码的，旧版本直接保存源码
+ */
+function decodeTampermonkeySource(source: any): string {
+    if (typeof source !== 'string') {
+        return '';
+    }
+    if (source.includes('==UserScript==')) {
+        return source;
+    }
+
+    try {
+        const decoded = base64ToUtf8(source);
+        return decoded.includes('==UserScript==') ? decoded : '';
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * 读取 Violentmonkey 的备份
+ *
+ * 脚本设置按 .user.js 的文件名保存在 violentmonkey 文件的 scripts 中，
+ * 存储值按脚本的 URI（由 @namespace 和 @name 组成）保存在 values 中。
+ */
+async function readViolentmonkeyBackup(scriptFiles: JSZip.JSZipObject[], data: Record<string, any>): Promise<Backup> {
+    const configs = isObject(data.scripts) ? data.scripts : {};
+    const values = isObject(data.values) ? data.values : {};
+    const scripts: BackupScript[] = [];
+
+    for (const [index, file] of scriptFiles.entries()) {
+        const source = await file.async('string');
+        const config = configs[file.name.slice(0, -USER_SCRIPT_EXTENSION.length)] || {};
+        const meta = ScriptParser.parseScript(source);
+        const stored = values[getViolentmonkeyUri(meta.name, meta.namespace)];
+
+        const decoded: Record<string, any> = {};
+        if (isObject(stored)) {
+            Object.keys(stored).forEach(key => {
+                decoded[key] = decodeViolentmonkeyValue(stored[key]);
+            });
+        }
+
+        scripts.push({
+            source,
+            enabled: config.config?.enabled !== 0 && config.config?.enabled !== false,
+            position: typeof config.position === 'number' ? config.position : index,
+            values: decoded,
+            modified: config.props?.lastModified || config.lastModified || file.date.getTime(),
+            injectIntoOverride: toInjectInto(config.custom?.injectInto)
+        });
+    }
+
+    if (scripts.length === 0) {
+        throw new Error('备份中没有找到脚本');
+    }
+
+    scripts.sort((a, b) => a.position - b.position);
+    return { scripts };
+}
+
+/**
+ * 备份中的注入模式，不是有效的模式时返回 undefined
+ */
+function toInjectInto(value: any): InjectInto | undefined {
+    return isInjectInto(value) ? value : undefined;
+}
+
+/**
+ * Violentmonkey 用来标识脚本的 URI
+ */
+function getViolentmonkeyUri(name: string, namespace: string): string {
+    return `${escape(namespace)}:${escape(name)}:`;
+}
+
+/**
+ * Violentmonkey 保存的值以类型字母开头：s 字符串、n 数字、b 布尔值、o JSON
+ */
+function decodeViolentmonkeyValue(raw: any): any {
+    if (typeof raw !== 'string' || raw.length === 0) {
+        return raw;
+    }
+
+    const value = raw.slice(1);
+    switch (raw[0]) {
+        case 's':
+            return value;
+        case 'n':
+            return Number(value);
+        case 'b':
+            return value === 'true';
+        case 'o':
+            try {
+                return JSON.parse(value);
+            } catch {
+                return raw;
+            }
+        default:
+            return raw;
+    }
+}
+
+/**
+ * 读取压缩包中的 JSON 文件，文件不存在或格式错误时返回 undefined
+ */
+async function readJson(zip: JSZip, path: string): Promise<any> {
+    const file = zip.file(path);
+    if (!file) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(await file.async('string'));
+    } catch {
+        return undefined;
+    }
+}
+
+function isObject(value: any): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 把脚本名称转换为可用的文件名，重名时加上序号
+ */
+function getFileName(name: string, usedNames: Set<string>): string {
+    const base = name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'script';
+    let candidate = base;
+    for (let i = 2; usedNames.has(candidate.toLowerCase()); i++) {
+        candidate = `${base} (${i})`;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+}
@@ -0,0 +1,100 @@
+import { DataAdapter } from 'obsidian';
+import { UserScript } from '../../models/script';
+import { Logger } from '../logging/logger';
+import { ScriptChangeOrigin } from '../script-manager';
+import { ScriptJsonFiles, ScriptWriteQueue } from './script-json-files';
+
+/**
+ * 历史中保存的一个脚本版本
+ */
+export interface ScriptVersion {
+    /** 版本编号，同一脚本内递增 */
+    id: number;
+    source: string;
+    /** 保存时脚本的 @version */
+    version: string;
+    savedAt: number;
+    /** 改动来源，'initial' 表示开始记录历史之前的版本 */
+    origin: ScriptChangeOrigin | 'initial';
+}
+
+/**
+ * 按脚本保存最近的若干个版本，每个脚本一个 JSON 文件
+ *
+ * 文件内容为 { "versions": [...] }，按保存时间从旧到新排列，最后一个是当前版本。
+ */
+export class ScriptHistory {
+    private logger = new Logger('ScriptHistory');
+    private files: ScriptJsonFiles<{ versions?: ScriptVersion[] }>;
+    private writes = new ScriptWriteQueue();
+
+    /**
+     * @param adapter 库的文件适配器
+     * @param dir 存放历史文件的目录，通常是 `<插件目录>/history`
+     * @param getLimit 读取每个脚本保留的版本数，0 表示不记录历史
+     */
+    constructor(
+        adapter: DataAdapter,
+        dir: string,
+        private getLimit: () => number
+    ) {
+        this.files = new ScriptJsonFiles(adapter, dir, '历史');
+    }
+
+    /**
+     * 获取脚本的全部历史版本，从旧到新
+     */
+    async list(scriptId: string): Promise<ScriptVersion[]> {
+        const versions = (await this.files.read(scriptId))?.versions;
+        return Array.isArray(versions) ? versions : [];
+    }
+
+    /**
+     * 记录脚本的新版本，与最新版本相同时不记录
+     * @param previousSource 改动前的源码，历史为空时作为最初的版本保存
+     */
+    record(script: UserScript, origin: ScriptChangeOrigin, previousSource?: string): Promise<void> {
+        return this.enqueue(script.id, async () => {
+            const limit = this.getLimit();
+            if (limit <= 0) {
+                return;
+            }
+
+            const versions = await this.list(script.id);
+            if (versions.length === 0 && previousSource !== undefined && previousSource !== script.source) {
+                versions.push({ id: 1, source: previousSource, version: '', savedAt: 0, origin: 'initial' });
+            }
+
+            const latest = versions[versions.length - 1];
+            if (latest && latest.source === script.source) {
+                return;
+            }
+
+            versions.push({
+                id: latest ? latest.id + 1 : 1,
+                source: script.source,
+                version: script.version,
+                savedAt: Date.now(),
+                origin
+            });
+
+            await this.files.write(script.id, { versions: versions.slice(-limit) });
+        });
+    }
+
+    /**
+     * 删除脚本的全部历史，脚本被删除时调用
+     */
+    remove(scriptId: string): Promise<void> {
+        return this.enqueue(scriptId, () => this.files.remove(scriptId));
+    }
+
+    /**
+     * 同一脚本的历史按顺序读写，失败时只记录日志，不影响脚本本身的修改
+     */
+    private enqueue(scriptId: string, task: () => Promise<void>): Promise<void> {
+        return this.writes.enqueue(scriptId, task).catch(error => {
+            this.logger.error(`更新脚本 ${scriptId} 的历史失败`, error);
+        });
+    }
+}
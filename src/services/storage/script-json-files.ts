@@ -0,0 +1,103 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { StorageError } from '../error/error-types';
+
+/**
+ * 按脚本顺序执行的写入队列
+ *
+ * 同一脚本的任务在前一个任务结束（无论成功与否）后才开始，不同脚本之间互不等待。
+ */
+export class ScriptWriteQueue {
+    private writes = new Map<string, Promise<void>>();
+
+    /**
+     * 把任务排到脚本的队列末尾，返回的 Promise 在任务完成时兑现，任务失败时拒绝
+     */
+    enqueue(scriptId: string, task: () => Promise<void>): Promise<void> {
+        const previous = this.writes.get(scriptId) || Promise.resolve();
+        const next = previous.then(task, task);
+        this.writes.set(scriptId, next);
+
+        const cleanup = () => {
+            if (this.writes.get(scriptId) === next) {
+                this.writes.delete(scriptId);
+            }
+        };
+        next.then(cleanup, cleanup);
+        return next;
+    }
+}
+
+/**
+ * 插件目录下每个脚本一个 JSON 文件，文件名是编码后的脚本ID
+ *
+ * 只负责文件的读写，文件内容的结构由使用者决定。
+ */
+export class ScriptJsonFiles<T> {
+    /**
+     * @param adapter 库的文件适配器
+     * @param dir 存放文件的目录
+     * @param label 文件内容的名称，用于错误信息，例如「存储文件」
+     */
+    constructor(private adapter: DataAdapter, private dir: string, private label: string) {}
+
+    /**
+     * 读取脚本的文件，文件不存在时返回 undefined
+     * @throws StorageError 读取失败或内容不是有效的 JSON 时
+     */
+    async read(scriptId: string): Promise<T | undefined> {
+        const path = this.getPath(scriptId);
+        if (!(await this.adapter.exists(path))) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(await this.adapter.read(path));
+        } catch (error) {
+            throw new StorageError('load', `读取脚本 ${scriptId} 的${this.label}失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 写入脚本的文件，目录不存在时自动创建
+     * @throws StorageError 写入失败时
+     */
+    async write(scriptId: string, data: T): Promise<void> {
+        try {
+            if (!(await this.adapter.exists(this.dir))) {
+                await this.adapter.mkdir(this.dir);
+            }
+            await this.adapter.write(this.getPath(scriptId), JSON.stringify(data, null, 2));
+        } catch (error) {
+            throw new StorageError('save', `保存脚本 ${scriptId} 的${this.label}失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async remove(scriptId: string): Promise<void> {
+        const path = this.getPath(scriptId);
+        if (await this.adapter.exists(path)) {
+            await this.adapter.remove(path);
+        }
+    }
+
+    /**
+     * 列出有文件的脚本ID
+     */
+    async list(): Promise<string[]> {
+        if (!(await this.adapter.exists(this.dir))) {
+            return [];
+        }
+
+        const listed = await this.adapter.list(this.dir);
+        return listed.files
+            .map(file => file.substring(file.lastIndexOf('/') + 1))
+            .filter(name => name.endsWith('.json'))
+            .map(name => decodeURIComponent(name.slice(0, -'.json'.length)));
+    }
+
+    /**
+     * 脚本文件的路径，脚本ID中不能用作文件名的字符会被编码
+     */
+    getPath(scriptId: string): string {
+        return normalizePath(`${this.dir}/${encodeURIComponent(scriptId)}.json`);
+    }
+}
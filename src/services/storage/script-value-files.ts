@@ -0,0 +1,43 @@
+import { DataAdapter } from 'obsidian';
+import { ScriptJsonFiles } from './script-json-files';
+import { ValueStoreBackend } from './value-store';
+
+/**
+ * 把脚本的存储值保存为插件目录下的 JSON 文件，每个脚本一个文件
+ *
+ * 文件内容为 { "values": { 键: 值 } }，方便以后增加其他字段。
+ */
+export class ScriptValueFiles implements ValueStoreBackend {
+    private files: ScriptJsonFiles<{ values?: Record<string, any> }>;
+
+    /**
+     * @param adapter 库的文件适配器
+     * @param dir 存放存储文件的目录，通常是 `<插件目录>/storage`
+     */
+    constructor(adapter: DataAdapter, dir: string) {
+        this.files = new ScriptJsonFiles(adapter, dir, '存储文件');
+    }
+
+    async load(scriptId: string): Promise<Record<string, any>> {
+        const data = await this.files.read(scriptId);
+        return data && typeof data.values === 'object' && data.values !== null ? data.values : {};
+    }
+
+    async save(scriptId: string, values: Record<string, any>): Promise<void> {
+        if (Object.keys(values).length === 0) {
+            return this.remove(scriptId);
+        }
+        await this.files.write(scriptId, { values });
+    }
+
+    remove(scriptId: string): Promise<void> {
+        return this.files.remove(scriptId);
+    }
+
+    /**
+     * 列出有存储文件的脚本ID
+     */
+    list(): Promise<string[]> {
+        return this.files.list();
+    }
+}
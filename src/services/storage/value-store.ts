@@ -0,0 +1,319 @@
+import { StorageError } from '../error/error-types';
+import { Logger } from '../logging/logger';
+import { ScriptWriteQueue } from './script-json-files';
+
+/**
+ * 一次存储值的变化
+ */
+export interface ValueChange {
+    scriptId: string;
+    name: string;
+    /** 变化前的值，新增时为 undefined */
+    oldValue: any;
+    /** 变化后的值，删除时为 undefined */
+    newValue: any;
+}
+
+/**
+ * 值变化监听函数
+ * @param source 发起修改的 webview/iframe，插件侧修改时为 undefined
+ */
+export type ValueChangeListener = (change: ValueChange, source?: HTMLElement) => void;
+
+/**
+ * 存储值的持久化方式，按脚本读写全部值
+ */
+export interface ValueStoreBackend {
+    load(scriptId: string): Promise<Record<string, any>>;
+    save(scriptId: string, values: Record<string, any>): Promise<void>;
+    remove(scriptId: string): Promise<void>;
+    /** 列出有存储值的脚本ID */
+    list(): Promise<string[]>;
+}
+
+/**
+ * 存储配额，按值的 JSON 序列化后的 UTF-8 字节数计算，0 表示不限制
+ */
+export interface StorageQuota {
+    /** 单个脚本全部值的总大小 */
+    maxScriptBytes: number;
+    /** 单个值的大小 */
+    maxValueBytes: number;
+}
+
+/**
+ * 插件侧的脚本存储值
+ *
+ * 所有页面中的 GM_setValue/GM_deleteValue 都写到这里，值保存在内存中并按脚本持久化，
+ * 每次变化都会通知监听者，由插件广播给运行同一脚本的其他页面。超出配额的修改以 StorageError 拒绝。
+ * 值在保存时按 JSON 复制，读取方拿到的是副本。
+ */
+export class ValueStore {
+    private logger = new Logger('ValueStore');
+    private cache = new Map<string, Record<string, any>>();
+    private loading = new Map<string, Promise<Record<string, any>>>();
+    private writes = new ScriptWriteQueue();
+    private listeners: ValueChangeListener[] = [];
+
+    /**
+     * @param getQuota 读取当前的存储配额，未提供时不限制
+     */
+    constructor(
+        private backend: ValueStoreBackend,
+        private getQuota: () => StorageQuota = () => ({ maxScriptBytes: 0, maxValueBytes: 0 })
+    ) {}
+
+    /**
+     * 获取脚本全部值的副本，用于注入页面时的初始快照
+     */
+    async getValues(scriptId: string): Promise<Record<string, any>> {
+        return cloneValue(await this.load(scriptId));
+    }
+
+    async get(scriptId: string, name: string, defaultValue?: any): Promise<any> {
+        const values = await this.load(scriptId);
+        return Object.prototype.hasOwnProperty.call(values, name) ? cloneValue(values[name]) : defaultValue;
+    }
+
+    /**
+     * 设置值，值为 undefined 时等同于删除
+     * @param source 发起修改的 webview/iframe
+     * @throws StorageError 超出存储配额时
+     */
+    async set(scriptId: string, name: string, value: any, source?: HTMLElement): Promise<void> {
+        return this.setMany(scriptId, { [name]: value }, source);
+    }
+
+    /**
+     * 一次设置多个值，任何一个值超出配额时都不会修改
+     * @param source 发起修改的 webview/iframe
+     * @throws StorageError 超出存储配额时
+     */
+    async setMany(scriptId: string, entries: Record<string, any>, source?: HTMLElement): Promise<void> {
+        const values = await this.load(scriptId);
+        const next = { ...values };
+
+        Object.keys(entries).forEach(name => {
+            if (entries[name] === undefined) {
+                delete next[name];
+            } else {
+                next[name] = cloneValue(entries[name]);
+            }
+        });
+
+        this.checkQuota(scriptId, next, Object.keys(entries));
+        await this.apply(scriptId, values, next, source);
+    }
+
+    /**
+     * 删除值
+     * @param source 发起修改的 webview/iframe
+     */
+    async delete(scriptId: string, name: string, source?: HTMLElement): Promise<void> {
+        return this.deleteMany(scriptId, [name], source);
+    }
+
+    /**
+     * 一次删除多个值
+     * @param source 发起修改的 webview/iframe
+     */
+    async deleteMany(scriptId: string, names: string[], source?: HTMLElement): Promise<void> {
+        const values = await this.load(scriptId);
+        const next = { ...values };
+        names.forEach(name => {
+            delete next[name];
+        });
+        await this.apply(scriptId, values, next, source);
+    }
+
+    /**
+     * 获取多个值，不存在的键使用 defaults 中的默认值，没有默认值时不出现在结果中
+     */
+    async getMany(scriptId: string, names: string[], defaults: Record<string, any> = {}): Promise<Record<string, any>> {
+        const values = await this.load(scriptId);
+        const result: Record<string, any> = {};
+        names.forEach(name => {
+            if (Object.prototype.hasOwnProperty.call(values, name)) {
+                result[name] = cloneValue(values[name]);
+            } else if (defaults[name] !== undefined) {
+                result[name] = defaults[name];
+            }
+        });
+        return result;
+    }
+
+    async list(scriptId: string): Promise<string[]> {
+        return Object.keys(await this.load(scriptId));
+    }
+
+    /**
+     * 获取脚本当前值的总大小（字节）
+     */
+    async getSize(scriptId: string): Promise<number> {
+        return byteLength(JSON.stringify(await this.load(scriptId)));
+    }
+
+    /**
+     * 列出有存储值的脚本ID
+     */
+    async listScripts(): Promise<string[]> {
+        const stored = await this.backend.list();
+        const ids = new Set(stored);
+        this.cache.forEach((values, scriptId) => {
+            if (Object.keys(values).length > 0) {
+                ids.add(scriptId);
+            } else {
+                ids.delete(scriptId);
+            }
+        });
+        return Array.from(ids);
+    }
+
+    /**
+     * 删除脚本的全部值，脚本被删除时调用
+     */
+    async clear(scriptId: string): Promise<void> {
+        this.cache.delete(scriptId);
+        this.loading.delete(scriptId);
+        await this.writes.enqueue(scriptId, () => this.backend.remove(scriptId));
+    }
+
+    /**
+     * 监听值的变化
+     * @returns 取消监听的函数
+     */
+    onChange(listener: ValueChangeListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(item => item !== listener);
+        };
+    }
+
+    /**
+     * 把 next 作为脚本的新值，通知每个变化的键并保存
+     */
+    private async apply(scriptId: string, values: Record<string, any>, next: Record<string, any>, source?: HTMLElement): Promise<void> {
+        const changes: ValueChange[] = [];
+        const names = new Set([...Object.keys(values), ...Object.keys(next)]);
+        names.forEach(name => {
+            const oldValue = values[name];
+            const newValue = next[name];
+            const existed = Object.prototype.hasOwnProperty.call(values, name);
+            const exists = Object.prototype.hasOwnProperty.call(next, name);
+            if (existed !== exists || !isSameValue(oldValue, newValue)) {
+                changes.push({ scriptId, name, oldValue: cloneValue(oldValue), newValue: cloneValue(newValue) });
+            }
+        });
+
+        if (changes.length === 0) {
+            return;
+        }
+
+        // 就地修改缓存对象，保证并发读取拿到同一份数据
+        changes.forEach(change => {
+            if (Object.prototype.hasOwnProperty.call(next, change.name)) {
+                values[change.name] = next[change.name];
+            } else {
+                delete values[change.name];
+            }
+        });
+        changes.forEach(change => this.emit(change, source));
+        await this.persist(scriptId);
+    }
+
+    /**
+     * 检查新值是否超出配额
+     * @param changed 本次修改的键，只检查这些键的单值大小
+     */
+    private checkQuota(scriptId: string, next: Record<string, any>, changed: string[]): void {
+        const quota = this.getQuota();
+
+        if (quota.maxValueBytes > 0) {
+            changed.forEach(name => {
+                if (next[name] === undefined) {
+                    return;
+                }
+                const size = byteLength(JSON.stringify(next[name]));
+                if (size > quota.maxValueBytes) {
+                    throw new StorageError('set', `值 "${name}" 的大小 ${formatBytes(size)} 超过单个值的配额 ${formatBytes(quota.maxValueBytes)}`);
+                }
+            });
+        }
+
+        if (quota.maxScriptBytes > 0) {
+            const size = byteLength(JSON.stringify(next));
+            if (size > quota.maxScriptBytes) {
+                throw new StorageError('set', `脚本 ${scriptId} 的存储大小 ${formatBytes(size)} 超过配额 ${formatBytes(quota.maxScriptBytes)}`);
+            }
+        }
+    }
+
+    private load(scriptId: string): Promise<Record<string, any>> {
+        const cached = this.cache.get(scriptId);
+        if (cached) {
+            return Promise.resolve(cached);
+        }
+
+        let pending = this.loading.get(scriptId);
+        if (!pending) {
+            pending = this.backend.load(scriptId).then(values => {
+                const loaded = values || {};
+                this.cache.set(scriptId, loaded);
+                this.loading.delete(scriptId);
+                return loaded;
+            }, error => {
+                this.loading.delete(scriptId);
+                this.logger.error(`读取脚本 ${scriptId} 的存储值失败`, error);
+                throw error;
+            });
+            this.loading.set(scriptId, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * 保存脚本当前的值，同一脚本的写入按顺序执行
+     */
+    private persist(scriptId: string): Promise<void> {
+        return this.writes.enqueue(scriptId, () => {
+            const values = this.cache.get(scriptId);
+            return values ? this.backend.save(scriptId, values) : Promise.resolve();
+        });
+    }
+
+    private emit(change: ValueChange, source?: HTMLElement): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(change, source);
+            } catch (error) {
+                this.logger.error('存储值变化回调出错', error);
+            }
+        });
+    }
+}
+
+function cloneValue<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isSameValue(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function byteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+/**
+ * 值按 JSON 序列化后的大小（字节），与配额的计算方式一致
+ */
+export function getValueSize(value: any): number {
+    return value === undefined ? 0 : byteLength(JSON.stringify(value));
+}
+
+/**
+ * 把字节数格式化为便于阅读的文本
+ */
+export function formatBytes(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
@@ -0,0 +1,270 @@
+import { App, EventRef, WorkspaceLeaf, WorkspaceSplit } from 'obsidian';
+import { Logger } from './logging/logger';
+
+/**
+ * Obsidian 内置网页浏览器的视图类型
+ */
+export const WEB_VIEWER_VIEW_TYPE = 'webviewer';
+
+/**
+ * GM_openInTab 的选项
+ */
+export interface OpenInTabOptions {
+    /** 打开后切换到新标签页 */
+    active?: boolean;
+    /** 在当前标签页之后插入，否则追加到标签组末尾 */
+    insert?: boolean;
+    /** 关闭新标签页时回到打开它的标签页 */
+    setParent?: boolean;
+}
+
+/**
+ * 已打开标签页的句柄
+ */
+export interface TabHandle {
+    id: string;
+    readonly closed: boolean;
+    close(): void;
+    /** 标签页关闭时调用 */
+    onClose(callback: () => void): void;
+}
+
+/**
+ * GM_openInTab 返回给脚本的句柄
+ */
+export interface GMTabHandle {
+    close(): void;
+    readonly closed: boolean;
+    onclose: (() => void) | null;
+}
+
+interface TrackedTab {
+    leaf: WorkspaceLeaf | null;
+    opener: WorkspaceLeaf | null;
+    setParent: boolean;
+    closed: boolean;
+    listeners: (() => void)[];
+}
+
+/**
+ * 把 GM_openInTab 的参数统一为选项对象
+ *
+ * 布尔参数表示 loadInBackground；未指定 active 时在后台打开，未指定 insert 时插入到当前标签页之后
+ */
+export function normalizeOpenInTabOptions(options?: OpenInTabOptions | boolean): Required<OpenInTabOptions> {
+    if (typeof options === 'boolean') {
+        return { active: !options, insert: true, setParent: false };
+    }
+    return {
+        active: !!options?.active,
+        insert: options?.insert !== false,
+        setParent: !!options?.setParent
+    };
+}
+
+/**
+ * 把标签页句柄转换为 Tampermonkey 形式的句柄
+ */
+export function toGMTabHandle(handle: TabHandle): GMTabHandle {
+    const gmHandle: GMTabHandle = {
+        close: () => handle.close(),
+        get closed() {
+            return handle.closed;
+        },
+        onclose: null
+    };
+    handle.onClose(() => {
+        if (typeof gmHandle.onclose === 'function') {
+            gmHandle.onclose();
+        }
+    });
+    return gmHandle;
+}
+
+/**
+ * 在 Obsidian 内置网页浏览器的新标签页中打开链接
+ *
+ * 内置网页浏览器未启用时使用系统浏览器打开，此时返回的句柄立即处于关闭状态。
+ */
+export class TabService {
+    private logger = new Logger('TabService');
+    private tabs = new Map<string, TrackedTab>();
+    private layoutRef: EventRef;
+    private nextId = 1;
+
+    constructor(private app: App) {
+        this.layoutRef = this.app.workspace.on('layout-change', () => this.checkClosedTabs());
+    }
+
+    /**
+     * 打开链接
+     * @param url 要打开的地址，只支持 http/https
+     * @param options 打开选项
+     * @param openerElement 发起请求的 webview/iframe，用于确定插入位置和 setParent
+     */
+    open(url: string, options: OpenInTabOptions | boolean | undefined, openerElement?: HTMLElement): TabHandle {
+        const normalized = normalizeOpenInTabOptions(options);
+        const id = String(this.nextId++);
+        const tab: TrackedTab = {
+            leaf: null,
+            opener: openerElement ? this.findLeafOf(openerElement) : null,
+            setParent: normalized.setParent,
+            closed: false,
+            listeners: []
+        };
+        this.tabs.set(id, tab);
+
+        const handle: TabHandle = {
+            id,
+            get closed() {
+                return tab.closed;
+            },
+            close: () => this.close(id),
+            onClose: (callback: () => void) => {
+                if (tab.closed) {
+                    callback();
+                } else {
+                    tab.listeners.push(callback);
+                }
+            }
+        };
+
+        if (!/^https?:\/\//i.test(url)) {
+            this.logger.warn(`不支持在标签页中打开: ${url}`);
+            this.markClosed(id);
+            return handle;
+        }
+
+        this.openLeaf(url, normalized, tab.opener)
+            .then(leaf => {
+                if (!leaf) {
+                    window.open(url, '_blank');
+                    this.markClosed(id);
+                    return;
+                }
+                tab.leaf = leaf;
+                // 句柄在打开完成前已被关闭
+                if (tab.closed) {
+                    leaf.detach();
+                }
+            })
+            .catch(error => {
+                this.logger.error(`打开标签页失败: ${url}`, error);
+                this.markClosed(id);
+            });
+
+        return handle;
+    }
+
+    /**
+     * 关闭标签页
+     */
+    close(id: string): void {
+        const tab = this.tabs.get(id);
+        if (!tab || tab.closed) {
+            return;
+        }
+
+        if (tab.leaf) {
+            // detach 会触发 layout-change，由 checkClosedTabs 处理后续
+            tab.leaf.detach();
+            this.checkClosedTabs();
+        } else {
+            this.markClosed(id);
+        }
+    }
+
+    /**
+     * 停止跟踪所有标签页，插件卸载时调用
+     */
+    destroy(): void {
+        this.app.workspace.offref(this.layoutRef);
+        this.tabs.clear();
+    }
+
+    /**
+     * 创建新的叶子并加载内置网页浏览器，浏览器不可用时返回 null
+     */
+    private async openLeaf(url: string, options: Required<OpenInTabOptions>, opener: WorkspaceLeaf | null): Promise<WorkspaceLeaf | null> {
+        const workspace = this.app.workspace;
+        let leaf: WorkspaceLeaf;
+
+        const parent = opener ? (opener.parent as unknown as { children?: WorkspaceLeaf[] }) : null;
+        if (opener && parent && Array.isArray(parent.children)) {
+            const index = options.insert ? parent.children.indexOf(opener) + 1 : parent.children.length;
+            leaf = workspace.createLeafInParent(opener.parent as unknown as WorkspaceSplit, index);
+        } else {
+            leaf = workspace.getLeaf('tab');
+        }
+
+        await leaf.setViewState({
+            type: WEB_VIEWER_VIEW_TYPE,
+            active: options.active,
+            state: { url, navigate: true }
+        });
+
+        if (leaf.view.getViewType() !== WEB_VIEWER_VIEW_TYPE) {
+            this.logger.warn('内置网页浏览器未启用，改用系统浏览器打开');
+            leaf.detach();
+            return null;
+        }
+
+        if (options.active) {
+            workspace.setActiveLeaf(leaf, { focus: true });
+        }
+        return leaf;
+    }
+
+    /**
+     * 找到包含指定元素的叶子
+     */
+    findLeafOf(element: HTMLElement): WorkspaceLeaf | null {
+        let found: WorkspaceLeaf | null = null;
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (!found && leaf.view.containerEl.contains(element)) {
+                found = leaf;
+            }
+        });
+        return found;
+    }
+
+    /**
+     * 布局变化后检查哪些标签页已被关闭
+     */
+    private checkClosedTabs(): void {
+        if (this.tabs.size === 0) {
+            return;
+        }
+
+        const attached = new Set<WorkspaceLeaf>();
+        this.app.workspace.iterateAllLeaves(leaf => {
+            attached.add(leaf);
+        });
+
+        this.tabs.forEach((tab, id) => {
+            if (tab.leaf && !attached.has(tab.leaf)) {
+                if (tab.setParent && tab.opener && attached.has(tab.opener)) {
+                    this.app.workspace.setActiveLeaf(tab.opener, { focus: true });
+                }
+                this.markClosed(id);
+            }
+        });
+    }
+
+    private markClosed(id: string): void {
+        const tab = this.tabs.get(id);
+        if (!tab || tab.closed) {
+            return;
+        }
+
+        tab.closed = true;
+        this.tabs.delete(id);
+        tab.listeners.forEach(listener => {
+            try {
+                listener();
+            } catch (error) {
+                this.logger.error('标签页关闭回调出错', error);
+            }
+        });
+    }
+}
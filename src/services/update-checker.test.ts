@@ -0,0 +1,101 @@
+import { Logger, LogLevel } from './logging/logger';
+import { ScriptManager } from './script-manager';
+import { ScriptParser } from './script-parser';
+import { ScriptFetcher, UpdateChecker } from './update-checker';
+
+// obsidian 包只有类型声明，测试中使用替换的获取函数，不会调用 requestUrl
+jest.mock('obsidian', () => ({ requestUrl: jest.fn() }), { virtual: true });
+
+const META_URL = 'https://example.com/test.meta.js';
+const DOWNLOAD_URL = 'https://example.com/test.user.js';
+
+function createSource(version: string, body = ''): string {
+    return [
+        '// ==UserScript==',
+        '// @name         Test Script',
+        '// @namespace    https://example.com',
+        `// @version      ${version}`,
+        '// @match        https://example.com/*',
+        `// @updateURL    ${META_URL}`,
+        `// @downloadURL  ${DOWNLOAD_URL}`,
+        '// ==/UserScript==',
+        body
+    ].join('\n');
+}
+
+/**
+ * 按地址返回固定内容的获取函数，未列出的地址视为无法访问
+ */
+function createStubFetcher(responses: Record<string, string>): ScriptFetcher & { requested: string[] } {
+    const requested: string[] = [];
+    const fetcher = async (url: string) => {
+        requested.push(url);
+        if (!(url in responses)) {
+            throw new Error(`无法访问 ${url}`);
+        }
+        return responses[url];
+    };
+    return Object.assign(fetcher, { requested });
+}
+
+describe('UpdateChecker', () => {
+    // 检查失败和版本不一致会记录警告，测试中只保留错误输出
+    beforeAll(() => Logger.setGlobalLogLevel(LogLevel.ERROR));
+    afterAll(() => Logger.setGlobalLogLevel(LogLevel.INFO));
+
+    const installed = ScriptParser.parseScript(createSource('1.2.0', 'console.log(1);'));
+    installed.id = 'test-script';
+
+    // [说明, 远程版本, 是否发现更新]
+    const cases: [string, string, boolean][] = [
+        ['远程版本更新', '1.3.0', true],
+        ['远程版本相同', '1.2.0', false],
+        ['远程版本更旧', '1.1.9', false]
+    ];
+
+    it.each(cases)('%s（%s）', async (_name, remoteVersion, expected) => {
+        const fetcher = createStubFetcher({
+            [META_URL]: createSource(remoteVersion),
+            [DOWNLOAD_URL]: createSource(remoteVersion, 'console.log(2);')
+        });
+        const checker = new UpdateChecker(new ScriptManager(), fetcher);
+
+        const result = await checker.checkForUpdates([installed]);
+
+        expect(result.failures).toEqual([]);
+        if (expected) {
+            expect(result.updates).toHaveLength(1);
+            expect(result.updates[0].newVersion).toBe(remoteVersion);
+            expect(result.updates[0].downloadUrl).toBe(DOWNLOAD_URL);
+            expect(result.updates[0].source).toContain('console.log(2);');
+            expect(fetcher.requested).toEqual([META_URL, DOWNLOAD_URL]);
+        } else {
+            expect(result.updates).toEqual([]);
+            // 没有新版本时不下载完整脚本
+            expect(fetcher.requested).toEqual([META_URL]);
+        }
+    });
+
+    it('无法访问更新地址时记录失败', async () => {
+        const checker = new UpdateChecker(new ScriptManager(), createStubFetcher({}));
+
+        const result = await checker.checkForUpdates([installed]);
+
+        expect(result.updates).toEqual([]);
+        expect(result.failures).toHaveLength(1);
+        expect(result.failures[0].script).toBe(installed);
+        expect(result.failures[0].error.message).toBe(`无法访问 ${META_URL}`);
+    });
+
+    it('下载内容的版本不比已安装的新时忽略更新', async () => {
+        const checker = new UpdateChecker(new ScriptManager(), createStubFetcher({
+            [META_URL]: createSource('1.3.0'),
+            [DOWNLOAD_URL]: createSource('1.2.0', 'console.log(2);')
+        }));
+
+        const result = await checker.checkForUpdates([installed]);
+
+        expect(result.updates).toEqual([]);
+        expect(result.failures).toEqual([]);
+    });
+});
@@ -0,0 +1,187 @@
+import { requestUrl } from 'obsidian';
+import { UserScript } from '../models/script';
+import { ScriptManager } from './script-manager';
+import { ScriptParser } from './script-parser';
+import { Logger } from './logging/logger';
+import { isNewerVersion } from './utils/version-compare';
+
+/**
+ * 获取远程文本内容的函数，可替换为其他实现（例如测试时指向本地 HTTP 服务）
+ */
+export type ScriptFetcher = (url: string) => Promise<string>;
+
+/**
+ * 一个待确认的脚本更新
+ */
+export interface PendingUpdate {
+    /** 当前已安装的脚本 */
+    script: UserScript;
+    /** 远程脚本的版本号 */
+    newVersion: string;
+    /** 新脚本的下载地址 */
+    downloadUrl: string;
+    /** 新脚本的完整源码 */
+    source: string;
+}
+
+/**
+ * 检查更新的结果
+ */
+export interface UpdateCheckResult {
+    updates: PendingUpdate[];
+    /** 检查失败的脚本及原因 */
+    failures: { script: UserScript; error: Error }[];
+}
+
+/**
+ * 默认的获取函数，使用 Obsidian 的 requestUrl 以避免跨域限制
+ */
+export const requestUrlFetcher: ScriptFetcher = async (url: string) => {
+    const response = await requestUrl({ url, method: 'GET', throw: false });
+    if (response.status < 200 || response.status >= 300) {
+        throw new Error(`请求失败: ${response.status}`);
+    }
+    return response.text;
+};
+
+/**
+ * 脚本更新检查服务
+ *
+ * 按照 @updateURL 获取元数据并比较 @version，发现新版本后再从 @downloadURL 下载完整脚本。
+ * 本服务只负责发现更新，是否应用更新由调用方在用户确认后调用 applyUpdate 决定。
+ */
+export class UpdateChecker {
+    private logger = new Logger('UpdateChecker');
+    private checking = false;
+
+    constructor(
+        private scriptManager: ScriptManager,
+        private fetcher: ScriptFetcher = requestUrlFetcher
+    ) {}
+
+    /**
+     * 替换获取函数
+     */
+    setFetcher(fetcher: ScriptFetcher): void {
+        this.fetcher = fetcher;
+    }
+
+    /**
+     * 是否正在检查更新
+     */
+    isChecking(): boolean {
+        return this.checking;
+    }
+
+    /**
+     * 获取用于检查版本的地址
+     */
+    static getMetaUrl(script: UserScript): string {
+        return script.updateURL || script.downloadURL || '';
+    }
+
+    /**
+     * 获取用于下载新版本的地址
+     * 只有 @updateURL 时，按惯例把 .meta.js 换成 .user.js
+     */
+    static getDownloadUrl(script: UserScript): string {
+        if (script.downloadURL) {
+            return script.downloadURL;
+        }
+        if (script.updateURL) {
+            return script.updateURL.replace(/\.meta\.js(?=$|[?#])/, '.user.js');
+        }
+        return '';
+    }
+
+    /**
+     * 脚本是否可以检查更新
+     */
+    static canUpdate(script: UserScript): boolean {
+        return !!UpdateChecker.getMetaUrl(script) && !!script.version;
+    }
+
+    /**
+     * 检查所有脚本的更新
+     */
+    async checkForUpdates(scripts: UserScript[] = this.scriptManager.getAllScripts()): Promise<UpdateCheckResult> {
+        const result: UpdateCheckResult = { updates: [], failures: [] };
+
+        if (this.checking) {
+            this.logger.warn('已有更新检查正在进行，跳过本次检查');
+            return result;
+        }
+
+        this.checking = true;
+        try {
+            for (const script of scripts.filter(s => UpdateChecker.canUpdate(s))) {
+                try {
+                    const update = await this.checkScript(script);
+                    if (update) {
+                        result.updates.push(update);
+                    }
+                } catch (error) {
+                    const err = error instanceof Error ? error : new Error(String(error));
+                    this.logger.warn(`检查脚本 "${script.name}" 的更新失败: ${err.message}`);
+                    result.failures.push({ script, error: err });
+                }
+            }
+        } finally {
+            this.checking = false;
+        }
+
+        this.logger.info(`更新检查完成，发现 ${result.updates.length} 个更新`);
+        return result;
+    }
+
+    /**
+     * 检查单个脚本的更新，没有新版本时返回 null
+     */
+    async checkScript(script: UserScript): Promise<PendingUpdate | null> {
+        const metaUrl = UpdateChecker.getMetaUrl(script);
+        if (!metaUrl) {
+            return null;
+        }
+
+        const metaContent = await this.fetcher(metaUrl);
+        const remoteMeta = ScriptParser.parseScript(metaContent);
+
+        if (!remoteMeta.version || !isNewerVersion(remoteMeta.version, script.version)) {
+            return null;
+        }
+
+        // 元数据地址本身就是完整脚本时无需再次下载
+        const downloadUrl = remoteMeta.downloadURL || UpdateChecker.getDownloadUrl(script);
+        const source = downloadUrl === metaUrl && this.hasScriptBody(metaContent)
+            ? metaContent
+            : await this.fetcher(downloadUrl);
+
+        const remoteScript = ScriptParser.parseScript(source);
+        if (!isNewerVersion(remoteScript.version, script.version)) {
+            this.logger.warn(`脚本 "${script.name}" 的元数据版本与下载内容不一致，已忽略`);
+            return null;
+        }
+
+        return {
+            script,
+            newVersion: remoteScript.version,
+            downloadUrl,
+            source
+        };
+    }
+
+    /**
+     * 应用一个已确认的更新
+     */
+    applyUpdate(update: PendingUpdate): UserScript {
+        return this.scriptManager.updateScript(update.script.id, update.source, 'update');
+    }
+
+    /**
+     * 判断内容在元数据块之后是否还有脚本代码
+     */
+    private hasScriptBody(content: string): boolean {
+        const endIndex = content.indexOf('==/UserScript==');
+        return endIndex !== -1 && content.substring(endIndex + '==/UserScript=='.length).trim().length > 0;
+    }
+}
@@ -0,0 +1,120 @@
+import { isUrlMatched, matchesIncludePattern, matchesMatchPattern, UrlMatchRules } from './url-matcher';
+
+describe('matchesMatchPattern', () => {
+    // [规则, URL, 是否匹配]
+    const cases: [string, string, boolean][] = [
+        // 协议通配只匹配 http/https
+        ['*://example.com/*', 'http://example.com/', true],
+        ['*://example.com/*', 'https://example.com/page', true],
+        ['*://example.com/*', 'ftp://example.com/file', false],
+        ['*://example.com/*', 'file:///example.com/', false],
+        ['https://example.com/*', 'http://example.com/', false],
+        ['HTTPS://Example.com/*', 'https://EXAMPLE.com/a', true],
+
+        // *. 匹配域名本身及其子域名
+        ['https://*.example.com/*', 'https://example.com/', true],
+        ['https://*.example.com/*', 'https://www.example.com/', true],
+        ['https://*.example.com/*', 'https://a.b.example.com/x', true],
+        ['https://*.example.com/*', 'https://notexample.com/', false],
+        ['https://*.example.com/*', 'https://example.com.evil.org/', false],
+        ['https://*/*', 'https://any.host/path', true],
+        ['https://www.*.com/*', 'https://www.example.com/', false],
+
+        // 端口：未声明时忽略，声明时必须一致
+        ['https://example.com/*', 'https://example.com:8443/', true],
+        ['https://example.com:8443/*', 'https://example.com:8443/', true],
+        ['https://example.com:8443/*', 'https://example.com/', false],
+        ['https://example.com:*/*', 'https://example.com:1/', true],
+
+        // 路径通配，路径包含查询字符串，不包含片段标识
+        ['https://example.com/docs/*', 'https://example.com/docs/a/b', true],
+        ['https://example.com/docs/*', 'https://example.com/blog/', false],
+        ['https://example.com/*.html', 'https://example.com/a/b.html', true],
+        ['https://example.com/*.html', 'https://example.com/a/b.htm', false],
+        ['https://example.com/search?q=*', 'https://example.com/search?q=test', true],
+        ['https://example.com/', 'https://example.com', true],
+        ['https://example.com/', 'https://example.com/#top', true],
+        ['https://example.com/', 'https://example.com/?a=1', false],
+
+        // 特殊规则
+        ['<all_urls>', 'file:///C:/test.html', true],
+        ['<all_urls>', 'chrome://settings', false],
+        ['*', 'https://example.com/', true],
+        ['file:///*', 'file:///home/user/a.html', true],
+
+        // 无效规则不匹配任何页面
+        ['example.com', 'https://example.com/', false],
+        ['https://exa*mple.com/*', 'https://example.com/', false]
+    ];
+
+    it.each(cases)('%s 对 %s 返回 %s', (pattern, url, expected) => {
+        expect(matchesMatchPattern(pattern, url)).toBe(expected);
+    });
+});
+
+describe('matchesIncludePattern', () => {
+    const cases: [string, string, boolean][] = [
+        // 通配符
+        ['*', 'https://example.com/', true],
+        ['https://example.com/*', 'https://example.com/a?b=c#d', true],
+        ['http*://example.com/*', 'https://example.com/', true],
+        ['*example.com*', 'https://sub.example.com/path', true],
+        ['https://example.com/*', 'https://example.org/', false],
+        ['HTTPS://EXAMPLE.COM/*', 'https://example.com/', true],
+
+        // .tld
+        ['https://www.google.tld/*', 'https://www.google.com/', true],
+        ['https://www.google.tld/*', 'https://www.google.co.uk/search', true],
+        ['https://www.google.tld/*', 'https://www.google.evil.io.net/', false],
+
+        // 正则表达式
+        ['/^https:\\/\\/(www\\.)?example\\.com\\/\\d+$/', 'https://example.com/42', true],
+        ['/^https:\\/\\/(www\\.)?example\\.com\\/\\d+$/', 'https://www.example.com/abc', false],
+        ['/EXAMPLE\\.com/i', 'https://example.com/', true],
+        ['/EXAMPLE\\.com/', 'https://example.com/', false],
+        ['/example\\.com/g', 'https://example.com/', true]
+    ];
+
+    it.each(cases)('%s 对 %s 返回 %s', (pattern, url, expected) => {
+        expect(matchesIncludePattern(pattern, url)).toBe(expected);
+    });
+});
+
+describe('isUrlMatched', () => {
+    const cases: [string, UrlMatchRules, string, boolean][] = [
+        ['没有规则时匹配所有页面', {}, 'https://example.com/', true],
+        ['只有排除规则时匹配其余页面', { excludes: ['*://example.com/*'] }, 'https://example.org/', true],
+        ['命中 @match', { matches: ['https://example.com/*'] }, 'https://example.com/a', true],
+        ['未命中 @match', { matches: ['https://example.com/*'] }, 'https://example.org/a', false],
+        ['命中 @match 或 @include 之一即可', {
+            matches: ['https://example.com/*'],
+            includes: ['https://example.org/*']
+        }, 'https://example.org/a', true],
+        ['@exclude-match 优先于 @match', {
+            matches: ['https://*.example.com/*'],
+            excludeMatches: ['https://admin.example.com/*']
+        }, 'https://admin.example.com/users', false],
+        ['@exclude-match 不影响其他页面', {
+            matches: ['https://*.example.com/*'],
+            excludeMatches: ['https://admin.example.com/*']
+        }, 'https://www.example.com/users', true],
+        ['@exclude-match 优先于 @include', {
+            includes: ['*'],
+            excludeMatches: ['*://*/*.pdf']
+        }, 'https://example.com/a.pdf', false],
+        ['@exclude 优先于 @match', {
+            matches: ['https://example.com/*'],
+            excludes: ['/\\/login/']
+        }, 'https://example.com/login', false],
+        ['正则 @include', {
+            includes: ['/^https:\\/\\/example\\.com\\/item\\/\\d+/']
+        }, 'https://example.com/item/7', true],
+        ['正则 @include 未命中', {
+            includes: ['/^https:\\/\\/example\\.com\\/item\\/\\d+/']
+        }, 'https://example.com/item/new', false]
+    ];
+
+    it.each(cases)('%s', (_name, rules, url, expected) => {
+        expect(isUrlMatched(rules, url)).toBe(expected);
+    });
+});
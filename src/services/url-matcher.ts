@@ -0,0 +1,221 @@
+import { UserScript } from '../models/script';
+
+/**
+ * URL 匹配引擎，脚本管理器和各注入器共用
+ *
+ * - @match / @exclude-match：Chrome match pattern 语义
+ *   （`*` 协议只匹配 http/https，`*.` 主机前缀匹配域名本身及其子域名，
+ *   未声明端口时忽略端口，路径匹配包含查询字符串，支持 `<all_urls>`）
+ * - @include / @exclude：Greasemonkey 通配符语义（`*` 匹配任意字符，不区分大小写），
+ *   支持 `.tld` 顶级域名通配，以及 `/正则表达式/` 形式的规则
+ */
+
+/**
+ * 一组 URL 匹配规则
+ */
+export interface UrlMatchRules {
+    matches?: string[];
+    includes?: string[];
+    excludes?: string[];
+    excludeMatches?: string[];
+}
+
+const ALL_URLS_SCHEMES = ['http', 'https', 'ws', 'wss', 'ftp', 'file'];
+const WILDCARD_SCHEMES = ['http', 'https'];
+
+// 常见的顶级域名及二级域名后缀，用于 @include 中的 .tld
+const TLD_PATTERN = '(?:[a-z]{2,63}|(?:com|co|net|org|gov|edu|ac|or|ne|go)\\.[a-z]{2})';
+
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * 对正则表达式特殊字符进行转义
+ */
+function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function cached(key: string, build: () => RegExp | null): RegExp | null {
+    if (!regexCache.has(key)) {
+        let regex: RegExp | null = null;
+        try {
+            regex = build();
+        } catch (e) {
+            console.error(`[CheekyChimp] 无效的URL规则: ${key}`, e);
+        }
+        regexCache.set(key, regex);
+    }
+    return regexCache.get(key) || null;
+}
+
+/**
+ * 将 @match 规则编译为正则表达式，规则无效时返回 null
+ *
+ * 生成的正则用于匹配去掉片段标识（#...）后的完整URL
+ */
+export function matchPatternToRegExp(pattern: string): RegExp | null {
+    return cached(`match:${pattern}`, () => {
+        const trimmed = pattern.trim();
+
+        if (trimmed === '<all_urls>') {
+            return new RegExp(`^(?:${ALL_URLS_SCHEMES.join('|')}):\\/\\/`, 'i');
+        }
+
+        // 兼容 Tampermonkey 把单独的 * 视为匹配所有页面
+        if (trimmed === '*') {
+            return new RegExp(`^(?:${WILDCARD_SCHEMES.join('|')}):\\/\\/`, 'i');
+        }
+
+        const match = /^(\*|[a-z][a-z0-9+.-]*):\/\/([^/]*)(\/.*)?$/i.exec(trimmed);
+        if (!match) {
+            return null;
+        }
+
+        const [, scheme, hostPart, pathPart] = match;
+        let regexStr = '^';
+
+        // 协议
+        if (scheme === '*') {
+            regexStr += `(?:${WILDCARD_SCHEMES.join('|')})`;
+        } else {
+            regexStr += escapeRegExp(scheme.toLowerCase());
+        }
+        regexStr += ':\\/\\/';
+
+        // 主机和端口，file 协议没有主机
+        if (scheme.toLowerCase() !== 'file' || hostPart) {
+            const portMatch = /^(.*?)(?::(\*|\d+))?$/.exec(hostPart);
+            const host = (portMatch ? portMatch[1] : hostPart).toLowerCase();
+            const port = portMatch ? portMatch[2] : undefined;
+
+            if (host === '*') {
+                regexStr += '[^/:]+';
+            } else if (host.startsWith('*.')) {
+                regexStr += `(?:[^/:]+\\.)?${escapeRegExp(host.substring(2))}`;
+            } else if (host.includes('*')) {
+                // Chrome 只允许 * 出现在主机开头
+                return null;
+            } else {
+                regexStr += escapeRegExp(host);
+            }
+
+            // 未声明端口或声明 :* 时忽略端口
+            if (port && port !== '*') {
+                regexStr += `:${port}`;
+            } else {
+                regexStr += '(?::\\d+)?';
+            }
+        }
+
+        // 路径（包含查询字符串），只有 * 是通配符
+        const path = pathPart || '/';
+        regexStr += path.split('*').map(escapeRegExp).join('.*');
+        regexStr += '$';
+
+        return new RegExp(regexStr);
+    });
+}
+
+/**
+ * 将 @include/@exclude 规则编译为正则表达式，规则无效时返回 null
+ */
+export function includePatternToRegExp(pattern: string): RegExp | null {
+    return cached(`include:${pattern}`, () => {
+        const trimmed = pattern.trim();
+
+        // /正则表达式/flags
+        const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+        if (regexMatch) {
+            const flags = regexMatch[2].replace(/[gy]/g, '');
+            return new RegExp(regexMatch[1], flags);
+        }
+
+        if (trimmed === '*') {
+            return /^.*$/;
+        }
+
+        let regexStr = trimmed
+            .split('*')
+            .map(part => escapeRegExp(part).replace(/\\\.tld(?=\/|:|$)/gi, `\\.${TLD_PATTERN}`))
+            .join('.*');
+
+        return new RegExp(`^${regexStr}$`, 'i');
+    });
+}
+
+/**
+ * 去掉URL中的片段标识
+ */
+function stripHash(url: string): string {
+    const hashIndex = url.indexOf('#');
+    return hashIndex === -1 ? url : url.substring(0, hashIndex);
+}
+
+/**
+ * 规范化URL中的协议和主机大小写，便于 @match 比较
+ */
+function normalizeForMatch(url: string): string {
+    const withoutHash = stripHash(url);
+    const match = /^([a-z][a-z0-9+.-]*:\/\/)([^/?#]*)(.*)$/i.exec(withoutHash);
+    if (!match) {
+        return withoutHash;
+    }
+    const [, scheme, host, rest] = match;
+    return `${scheme.toLowerCase()}${host.toLowerCase()}${rest || '/'}`;
+}
+
+/**
+ * URL是否匹配 @match 规则
+ */
+export function matchesMatchPattern(pattern: string, url: string): boolean {
+    const regex = matchPatternToRegExp(pattern);
+    return !!regex && regex.test(normalizeForMatch(url));
+}
+
+/**
+ * URL是否匹配 @include/@exclude 规则
+ */
+export function matchesIncludePattern(pattern: string, url: string): boolean {
+    const regex = includePatternToRegExp(pattern);
+    return !!regex && regex.test(url);
+}
+
+/**
+ * 根据一组规则判断URL是否匹配
+ *
+ * 命中任意 @exclude 或 @exclude-match 时不匹配；否则命中任意 @match 或 @include 时匹配。
+ * 既没有 @match 也没有 @include 的脚本匹配所有页面。
+ */
+export function isUrlMatched(rules: UrlMatchRules, url: string): boolean {
+    const matches = rules.matches || [];
+    const includes = rules.includes || [];
+    const excludes = rules.excludes || [];
+    const excludeMatches = rules.excludeMatches || [];
+
+    if (excludes.some(pattern => matchesIncludePattern(pattern, url))) {
+        return false;
+    }
+
+    if (excludeMatches.some(pattern => matchesMatchPattern(pattern, url))) {
+        return false;
+    }
+
+    if (matches.length === 0 && includes.length === 0) {
+        return true;
+    }
+
+    return matches.some(pattern => matchesMatchPattern(pattern, url)) ||
+        includes.some(pattern => matchesIncludePattern(pattern, url));
+}
+
+/**
+ * 脚本的匹配规则是否命中URL（不考虑脚本是否启用）
+ */
+export function scriptMatchesUrl(script: UserScript, url: string): boolean {
+    return isUrlMatched({
+        matches: script.matches,
+        includes: script.includes,
+        excludes: script.excludes,
+        excludeMatches: script.excludeMatches
+    }, url);
+}
@@ -0,0 +1,43 @@
+/**
+ * ArrayBuffer 与 Base64 互转，用于通过消息桥传递二进制数据
+ */
+
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * 把二进制数据编码为 Base64
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK_SIZE)));
+    }
+    return btoa(binary);
+}
+
+/**
+ * 把 Base64 解码为二进制数据
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+/**
+ * 把字符串按 UTF-8 编码为 Base64
+ */
+export function utf8ToBase64(text: string): string {
+    return arrayBufferToBase64(new TextEncoder().encode(text).buffer as ArrayBuffer);
+}
+
+/**
+ * 把 UTF-8 编码的 Base64 解码为字符串
+ */
+export function base64ToUtf8(base64: string): string {
+    return new TextDecoder().decode(base64ToArrayBuffer(base64));
+}
@@ -0,0 +1,90 @@
+import { checkIntegrity, IntegrityHash, md5Hex, parseIntegrity } from './integrity';
+
+const SCRIPT_URL = 'https://cdn.example.com/lib.js';
+
+// "hello world" 的各种校验值
+const MD5_HEX = '5eb63bbbe01eeed093cb22bb8f5acdc3';
+const SHA1_HEX = '2aae6c35c94fcfb415dbe95f408b9ce91ee846ed';
+const SHA256_HEX = 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9';
+const SHA256_BASE64 = 'uU0nuZNNPgilLlLX2n2r+sSE7+N6U4DukIj3rOLvzek=';
+const SHA384_BASE64 = '/b2OdaZ/KfcBpOBAOF4uI5hjA+oQI5IRr5B/y7g1eLPkF8txzmRu/QgZ3YwIjeG9';
+const SHA512_HEX = '309ecc489c12d6eb4cc40f50c902f2b4d0ed77ee511a7c7a9bcd3ca86d4cd86f989dd35bc5ff499670da34255b45b0cfd830e81f605dcf7dc5542e93ae9cd76f';
+
+function toArrayBuffer(text: string): ArrayBuffer {
+    const bytes = new TextEncoder().encode(text);
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+describe('parseIntegrity', () => {
+    // [地址, 去掉校验值后的地址, 校验值]
+    const cases: [string, string, IntegrityHash[]][] = [
+        [SCRIPT_URL, SCRIPT_URL, []],
+        [`${SCRIPT_URL}#sha256=${SHA256_HEX}`, SCRIPT_URL, [{ algorithm: 'sha256', digest: SHA256_HEX }]],
+        [`${SCRIPT_URL}#md5=${MD5_HEX}`, SCRIPT_URL, [{ algorithm: 'md5', digest: MD5_HEX }]],
+        [`${SCRIPT_URL}#SHA-1=${SHA1_HEX}`, SCRIPT_URL, [{ algorithm: 'sha1', digest: SHA1_HEX }]],
+        // SRI 格式
+        [`${SCRIPT_URL}#sha384-${SHA384_BASE64}`, SCRIPT_URL, [{ algorithm: 'sha384', digest: SHA384_BASE64 }]],
+        // 多个校验值用逗号或分号分隔
+        [`${SCRIPT_URL}#md5=${MD5_HEX},sha256=${SHA256_HEX}`, SCRIPT_URL, [
+            { algorithm: 'md5', digest: MD5_HEX },
+            { algorithm: 'sha256', digest: SHA256_HEX }
+        ]],
+        [`${SCRIPT_URL}#md5=${MD5_HEX}; sha512=${SHA512_HEX}`, SCRIPT_URL, [
+            { algorithm: 'md5', digest: MD5_HEX },
+            { algorithm: 'sha512', digest: SHA512_HEX }
+        ]],
+        // # 之后不是校验值时保留原地址
+        [`${SCRIPT_URL}#section`, `${SCRIPT_URL}#section`, []],
+        [`${SCRIPT_URL}#sha256=${SHA256_HEX},section`, `${SCRIPT_URL}#sha256=${SHA256_HEX},section`, []],
+        [`${SCRIPT_URL}#crc32=abcd`, `${SCRIPT_URL}#crc32=abcd`, []]
+    ];
+
+    it.each(cases)('%s', (url, expectedUrl, expectedHashes) => {
+        expect(parseIntegrity(url)).toEqual({ url: expectedUrl, hashes: expectedHashes });
+    });
+});
+
+describe('checkIntegrity', () => {
+    const data = toArrayBuffer('hello world');
+
+    // [说明, 校验值, 是否通过]
+    const cases: [string, IntegrityHash[], boolean][] = [
+        ['没有校验值', [], true],
+        ['md5 十六进制', [{ algorithm: 'md5', digest: MD5_HEX }], true],
+        ['大写的十六进制', [{ algorithm: 'md5', digest: MD5_HEX.toUpperCase() }], true],
+        ['sha1 十六进制', [{ algorithm: 'sha1', digest: SHA1_HEX }], true],
+        ['sha256 十六进制', [{ algorithm: 'sha256', digest: SHA256_HEX }], true],
+        ['sha256 Base64', [{ algorithm: 'sha256', digest: SHA256_BASE64 }], true],
+        ['省略填充的 Base64', [{ algorithm: 'sha256', digest: SHA256_BASE64.replace(/=+$/, '') }], true],
+        ['sha384 Base64', [{ algorithm: 'sha384', digest: SHA384_BASE64 }], true],
+        ['sha512 十六进制', [{ algorithm: 'sha512', digest: SHA512_HEX }], true],
+        ['md5 不一致', [{ algorithm: 'md5', digest: '0'.repeat(32) }], false],
+        ['算法与校验值不对应', [{ algorithm: 'sha1', digest: SHA256_HEX }], false],
+        ['所有校验值都需要一致', [
+            { algorithm: 'md5', digest: MD5_HEX },
+            { algorithm: 'sha256', digest: SHA1_HEX }
+        ], false]
+    ];
+
+    it.each(cases)('%s', async (_name, hashes, expected) => {
+        const result = checkIntegrity(data, hashes);
+        if (expected) {
+            await expect(result).resolves.toBeUndefined();
+        } else {
+            await expect(result).rejects.toThrow('校验失败');
+        }
+    });
+});
+
+describe('md5Hex', () => {
+    const cases: [string, string][] = [
+        ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+        ['hello world', MD5_HEX],
+        // 超过一个 64 字节的分组
+        ['a'.repeat(100), '36a92cc94a9e0fa21f625f8bfb007adf']
+    ];
+
+    it.each(cases)('%j', (text, expected) => {
+        expect(md5Hex(text)).toBe(expected);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @require 和 @resource 地址中的完整性校验
+ *
+ * 与 Tampermonkey 和 Violentmonkey 相同，校验值写在地址的 # 之后，例如
+ * `#sha256=<十六进制>`、`#md5=<十六进制>` 或 SRI 格式的 `#sha384-<Base64>`，多个校验值用逗号或分号分隔。
+ */
+
+export type IntegrityAlgorithm = 'md5' | 'sha1' | 'sha256' | 'sha384' | 'sha512';
+
+export interface IntegrityHash {
+    algorithm: IntegrityAlgorithm;
+    /** 十六进制或 Base64 */
+    digest: string;
+}
+
+const SUBTLE_ALGORITHMS: Record<Exclude<IntegrityAlgorithm, 'md5'>, string> = {
+    sha1: 'SHA-1',
+    sha256: 'SHA-256',
+    sha384: 'SHA-384',
+    sha512: 'SHA-512'
+};
+
+/**
+ * 从地址中分离出校验值
+ * @returns 去掉校验值后的地址；# 之后不是校验值时原样返回地址，hashes 为空
+ */
+export function parseIntegrity(url: string): { url: string; hashes: IntegrityHash[] } {
+    const hashIndex = url.indexOf('#');
+    if (hashIndex === -1) {
+        return { url, hashes: [] };
+    }
+
+    const hashes: IntegrityHash[] = [];
+    const parts = url.substring(hashIndex + 1).split(/[,;]/).filter(part => part.trim());
+    for (const part of parts) {
+        const match = /^\s*(md5|sha-?1|sha-?256|sha-?384|sha-?512)[=-](\S+?)\s*$/i.exec(part);
+        if (!match) {
+            return { url, hashes: [] };
+        }
+        hashes.push({
+            algorithm: match[1].toLowerCase().replace('-', '') as IntegrityAlgorithm,
+            digest: match[2]
+        });
+    }
+
+    return { url: url.substring(0, hashIndex), hashes };
+}
+
+/**
+ * 校验数据是否与所有校验值一致
+ * @throws Error 任何一个校验值不一致时
+ */
+export async function checkIntegrity(data: ArrayBuffer, hashes: IntegrityHash[]): Promise<void> {
+    for (const hash of hashes) {
+        const digest = hash.algorithm === 'md5'
+            ? md5(new Uint8Array(data))
+            : new Uint8Array(await crypto.subtle.digest(SUBTLE_ALGORITHMS[hash.algorithm], data));
+
+        const hex = toHex(digest);
+        const base64 = btoa(String.fromCharCode.apply(null, Array.from(digest)));
+        if (hash.digest.toLowerCase() !== hex && hash.digest.replace(/=+$/, '') !== base64.replace(/=+$/, '')) {
+            throw new Error(`${hash.algorithm} 校验失败，期望 ${hash.digest}，实际 ${hex}`);
+        }
+    }
+}
+
+/**
+ * 字符串按 UTF-8 编码后的 MD5，十六进制
+ */
+export function md5Hex(text: string): string {
+    return toHex(md5(new TextEncoder().encode(text)));
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(byte => ('0' + byte.toString(16)).slice(-2)).join('');
+}
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+/**
+ * MD5，WebCrypto 不支持，只用于校验 #md5= 和生成缓存文件名
+ */
+function md5(data: Uint8Array): Uint8Array {
+    const paddedLength = (((data.length + 8) >>> 6) + 1) << 6;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(data);
+    padded[data.length] = 0x80;
+
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, (data.length << 3) >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+    const state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+    const words = new Int32Array(16);
+
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let j = 0; j < 16; j++) {
+            words[j] = view.getInt32(offset + j * 4, true);
+        }
+
+        let [a, b, c, d] = state;
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+
+            f = (f + a + MD5_CONSTANTS[i] + words[g]) | 0;
+            const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((f << shift) | (f >>> (32 - shift)))) | 0;
+        }
+
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+    }
+
+    const result = new Uint8Array(16);
+    const resultView = new DataView(result.buffer);
+    state.forEach((value, i) => resultView.setInt32(i * 4, value, true));
+    return result;
+}
@@ -1,18 +1,16 @@
 import { UserScript } from '../../models/script';
-import { ResourceLoadError } from '../error/error-types';
 import { ErrorHandler, ErrorHandlingLevel } from '../error/error-handler';
+import { ResourceCache } from '../resources/resource-cache';
 
 /**
  * 脚本预处理器，负责处理脚本的依赖和资源
  */
 export class ScriptPreprocessor {
-  // 缓存已加载的资源，避免重复加载
-  private resourceCache: Map<string, string> = new Map();
-  
   /**
    * 构造函数
+   * @param resourceCache 依赖的缓存，下载失败的依赖会被跳过
    */
-  constructor() {}
+  constructor(private resourceCache: ResourceCache) {}
   
   /**
    * 预处理脚本
@@ -21,29 +19,16 @@ export class ScriptPreprocessor {
    */
   async process(script: UserScript): Promise<string> {
     try {
-      // 提取脚本的依赖和资源
-      const { requires, resources } = this.extractResources(script);
-      
       // 如果没有依赖，直接返回原始脚本内容
-      if (requires.length === 0) {
+      if (script.requires.length === 0) {
         return script.source;
       }
       
-      // 加载依赖脚本
-      let dependencies = '';
-      for (const requireUrl of requires) {
-        try {
-          const content = await this.loadExternalResource(requireUrl);
-          dependencies += `\n// Require: ${requireUrl}\n${content}\n`;
-        } catch (error) {
-          const err = error instanceof Error ? error : new Error(String(error));
-          ErrorHandler.handle(
-            new ResourceLoadError(err.message, requireUrl, err),
-            `加载依赖 ${requireUrl}`,
-            ErrorHandlingLevel.NOTIFY
-          );
-        }
-      }
+      // 从缓存读取依赖脚本
+      const { requires } = await this.resourceCache.getScriptResources(script);
+      const dependencies = requires
+        .map(item => `\n// Require: ${item.url}\n${item.code}\n`)
+        .join('');
       
       // 将依赖插入到脚本中
       return this.injectDependencies(script.source, dependencies);
@@ -54,49 +39,6 @@ export class ScriptPreprocessor {
     }
   }
   
-  /**
-   * 从脚本中提取资源和依赖
-   * @param script 脚本对象
-   * @returns 依赖和资源列表
-   */
-  private extractResources(script: UserScript): { requires: string[], resources: {name: string, url: string}[] } {
-    return {
-      requires: script.requires || [],
-      resources: script.resources || []
-    };
-  }
-  
-  /**
-   * 加载外部资源
-   * @param url 资源URL
-   * @returns 资源内容
-   */
-  private async loadExternalResource(url: string): Promise<string> {
-    // 检查缓存
-    if (this.resourceCache.has(url)) {
-      return this.resourceCache.get(url)!;
-    }
-    
-    try {
-      // 获取资源
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP错误: ${response.status} ${response.statusText}`);
-      }
-      
-      const content = await response.text();
-      
-      // 缓存资源
-      this.resourceCache.set(url, content);
-      
-      return content;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      throw new ResourceLoadError(err.message, url, err);
-    }
-  }
-  
   /**
    * 将依赖注入到脚本中
    * @param source 原始脚本源码
@@ -0,0 +1,132 @@
+/**
+ * 按行比较文本差异的工具，用于在更新、安装和回滚脚本前展示改动
+ */
+
+export type DiffLineType = 'context' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+    /** 在旧文本中的行号（从 1 开始），新增行没有 */
+    oldLine?: number;
+    /** 在新文本中的行号（从 1 开始），删除行没有 */
+    newLine?: number;
+}
+
+export interface DiffStats {
+    added: number;
+    removed: number;
+}
+
+// 中间差异部分超过该规模时不再计算最长公共子序列，直接整体替换
+const MAX_LCS_CELLS = 4000000;
+
+function splitLines(text: string): string[] {
+    if (!text) return [];
+    return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * 计算两段文本的逐行差异
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const oldLines = splitLines(oldText);
+    const newLines = splitLines(newText);
+    const result: DiffLine[] = [];
+
+    // 去掉公共前缀和后缀，缩小需要计算的范围
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    for (let i = 0; i < prefix; i++) {
+        result.push({ type: 'context', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    result.push(...diffMiddle(oldMiddle, newMiddle, prefix));
+
+    for (let i = suffix; i > 0; i--) {
+        const oldIndex = oldLines.length - i;
+        const newIndex = newLines.length - i;
+        result.push({ type: 'context', text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+    }
+
+    return result;
+}
+
+/**
+ * 使用最长公共子序列计算中间部分的差异
+ */
+function diffMiddle(oldLines: string[], newLines: string[], offset: number): DiffLine[] {
+    const n = oldLines.length;
+    const m = newLines.length;
+    const result: DiffLine[] = [];
+
+    if (n * m > MAX_LCS_CELLS) {
+        oldLines.forEach((text, i) => result.push({ type: 'removed', text, oldLine: offset + i + 1 }));
+        newLines.forEach((text, j) => result.push({ type: 'added', text, newLine: offset + j + 1 }));
+        return result;
+    }
+
+    // lcs[i][j] 表示 oldLines[i..] 与 newLines[j..] 的最长公共子序列长度
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) {
+        lcs.push(new Uint32Array(m + 1));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = oldLines[i] === newLines[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (oldLines[i] === newLines[j]) {
+            result.push({ type: 'context', text: oldLines[i], oldLine: offset + i + 1, newLine: offset + j + 1 });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: oldLines[i], oldLine: offset + i + 1 });
+            i++;
+        } else {
+            result.push({ type: 'added', text: newLines[j], newLine: offset + j + 1 });
+            j++;
+        }
+    }
+    while (i < n) {
+        result.push({ type: 'removed', text: oldLines[i], oldLine: offset + i + 1 });
+        i++;
+    }
+    while (j < m) {
+        result.push({ type: 'added', text: newLines[j], newLine: offset + j + 1 });
+        j++;
+    }
+
+    return result;
+}
+
+/**
+ * 统计差异中的新增和删除行数
+ */
+export function getDiffStats(lines: DiffLine[]): DiffStats {
+    return lines.reduce((stats, line) => {
+        if (line.type === 'added') stats.added++;
+        if (line.type === 'removed') stats.removed++;
+        return stats;
+    }, { added: 0, removed: 0 } as DiffStats);
+}
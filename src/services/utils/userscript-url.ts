@@ -0,0 +1,13 @@
+/**
+ * 判断地址是否指向用户脚本文件（http/https 且路径以 .user.js 结尾）
+ *
+ * Greasy Fork、GitHub raw 等站点的安装链接都是这种形式。
+ */
+export function isUserScriptUrl(url: string): boolean {
+    try {
+        const parsed = new URL(url);
+        return /^https?:$/.test(parsed.protocol) && /\.user\.js$/i.test(parsed.pathname);
+    } catch (e) {
+        return false;
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * 用户脚本版本比较工具
+ *
+ * 与 Greasemonkey/Tampermonkey 相同，采用 Mozilla toolkit 的版本格式：
+ * 版本号以 "." 分段，每段形如 `<数字a><字符串b><数字c><字符串d>`，
+ * 缺失的段视为 "0"，字符串部分为空时大于任何非空字符串（因此 1.0pre < 1.0），
+ * "*" 表示无穷大，"+" 等价于下一个数字加上 "pre"（1.0+ == 1.1pre）。
+ */
+
+interface VersionPart {
+    numA: number;
+    strB: string;
+    numC: number;
+    extraD: string;
+}
+
+const EMPTY_PART: VersionPart = { numA: 0, strB: '', numC: 0, extraD: '' };
+
+/**
+ * 解析单个版本段
+ */
+function parseVersionPart(part: string): VersionPart {
+    if (!part) {
+        return EMPTY_PART;
+    }
+
+    if (part === '*') {
+        return { numA: Number.POSITIVE_INFINITY, strB: '', numC: 0, extraD: '' };
+    }
+
+    const match = part.match(/^(-?\d*)(\D*)(-?\d*)(.*)$/);
+    if (!match) {
+        return { numA: 0, strB: part, numC: 0, extraD: '' };
+    }
+
+    const [, a, b, c, d] = match;
+    const result: VersionPart = {
+        numA: a ? parseInt(a, 10) : 0,
+        strB: b,
+        numC: c ? parseInt(c, 10) : 0,
+        extraD: d
+    };
+
+    if (result.strB === '+') {
+        result.numA++;
+        result.strB = 'pre';
+    }
+
+    return result;
+}
+
+/**
+ * 比较字符串部分，空字符串大于任何非空字符串
+ */
+function compareStringPart(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a) return 1;
+    if (!b) return -1;
+    return a < b ? -1 : 1;
+}
+
+function compareNumberPart(a: number, b: number): number {
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
+}
+
+/**
+ * 比较两个用户脚本版本号
+ * @returns a < b 时返回负数，相等返回 0，a > b 时返回正数
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = (a || '').trim().split('.');
+    const partsB = (b || '').trim().split('.');
+    const length = Math.max(partsA.length, partsB.length);
+
+    for (let i = 0; i < length; i++) {
+        const partA = parseVersionPart(partsA[i] || '');
+        const partB = parseVersionPart(partsB[i] || '');
+
+        const result =
+            compareNumberPart(partA.numA, partB.numA) ||
+            compareStringPart(partA.strB, partB.strB) ||
+            compareNumberPart(partA.numC, partB.numC) ||
+            compareStringPart(partA.extraD, partB.extraD);
+
+        if (result !== 0) {
+            return result;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * 判断 candidate 是否比 current 更新
+ */
+export function isNewerVersion(candidate: string, current: string): boolean {
+    return compareVersions(candidate, current) > 0;
+}
@@ -0,0 +1,126 @@
+import { App, Modal } from 'obsidian';
+import { UserScript } from '../models/script';
+import { ScriptParser } from '../services/script-parser';
+import { BackupScript } from '../services/storage/script-backup';
+
+interface ArchiveEntry {
+    item: BackupScript;
+    script: UserScript;
+    installed: boolean;
+    selected: boolean;
+    checkbox?: HTMLInputElement;
+}
+
+/**
+ * 从 Tampermonkey 或 Violentmonkey 的备份导入脚本前，列出备份中的脚本供用户勾选
+ *
+ * 已安装的脚本（@namespace 和 @name 相同）默认不勾选，勾选后与已安装的脚本同时保留。
+ */
+export class ArchiveImportModal extends Modal {
+    private entries: ArchiveEntry[];
+    private chosen: BackupScript[] | null = null;
+    private importButton: HTMLButtonElement;
+
+    constructor(
+        app: App,
+        items: BackupScript[],
+        isInstalled: (script: UserScript) => boolean,
+        private onChoose: (items: BackupScript[] | null) => void
+    ) {
+        super(app);
+        this.entries = items.map(item => {
+            const script = ScriptParser.parseScript(item.source);
+            const installed = isInstalled(script);
+            return { item, script, installed, selected: !installed };
+        });
+    }
+
+    /**
+     * 打开对话框并等待用户选择，直接关闭时返回 null
+     */
+    static ask(app: App, items: BackupScript[], isInstalled: (script: UserScript) => boolean): Promise<BackupScript[] | null> {
+        return new Promise(resolve => {
+            new ArchiveImportModal(app, items, isInstalled, resolve).open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+        contentEl.addClass('cheekychimp-archive-import');
+
+        contentEl.createEl('h2', { text: '从备份导入脚本' });
+        contentEl.createEl('p', { text: `备份中有 ${this.entries.length} 个脚本，选择要导入的脚本。` });
+
+        const toolbar = contentEl.createDiv({ cls: 'cheekychimp-archive-toolbar' });
+        toolbar.createEl('button', { text: '全选' })
+            .addEventListener('click', () => this.selectAll(true));
+        toolbar.createEl('button', { text: '全不选' })
+            .addEventListener('click', () => this.selectAll(false));
+
+        const listEl = contentEl.createDiv({ cls: 'cheekychimp-archive-list' });
+        this.entries.forEach(entry => this.renderEntry(listEl, entry));
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        buttonContainer.createEl('button', { text: '取消' })
+            .addEventListener('click', () => this.close());
+        this.importButton = buttonContainer.createEl('button', { cls: 'mod-cta' });
+        this.importButton.addEventListener('click', () => {
+            this.chosen = this.entries.filter(entry => entry.selected).map(entry => entry.item);
+            this.close();
+        });
+
+        this.updateImportButton();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onChoose(this.chosen);
+    }
+
+    private renderEntry(container: HTMLElement, entry: ArchiveEntry): void {
+        const itemEl = container.createEl('label', { cls: 'cheekychimp-archive-item' });
+
+        const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+        checkbox.checked = entry.selected;
+        checkbox.addEventListener('change', () => {
+            entry.selected = checkbox.checked;
+            this.updateImportButton();
+        });
+
+        const infoEl = itemEl.createDiv({ cls: 'cheekychimp-archive-info' });
+        infoEl.createSpan({
+            text: `${entry.script.name || '未命名脚本'} ${entry.script.version ? `v${entry.script.version}` : ''}`,
+            cls: 'cheekychimp-script-name-text'
+        });
+
+        const valueCount = Object.keys(entry.item.values).length;
+        const details = [
+            entry.item.enabled ? '已启用' : '已禁用',
+            valueCount > 0 ? `${valueCount} 个存储值` : '',
+            entry.installed ? '已安装，导入后保留两者' : ''
+        ].filter(detail => detail);
+        infoEl.createSpan({ text: details.join(' · '), cls: 'cheekychimp-archive-meta' });
+
+        // 全选/全不选时更新勾选框
+        entry.checkbox = checkbox;
+    }
+
+    private selectAll(selected: boolean): void {
+        this.entries.forEach(entry => {
+            entry.selected = selected;
+            if (entry.checkbox) {
+                entry.checkbox.checked = selected;
+            }
+        });
+        this.updateImportButton();
+    }
+
+    private updateImportButton(): void {
+        const count = this.entries.filter(entry => entry.selected).length;
+        this.importButton.setText(`导入 ${count} 个脚本`);
+        this.importButton.disabled = count === 0;
+    }
+}
@@ -0,0 +1,53 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal for confirming actions
+ */
+export class ConfirmModal extends Modal {
+    private message: string;
+    private onConfirm: (confirmed: boolean) => void;
+
+    constructor(app: App, message: string, onConfirm: (confirmed: boolean) => void) {
+        super(app);
+        this.message = message;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        
+        contentEl.createEl('h2', { text: '确认' });
+        contentEl.createEl('p', { text: this.message });
+        
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        
+        // Cancel button
+        const cancelButton = buttonContainer.createEl('button', {
+            text: '取消',
+            cls: 'mod-warning'
+        });
+        
+        cancelButton.addEventListener('click', () => {
+            this.onConfirm(false);
+            this.close();
+        });
+        
+        // Confirm button
+        const confirmButton = buttonContainer.createEl('button', {
+            text: '确认',
+            cls: 'mod-cta'
+        });
+        
+        confirmButton.addEventListener('click', () => {
+            this.onConfirm(true);
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
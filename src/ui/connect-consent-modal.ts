@@ -0,0 +1,72 @@
+import { App, Modal, Platform } from 'obsidian';
+import { ConnectChoice, ConnectPromptRequest } from '../services/connect-permissions';
+
+/**
+ * 脚本请求连接未在 @connect 中声明的主机时弹出的确认对话框
+ */
+export class ConnectConsentModal extends Modal {
+    private choice: ConnectChoice | null = null;
+
+    constructor(
+        app: App,
+        private request: ConnectPromptRequest,
+        private onChoose: (choice: ConnectChoice | null) => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * 打开对话框并等待用户选择，直接关闭时返回 null
+     */
+    static ask(app: App, request: ConnectPromptRequest): Promise<ConnectChoice | null> {
+        return new Promise(resolve => {
+            new ConnectConsentModal(app, request, resolve).open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+
+        contentEl.createEl('h2', { text: '跨域请求确认' });
+        contentEl.createEl('p', {
+            text: `脚本 "${this.request.script.name}" 想要连接到一个未在 @connect 中声明的域名：`
+        });
+        contentEl.createEl('p', { text: this.request.host, cls: 'cheekychimp-connect-host' });
+        contentEl.createEl('p', { text: this.request.url, cls: 'cheekychimp-connect-url' });
+
+        // 移动端的请求由 requestUrl 发出，重定向在内部完成，插件无法检查目标地址
+        if (Platform.isMobile) {
+            contentEl.createEl('p', {
+                text: '注意：移动端无法检查请求的重定向，允许后该域名可以把脚本的请求转到任意地址。',
+                cls: 'mod-warning'
+            });
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+        this.addChoiceButton(buttonContainer, '拒绝', 'deny', 'mod-warning');
+        this.addChoiceButton(buttonContainer, '允许一次', 'allow-once');
+        this.addChoiceButton(buttonContainer, '总是允许', 'always-allow', 'mod-cta');
+
+        // 脚本声明了 @connect * 时额外提供允许所有域名的选项
+        if (this.request.canAllowAll) {
+            this.addChoiceButton(buttonContainer, '总是允许所有域名', 'allow-all');
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onChoose(this.choice);
+    }
+
+    private addChoiceButton(container: HTMLElement, text: string, choice: ConnectChoice, cls?: string): void {
+        const button = container.createEl('button', { text, cls });
+        button.addEventListener('click', () => {
+            this.choice = choice;
+            this.close();
+        });
+    }
+}
@@ -0,0 +1,62 @@
+import { DiffLine, getDiffStats } from '../services/utils/text-diff';
+
+/**
+ * 渲染逐行差异，未改动的长段落会被折叠，只保留改动附近的上下文
+ */
+export function renderDiff(container: HTMLElement, lines: DiffLine[], contextLines = 3): void {
+    const stats = getDiffStats(lines);
+    container.createEl('div', {
+        text: `+${stats.added} / -${stats.removed}`,
+        cls: 'cheekychimp-diff-stats'
+    });
+
+    const diffEl = container.createDiv({ cls: 'cheekychimp-diff' });
+
+    if (stats.added === 0 && stats.removed === 0) {
+        diffEl.createEl('div', { text: '内容没有变化', cls: 'cheekychimp-diff-empty' });
+        return;
+    }
+
+    // 标记需要显示的行：改动行及其前后的上下文
+    const visible = new Array<boolean>(lines.length).fill(false);
+    lines.forEach((line, index) => {
+        if (line.type === 'context') return;
+        const start = Math.max(0, index - contextLines);
+        const end = Math.min(lines.length - 1, index + contextLines);
+        for (let i = start; i <= end; i++) {
+            visible[i] = true;
+        }
+    });
+
+    let skipped = 0;
+    const flushSkipped = () => {
+        if (skipped > 0) {
+            diffEl.createEl('div', {
+                text: `… 省略 ${skipped} 行未改动内容 …`,
+                cls: 'cheekychimp-diff-line cheekychimp-diff-skipped'
+            });
+            skipped = 0;
+        }
+    };
+
+    lines.forEach((line, index) => {
+        if (!visible[index]) {
+            skipped++;
+            return;
+        }
+        flushSkipped();
+
+        const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+        const lineEl = diffEl.createDiv({ cls: `cheekychimp-diff-line cheekychimp-diff-${line.type}` });
+        lineEl.createSpan({
+            text: line.oldLine !== undefined ? String(line.oldLine) : '',
+            cls: 'cheekychimp-diff-lineno'
+        });
+        lineEl.createSpan({
+            text: line.newLine !== undefined ? String(line.newLine) : '',
+            cls: 'cheekychimp-diff-lineno'
+        });
+        lineEl.createSpan({ text: `${prefix} ${line.text}`, cls: 'cheekychimp-diff-text' });
+    });
+    flushSkipped();
+}
@@ -0,0 +1,131 @@
+import { App, Modal, Notice } from 'obsidian';
+import { UserScript } from '../models/script';
+import { ScriptHistory, ScriptVersion } from '../services/storage/script-history';
+import { diffLines } from '../services/utils/text-diff';
+import { renderDiff } from './diff-view';
+
+const ORIGIN_LABELS: Record<ScriptVersion['origin'], string> = {
+    initial: '最初的版本',
+    import: '安装',
+    edit: '手动编辑',
+    update: '自动更新',
+    file: '文件修改',
+    rollback: '回滚'
+};
+
+/**
+ * 查看脚本的历史版本，比较任意两个版本的差异并回滚
+ */
+export class ScriptHistoryModal extends Modal {
+    private versions: ScriptVersion[] = [];
+    /** 比较的两个版本，base 为旧版本，target 为新版本 */
+    private base: ScriptVersion | null = null;
+    private target: ScriptVersion | null = null;
+    private listEl: HTMLElement;
+    private diffEl: HTMLElement;
+
+    /**
+     * @param onRollback 回滚到指定的源码
+     */
+    constructor(
+        app: App,
+        private script: UserScript,
+        private history: ScriptHistory,
+        private onRollback: (source: string) => Promise<void>
+    ) {
+        super(app);
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+        contentEl.addClass('cheekychimp-history');
+
+        contentEl.createEl('h2', { text: `历史版本: ${this.script.name}` });
+        contentEl.createEl('p', { text: '选择两个版本查看差异，A 为比较的基准。' });
+
+        this.listEl = contentEl.createDiv({ cls: 'cheekychimp-history-list' });
+        this.diffEl = contentEl.createDiv({ cls: 'cheekychimp-update-diff' });
+
+        try {
+            this.versions = (await this.history.list(this.script.id)).reverse();
+        } catch (error) {
+            new Notice(`读取历史版本失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (this.versions.length === 0) {
+            this.listEl.createEl('p', { text: '还没有历史版本。脚本被编辑、更新或重新安装后会在这里保留之前的版本。' });
+            return;
+        }
+
+        // 默认比较当前版本和上一个版本
+        this.target = this.versions[0];
+        this.base = this.versions[1] || this.versions[0];
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render(): void {
+        this.listEl.empty();
+
+        const header = this.listEl.createDiv({ cls: 'cheekychimp-history-item cheekychimp-history-header' });
+        header.createSpan({ text: 'A' });
+        header.createSpan({ text: 'B' });
+        header.createSpan({ text: '版本' });
+        header.createSpan({ text: '' });
+
+        this.versions.forEach((version, index) => {
+            const itemEl = this.listEl.createDiv({ cls: 'cheekychimp-history-item' });
+
+            this.createRadio(itemEl, 'base', version);
+            this.createRadio(itemEl, 'target', version);
+
+            const infoEl = itemEl.createDiv({ cls: 'cheekychimp-history-info' });
+            infoEl.createSpan({
+                text: `#${version.id} ${version.version ? `v${version.version}` : ''}`,
+                cls: 'cheekychimp-script-name-text'
+            });
+            infoEl.createSpan({
+                text: `${ORIGIN_LABELS[version.origin] || version.origin}${version.savedAt ? ` · ${new Date(version.savedAt).toLocaleString()}` : ''}`,
+                cls: 'cheekychimp-history-meta'
+            });
+
+            const actionEl = itemEl.createDiv();
+            if (index === 0) {
+                actionEl.createSpan({ text: '当前版本', cls: 'cheekychimp-history-meta' });
+            } else {
+                actionEl.createEl('button', { text: '回滚' })
+                    .addEventListener('click', () => this.rollback(version));
+            }
+        });
+
+        this.diffEl.empty();
+        if (this.base && this.target) {
+            renderDiff(this.diffEl, diffLines(this.base.source, this.target.source));
+        }
+    }
+
+    private createRadio(container: HTMLElement, side: 'base' | 'target', version: ScriptVersion): void {
+        const radio = container.createEl('input', { type: 'radio' });
+        radio.name = `cheekychimp-history-${side}`;
+        radio.checked = this[side] === version;
+        radio.addEventListener('change', () => {
+            this[side] = version;
+            this.render();
+        });
+    }
+
+    private async rollback(version: ScriptVersion): Promise<void> {
+        try {
+            await this.onRollback(version.source);
+            new Notice(`已回滚到版本 #${version.id}`);
+            this.close();
+        } catch (error) {
+            new Notice(`回滚失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
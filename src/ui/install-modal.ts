@@ -0,0 +1,132 @@
+import { App, Modal } from 'obsidian';
+import { UserScript } from '../models/script';
+import { diffLines } from '../services/utils/text-diff';
+import { compareVersions } from '../services/utils/version-compare';
+import { renderDiff } from './diff-view';
+
+/**
+ * 安装对话框中的选择：安装新脚本、替换已安装的脚本，或与已安装的脚本同时保留
+ */
+export type ScriptInstallChoice = 'install' | 'replace' | 'keep-both';
+
+/**
+ * 安装脚本前展示元数据、请求的权限和外部依赖，已安装同一脚本时还展示与已安装版本的差异
+ *
+ * 根据版本号提供更新、降级或重新安装，以及保留两者。
+ */
+export class ScriptInstallModal extends Modal {
+    private choice: ScriptInstallChoice | null = null;
+
+    /**
+     * @param script 要安装的脚本
+     * @param installed 已安装的同一脚本（@namespace 和 @name 相同）
+     * @param sourceUrl 脚本的下载地址，从文件或剪贴板安装时为空
+     */
+    constructor(
+        app: App,
+        private script: UserScript,
+        private installed: UserScript | undefined,
+        private sourceUrl: string,
+        private onChoose: (choice: ScriptInstallChoice | null) => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * 打开对话框并等待用户选择，直接关闭时返回 null
+     */
+    static ask(app: App, script: UserScript, installed: UserScript | undefined, sourceUrl = ''): Promise<ScriptInstallChoice | null> {
+        return new Promise(resolve => {
+            new ScriptInstallModal(app, script, installed, sourceUrl, resolve).open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const script = this.script;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+        contentEl.addClass('cheekychimp-install');
+
+        contentEl.createEl('h2', { text: this.installed ? '脚本已安装' : '安装用户脚本' });
+
+        const headerEl = contentEl.createDiv({ cls: 'cheekychimp-install-header' });
+        headerEl.createSpan({ text: script.name, cls: 'cheekychimp-script-name-text' });
+        headerEl.createSpan({
+            text: this.installed
+                ? `${this.installed.version || '?'} → ${script.version || '?'}`
+                : script.version,
+            cls: 'cheekychimp-update-version'
+        });
+
+        if (script.description) {
+            contentEl.createEl('p', { text: script.description, cls: 'cheekychimp-script-description' });
+        }
+
+        const detailsEl = contentEl.createDiv({ cls: 'cheekychimp-install-details' });
+        this.addDetail(detailsEl, '作者', script.author ? [script.author] : []);
+        this.addDetail(detailsEl, '命名空间', script.namespace ? [script.namespace] : []);
+        this.addDetail(detailsEl, '来源', this.sourceUrl ? [this.sourceUrl] : []);
+        this.addDetail(detailsEl, '运行于', [...script.matches, ...script.includes]);
+        this.addDetail(detailsEl, '排除', [...script.excludes, ...script.excludeMatches]);
+        this.addDetail(detailsEl, '权限', script.grants.filter(grant => grant !== 'none'));
+        this.addDetail(detailsEl, '跨域连接', script.connects);
+        this.addDetail(detailsEl, '外部脚本', script.requires);
+        this.addDetail(detailsEl, '资源', script.resources.map(resource => `${resource.name}: ${resource.url}`));
+
+        if (this.installed) {
+            contentEl.createEl('h3', { text: '与已安装版本的差异' });
+            const diffContainer = contentEl.createDiv({ cls: 'cheekychimp-update-diff' });
+            renderDiff(diffContainer, diffLines(this.installed.source, script.source));
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+        buttonContainer.createEl('button', { text: '取消' })
+            .addEventListener('click', () => this.close());
+
+        if (!this.installed) {
+            this.addChoiceButton(buttonContainer, '安装', 'install', 'mod-cta');
+            return;
+        }
+
+        this.addChoiceButton(buttonContainer, '保留两者', 'keep-both');
+
+        const order = compareVersions(script.version, this.installed.version);
+        if (order > 0) {
+            this.addChoiceButton(buttonContainer, '更新', 'replace', 'mod-cta');
+        } else if (order < 0) {
+            this.addChoiceButton(buttonContainer, '降级', 'replace', 'mod-warning');
+        } else {
+            this.addChoiceButton(buttonContainer, '重新安装', 'replace', 'mod-cta');
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onChoose(this.choice);
+    }
+
+    /**
+     * 添加一行元数据，没有值时不显示
+     */
+    private addDetail(container: HTMLElement, label: string, values: string[]): void {
+        if (values.length === 0) {
+            return;
+        }
+
+        const rowEl = container.createDiv({ cls: 'cheekychimp-install-detail' });
+        rowEl.createDiv({ text: label, cls: 'cheekychimp-install-label' });
+        const valuesEl = rowEl.createDiv({ cls: 'cheekychimp-install-values' });
+        values.forEach(value => valuesEl.createDiv({ text: value }));
+    }
+
+    private addChoiceButton(container: HTMLElement, text: string, choice: ScriptInstallChoice, cls?: string): void {
+        const button = container.createEl('button', { text, cls });
+        button.addEventListener('click', () => {
+            this.choice = choice;
+            this.close();
+        });
+    }
+}
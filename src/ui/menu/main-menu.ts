@@ -1,7 +1,31 @@
 import { Menu, Notice } from 'obsidian';
+import { UserScript } from '../../models/script';
 import { ScriptManager } from '../../services/script-manager';
 import { MenuCommandInjector } from '../../services/injection/menu-command-injector';
 
+/**
+ * 提供当前页面可以运行的右键菜单脚本（@run-at context-menu）
+ */
+export interface ContextMenuScriptSource {
+    /** 当前页面匹配的脚本 */
+    getScripts(): UserScript[];
+    /** 在当前页面运行脚本 */
+    run(script: UserScript): void;
+}
+
+/**
+ * 把右键菜单脚本添加到菜单中，选择后在当前页面运行
+ */
+export function addContextMenuScriptItems(menu: Menu, scripts: UserScript[], run: (script: UserScript) => void): void {
+    scripts.forEach(script => {
+        menu.addItem((item) => {
+            item.setTitle(script.name)
+                .setIcon("play")
+                .onClick(() => run(script));
+        });
+    });
+}
+
 /**
  * 主菜单UI管理器
  */
@@ -12,7 +36,8 @@ export class MainMenuUI {
         private scriptManager: ScriptManager,
         private menuCommandInjector: MenuCommandInjector,
         private openSettingsCallback: () => void,
-        private createScriptCallback: (url: string) => void
+        private createScriptCallback: (url: string) => void,
+        private contextMenuScripts?: ContextMenuScriptSource
     ) {}
 
     /**
@@ -30,6 +55,15 @@ export class MainMenuUI {
         });
         
         menu.addSeparator();
+
+        // 当前页面可以运行的右键菜单脚本
+        if (this.contextMenuScripts) {
+            const scripts = this.contextMenuScripts.getScripts();
+            if (scripts.length > 0) {
+                addContextMenuScriptItems(menu, scripts, script => this.contextMenuScripts?.run(script));
+                menu.addSeparator();
+            }
+        }
         
         // 获取所有脚本
         const allScripts = this.scriptManager.getAllScripts();
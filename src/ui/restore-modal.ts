@@ -0,0 +1,67 @@
+import { App, Modal } from 'obsidian';
+import { Backup } from '../services/storage/script-backup';
+
+/**
+ * 恢复备份的方式：合并到已安装的脚本，或替换全部脚本和设置
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * 恢复备份前展示备份内容并选择恢复方式
+ */
+export class BackupRestoreModal extends Modal {
+    private mode: RestoreMode | null = null;
+
+    constructor(
+        app: App,
+        private backup: Backup,
+        private onChoose: (mode: RestoreMode | null) => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * 打开对话框并等待用户选择，直接关闭时返回 null
+     */
+    static ask(app: App, backup: Backup): Promise<RestoreMode | null> {
+        return new Promise(resolve => {
+            new BackupRestoreModal(app, backup, resolve).open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+
+        contentEl.createEl('h2', { text: '恢复备份' });
+        contentEl.createEl('p', {
+            text: `备份中有 ${this.backup.scripts.length} 个脚本${this.backup.settings ? '和插件设置' : ''}。`
+        });
+
+        const listEl = contentEl.createEl('ul');
+        listEl.createEl('li', { text: '合并：更新已安装的同名脚本，添加其余脚本，存储值按备份覆盖同名的值。其他脚本和插件设置保持不变。' });
+        listEl.createEl('li', { text: '替换：删除所有已安装的脚本及其存储值，然后恢复备份中的脚本和插件设置。' });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+        buttonContainer.createEl('button', { text: '取消' })
+            .addEventListener('click', () => this.close());
+        this.addModeButton(buttonContainer, '替换', 'replace', 'mod-warning');
+        this.addModeButton(buttonContainer, '合并', 'merge', 'mod-cta');
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onChoose(this.mode);
+    }
+
+    private addModeButton(container: HTMLElement, text: string, mode: RestoreMode, cls?: string): void {
+        const button = container.createEl('button', { text, cls });
+        button.addEventListener('click', () => {
+            this.mode = mode;
+            this.close();
+        });
+    }
+}
@@ -0,0 +1,114 @@
+import { Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { javascriptLanguage } from '@codemirror/lang-javascript';
+import { syntaxTree } from '@codemirror/language';
+import { Diagnostic, linter } from '@codemirror/lint';
+import { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { GM_GLOBAL_APIS, GM_OBJECT_APIS, GRANT_NONE } from '../services/injection/grants';
+import { INJECT_INTO_VALUES, METADATA_DIRECTIVES, RUN_AT_VALUES, ScriptParser } from '../services/script-parser';
+
+/**
+ * @match 的常用模式
+ */
+const MATCH_PATTERNS = ['*://*/*', 'https://*/*', 'http://*/*', '<all_urls>'];
+
+/**
+ * 除 GM API 外可以声明的 @grant
+ */
+const EXTRA_GRANTS = [GRANT_NONE, 'window.close', 'window.focus', 'window.onurlchange'];
+
+/**
+ * 光标所在行是否位于元数据块中
+ */
+function isInMetadataBlock(context: CompletionContext): boolean {
+    const doc = context.state.doc;
+    const before = doc.sliceString(0, context.pos);
+    const start = before.lastIndexOf('==UserScript==');
+    return start !== -1 && before.indexOf('==/UserScript==', start) === -1;
+}
+
+/**
+ * 元数据块中的自动补全：@ 后补全元数据名，@match、@grant、@run-at 后补全取值
+ */
+function metadataCompletions(context: CompletionContext): CompletionResult | null {
+    if (!isInMetadataBlock(context)) {
+        return null;
+    }
+
+    const line = context.state.doc.lineAt(context.pos);
+    const textBefore = line.text.slice(0, context.pos - line.from);
+
+    const directive = /^\s*\/\/\s*@([\w-]*)$/.exec(textBefore);
+    if (directive) {
+        return {
+            from: context.pos - directive[1].length,
+            options: METADATA_DIRECTIVES.map(name => ({ label: name, type: 'keyword' })),
+            validFor: /^[\w-]*$/
+        };
+    }
+
+    const value = /^\s*\/\/\s*@([\w-]+)\s+(\S*)$/.exec(textBefore);
+    if (!value) {
+        return null;
+    }
+
+    let options: Completion[];
+    switch (value[1]) {
+        case 'match':
+            options = MATCH_PATTERNS.map(pattern => ({ label: pattern, type: 'constant' }));
+            break;
+        case 'grant':
+            options = [
+                ...EXTRA_GRANTS.map(grant => ({ label: grant, type: 'keyword' })),
+                ...GM_GLOBAL_APIS.map(api => ({ label: api, type: 'function' })),
+                ...GM_OBJECT_APIS.map(api => ({ label: `GM.${api}`, type: 'function' }))
+            ];
+            break;
+        case 'run-at':
+            options = RUN_AT_VALUES.map(runAt => ({ label: runAt, type: 'constant' }));
+            break;
+        case 'inject-into':
+            options = INJECT_INTO_VALUES.map(mode => ({ label: mode, type: 'constant' }));
+            break;
+        default:
+            return null;
+    }
+
+    return {
+        from: context.pos - value[2].length,
+        options,
+        validFor: /^\S*$/
+    };
+}
+
+/**
+ * 检查元数据和 JavaScript 语法，在编辑器中标出问题
+ */
+const scriptLinter = linter((view: EditorView) => {
+    const diagnostics: Diagnostic[] = ScriptParser.validate(view.state.doc.toString())
+        .map(issue => ({ ...issue, source: '元数据' }));
+
+    // 语法树中的错误节点表示无法解析的代码，每段只标出第一处
+    let lastErrorEnd = -1;
+    syntaxTree(view.state).iterate({
+        enter: node => {
+            if (node.type.isError && node.from > lastErrorEnd) {
+                const to = Math.max(node.to, Math.min(node.from + 1, view.state.doc.length));
+                diagnostics.push({ from: node.from, to, severity: 'error', message: '语法错误', source: 'JavaScript' });
+                lastErrorEnd = to;
+            }
+        }
+    });
+
+    return diagnostics;
+}, { delay: 500 });
+
+/**
+ * 脚本编辑器的元数据补全和检查
+ */
+export function userscriptSupport(): Extension {
+    return [
+        javascriptLanguage.data.of({ autocomplete: metadataCompletions }),
+        scriptLinter
+    ];
+}
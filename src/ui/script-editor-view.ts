@@ -0,0 +1,231 @@
+import { autocompletion, closeBrackets, closeBracketsKeymap, completionKeymap } from '@codemirror/autocomplete';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { javascript } from '@codemirror/lang-javascript';
+import { bracketMatching, defaultHighlightStyle, indentOnInput, syntaxHighlighting } from '@codemirror/language';
+import { lintGutter, lintKeymap } from '@codemirror/lint';
+import { EditorState } from '@codemirror/state';
+import { drawSelection, EditorView, highlightActiveLine, highlightActiveLineGutter, keymap, lineNumbers } from '@codemirror/view';
+import { ItemView, Notice, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import type CheekyChimpPlugin from '../main';
+import { UserScript } from '../models/script';
+import { ScriptHistoryModal } from './history-modal';
+import { userscriptSupport } from './script-editor-extensions';
+
+export const SCRIPT_EDITOR_VIEW_TYPE = 'cheekychimp-script-editor';
+
+interface ScriptEditorState {
+    scriptId?: string;
+}
+
+/**
+ * 在标签页中编辑用户脚本
+ *
+ * 使用 CodeMirror 6，提供 JavaScript 高亮、元数据补全和检查。Ctrl/Cmd+S 保存；
+ * 脚本在别处被修改时，没有未保存的修改就重新载入。
+ */
+export class ScriptEditorView extends ItemView {
+    private scriptId = '';
+    private editor: EditorView | null = null;
+    /** 最近一次载入或保存的源码，用于判断是否有未保存的修改 */
+    private savedSource = '';
+    private dirty = false;
+    private statusEl: HTMLElement;
+
+    private handleScriptUpdated = (script: UserScript) => {
+        if (script.id === this.scriptId && !this.dirty && script.source !== this.savedSource) {
+            this.loadScript(script);
+        }
+    };
+
+    private handleScriptRemoved = (scriptId: string) => {
+        if (scriptId === this.scriptId) {
+            this.leaf.detach();
+        }
+    };
+
+    constructor(leaf: WorkspaceLeaf, private plugin: CheekyChimpPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return SCRIPT_EDITOR_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        const script = this.getScript();
+        const name = script ? script.name : '用户脚本';
+        return this.dirty ? `● ${name}` : name;
+    }
+
+    getIcon(): string {
+        return 'cheekychimp';
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), scriptId: this.scriptId };
+    }
+
+    async setState(state: ScriptEditorState, result: ViewStateResult): Promise<void> {
+        if (state.scriptId && state.scriptId !== this.scriptId) {
+            this.scriptId = state.scriptId;
+            const script = this.getScript();
+            if (script) {
+                this.loadScript(script);
+            }
+        }
+        await super.setState(state, result);
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('cheekychimp-editor-view');
+
+        this.addAction('history', '历史版本', () => this.openHistory());
+        this.addAction('refresh-cw', '保存并重新加载匹配的网页', () => this.save(true));
+        this.addAction('save', '保存 (Ctrl+S)', () => this.save(false));
+
+        this.statusEl = container.createDiv({ cls: 'cheekychimp-editor-status' });
+        const editorEl = container.createDiv({ cls: 'cheekychimp-editor-container' });
+
+        this.editor = new EditorView({
+            parent: editorEl,
+            state: this.createState('')
+        });
+
+        this.plugin.scriptManager.on('onScriptUpdated', this.handleScriptUpdated);
+        this.plugin.scriptManager.on('onScriptRemoved', this.handleScriptRemoved);
+
+        const script = this.getScript();
+        if (script) {
+            this.loadScript(script);
+        }
+    }
+
+    async onClose(): Promise<void> {
+        this.plugin.scriptManager.off('onScriptUpdated', this.handleScriptUpdated);
+        this.plugin.scriptManager.off('onScriptRemoved', this.handleScriptRemoved);
+
+        if (this.dirty) {
+            new Notice(`脚本 "${this.getDisplayText().replace(/^● /, '')}" 未保存的修改已丢弃`);
+        }
+
+        this.editor?.destroy();
+        this.editor = null;
+    }
+
+    /**
+     * 编辑的脚本ID
+     */
+    getScriptId(): string {
+        return this.scriptId;
+    }
+
+    /**
+     * 保存脚本
+     * @param reload 保存后重新加载匹配该脚本的网页
+     */
+    async save(reload: boolean): Promise<void> {
+        if (!this.editor) {
+            return;
+        }
+
+        const source = this.editor.state.doc.toString();
+        if (!source.trim()) {
+            new Notice('脚本内容不能为空');
+            return;
+        }
+
+        const previous = this.savedSource;
+        try {
+            this.savedSource = source;
+            const script = this.plugin.scriptManager.updateScript(this.scriptId, source);
+            await this.plugin.saveSettings();
+            this.setDirty(false);
+
+            if (reload) {
+                const count = this.plugin.reloadWebviewsForScript(script);
+                new Notice(`脚本 "${script.name}" 已保存，重新加载了 ${count} 个网页`);
+            } else {
+                new Notice(`脚本 "${script.name}" 已保存`);
+            }
+        } catch (error) {
+            this.savedSource = previous;
+            this.setDirty(true);
+            new Notice(`保存脚本失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private openHistory(): void {
+        const script = this.getScript();
+        if (script) {
+            new ScriptHistoryModal(this.app, script, this.plugin.scriptHistory,
+                source => this.plugin.rollbackScript(script.id, source)).open();
+        }
+    }
+
+    private getScript(): UserScript | undefined {
+        return this.scriptId ? this.plugin.scriptManager.getScript(this.scriptId) : undefined;
+    }
+
+    /**
+     * 载入脚本源码，替换编辑器的全部内容
+     */
+    private loadScript(script: UserScript): void {
+        this.savedSource = script.source;
+        if (this.editor) {
+            this.editor.setState(this.createState(script.source));
+        }
+        this.setDirty(false);
+    }
+
+    private createState(doc: string): EditorState {
+        return EditorState.create({
+            doc,
+            extensions: [
+                lineNumbers(),
+                highlightActiveLineGutter(),
+                highlightActiveLine(),
+                drawSelection(),
+                history(),
+                indentOnInput(),
+                bracketMatching(),
+                closeBrackets(),
+                autocompletion(),
+                lintGutter(),
+                syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+                javascript(),
+                userscriptSupport(),
+                keymap.of([
+                    { key: 'Mod-s', run: () => { this.save(false); return true; }, preventDefault: true },
+                    ...closeBracketsKeymap,
+                    ...defaultKeymap,
+                    ...historyKeymap,
+                    ...completionKeymap,
+                    ...lintKeymap,
+                    indentWithTab
+                ]),
+                EditorView.updateListener.of(update => {
+                    if (update.docChanged) {
+                        this.setDirty(update.state.doc.toString() !== this.savedSource);
+                    }
+                })
+            ]
+        });
+    }
+
+    private setDirty(dirty: boolean): void {
+        this.dirty = dirty;
+
+        const script = this.getScript();
+        if (this.statusEl) {
+            this.statusEl.setText(script
+                ? `${script.name} ${script.version ? `v${script.version}` : ''}${dirty ? ' · 未保存' : ''}`
+                : '脚本不存在');
+            this.statusEl.toggleClass('is-dirty', dirty);
+        }
+
+        // 更新标签页标题中的脚本名称和未保存标记
+        (this.leaf as unknown as { updateHeader?: () => void }).updateHeader?.();
+    }
+}
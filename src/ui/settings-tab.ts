@@ -1,21 +1,69 @@
-import { App, PluginSettingTab, Setting, Notice, Modal, TextComponent, ButtonComponent, Menu } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, Modal, TextComponent, ButtonComponent, DropdownComponent, Menu } from 'obsidian';
 import CheekyChimpPlugin from '../main';
-import { UserScript } from '../models/script';
+import { InjectInto, UserScript } from '../models/script';
+import { ConnectDecisions } from '../services/connect-permissions';
+import { getInjectionMode } from '../services/injection/sandbox';
+import { NotificationStyle } from '../services/notification-service';
+import { ConfirmModal } from './confirm-modal';
+import { ScriptStorageModal } from './storage-modal';
+import { ScriptHistoryModal } from './history-modal';
 
 export interface CheekyChimpSettings {
     scripts: UserScript[];
     automaticallyCheckForUpdates: boolean;
     updateInterval: number;
+    /** 上次自动检查更新的时间戳 */
+    lastUpdateCheck: number;
     debug: boolean;
     showRibbonIcon: boolean;
+    /** 每个脚本对未声明@connect主机的连接决定，按脚本ID保存 */
+    connectDecisions: Record<string, ConnectDecisions>;
+    /** GM_notification 的显示方式 */
+    notificationStyle: NotificationStyle;
+    /** 通知被静音的脚本ID */
+    mutedNotificationScripts: string[];
+    /** 每个脚本存储值的总大小上限（KB），0 表示不限制 */
+    storageQuotaKB: number;
+    /** 单个存储值的大小上限（KB），0 表示不限制 */
+    storageValueQuotaKB: number;
+    /** 是否把脚本保存为库中的 .user.js 文件 */
+    scriptFolderEnabled: boolean;
+    /** 保存脚本文件的文件夹（相对于库根目录） */
+    scriptFolder: string;
+    /** 脚本ID是否已迁移为由 @namespace 和 @name 生成的稳定ID */
+    stableScriptIds: boolean;
+    /** 每个脚本保留的历史版本数，0 表示不保留 */
+    historyLimit: number;
+    /** 是否在沙箱中运行使用 GM API 的脚本 */
+    enableSandbox: boolean;
 }
 
+/**
+ * 注入模式在界面中的名称
+ */
+const INJECT_INTO_LABELS: Record<InjectInto, string> = {
+    page: '页面',
+    content: '沙箱',
+    auto: '自动'
+};
+
 export const DEFAULT_SETTINGS: CheekyChimpSettings = {
     scripts: [],
     automaticallyCheckForUpdates: true,
     updateInterval: 24, // hours
+    lastUpdateCheck: 0,
     debug: false,
-    showRibbonIcon: true
+    showRibbonIcon: true,
+    connectDecisions: {},
+    notificationStyle: 'notice',
+    mutedNotificationScripts: [],
+    storageQuotaKB: 5120,
+    storageValueQuotaKB: 1024,
+    scriptFolderEnabled: false,
+    scriptFolder: 'UserScripts',
+    stableScriptIds: false,
+    historyLimit: 20,
+    enableSandbox: false
 };
 
 /**
@@ -64,6 +112,20 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('立即检查更新')
+            .setDesc('检查所有声明了 @updateURL 或 @downloadURL 的脚本')
+            .addButton(button => button
+                .setButtonText('检查')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    try {
+                        await this.plugin.checkForScriptUpdates(true);
+                    } finally {
+                        button.setDisabled(false);
+                    }
+                }));
+
         new Setting(containerEl)
             .setName('调试模式')
             .setDesc('启用调试日志')
@@ -86,13 +148,74 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
                     this.plugin.updateRibbonIconVisibility();
                 }));
 
+        new Setting(containerEl)
+            .setName('通知样式')
+            .setDesc('脚本通过 GM_notification 发出的通知以何种方式显示')
+            .addDropdown(dropdown => dropdown
+                .addOption('notice', 'Obsidian 通知')
+                .addOption('system', '系统通知')
+                .setValue(this.plugin.settings.notificationStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.notificationStyle = value as NotificationStyle;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('在沙箱作用域中运行脚本')
+            .setDesc('使用 GM API 的脚本在沙箱作用域中运行：脚本的全局变量保存在沙箱中，不会泄漏到页面，也不会与页面的同名变量冲突，需要访问页面的变量时使用 unsafeWindow。沙箱不是隔离环境，脚本与页面运行在同一个 JS 环境中，页面可以篡改两者共用的内置对象。只影响没有声明 @inject-into 也没有单独设置注入模式的脚本，@grant none 的脚本仍然运行在页面中。对之后加载的页面生效')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableSandbox)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableSandbox = value;
+                    this.plugin.scriptInjector.setSettings({ enableSandbox: value });
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('脚本存储配额')
+            .setDesc('每个脚本通过 GM_setValue 保存的数据总大小上限(KB)，0 表示不限制')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.storageQuotaKB))
+                .onChange(async (value) => {
+                    const quota = parseInt(value, 10);
+                    if (!isNaN(quota) && quota >= 0) {
+                        this.plugin.settings.storageQuotaKB = quota;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('单个值的配额')
+            .setDesc('单个存储值的大小上限(KB)，0 表示不限制')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.storageValueQuotaKB))
+                .onChange(async (value) => {
+                    const quota = parseInt(value, 10);
+                    if (!isNaN(quota) && quota >= 0) {
+                        this.plugin.settings.storageValueQuotaKB = quota;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('保留的历史版本数')
+            .setDesc('每个脚本保留的最近版本数，用于查看改动和回滚，0 表示不保留')
+            .addSlider(slider => slider
+                .setLimits(0, 100, 1)
+                .setValue(this.plugin.settings.historyLimit)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.historyLimit = value;
+                    await this.plugin.saveSettings();
+                }));
+
         // Script Management
         containerEl.createEl('h3', { text: '脚本管理' });
         
         // Import script button
         new Setting(containerEl)
             .setName('导入脚本')
-            .setDesc('从文件导入用户脚本')
+            .setDesc('从文件、URL 或剪贴板导入用户脚本，也可以从 Tampermonkey 或 Violentmonkey 的备份中选择脚本导入')
             .addButton(button => button
                 .setButtonText('导入')
                 .setCta()
@@ -110,6 +233,51 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
                 .onClick(() => {
                     this.createScript();
                 }));
+
+        new Setting(containerEl)
+            .setName('备份')
+            .setDesc('把所有脚本、启用状态、顺序、存储值和插件设置导出为 zip 文件，或从 CheekyChimp 或 Tampermonkey 的 zip 备份恢复')
+            .addButton(button => button
+                .setButtonText('导出')
+                .onClick(() => {
+                    this.plugin.exportBackup();
+                }))
+            .addButton(button => button
+                .setButtonText('恢复')
+                .onClick(() => {
+                    this.plugin.restoreBackupFromFile();
+                }));
+
+        new Setting(containerEl)
+            .setName('以文件保存脚本')
+            .setDesc('把每个脚本保存为库中文件夹里的 .user.js 文件。在文件夹中新建、修改或删除文件会同步添加、更新或删除脚本')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.scriptFolderEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.scriptFolderEnabled = value;
+                    await this.plugin.saveSettings();
+                    await this.plugin.applyScriptFolderSetting();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('脚本文件夹')
+            .setDesc('保存脚本文件的文件夹，相对于库的根目录')
+            .addText(text => {
+                text.setPlaceholder('UserScripts')
+                    .setValue(this.plugin.settings.scriptFolder);
+                // 输入完成后再切换文件夹，避免为输入过程中的每个路径导出脚本
+                text.inputEl.addEventListener('change', async () => {
+                    const folder = text.getValue().trim();
+                    if (!folder || folder === this.plugin.settings.scriptFolder) {
+                        return;
+                    }
+                    this.plugin.settings.scriptFolder = folder;
+                    await this.plugin.saveSettings();
+                    await this.plugin.applyScriptFolderSetting();
+                    this.display();
+                });
+            });
         
         // Script list
         containerEl.createEl('h3', { text: '已安装的脚本' });
@@ -217,9 +385,48 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
             });
         }
         
-        // Script actions (edit, delete)
+        // 注入模式
+        this.createInjectIntoSelector(infoContainer, script);
+        
+        // 跨域连接权限
+        this.createConnectDecisionList(infoContainer, script);
+        
+        // Script actions (mute, storage, history, edit, delete)
         const actionsContainer = scriptItem.createDiv({ cls: 'cheekychimp-script-actions' });
         
+        // Notification mute button
+        const muted = this.plugin.settings.mutedNotificationScripts.includes(script.id);
+        new ButtonComponent(actionsContainer)
+            .setIcon(muted ? 'bell-off' : 'bell')
+            .setTooltip(muted ? '取消通知静音' : '静音通知')
+            .onClick(async () => {
+                const list = this.plugin.settings.mutedNotificationScripts;
+                this.plugin.settings.mutedNotificationScripts = muted
+                    ? list.filter(id => id !== script.id)
+                    : [...list, script.id];
+                await this.plugin.saveSettings();
+                this.display();
+            });
+        
+        // Storage button
+        new ButtonComponent(actionsContainer)
+            .setIcon('database')
+            .setTooltip('存储')
+            .onClick(() => {
+                new ScriptStorageModal(this.app, script, this.plugin.valueStore).open();
+            });
+        
+        // History button
+        new ButtonComponent(actionsContainer)
+            .setIcon('history')
+            .setTooltip('历史版本')
+            .onClick(() => {
+                new ScriptHistoryModal(this.app, script, this.plugin.scriptHistory, async (source) => {
+                    await this.plugin.rollbackScript(script.id, source);
+                    this.display();
+                }).open();
+            });
+        
         // Edit button
         const editButton = new ButtonComponent(actionsContainer)
             .setIcon('pencil')
@@ -237,6 +444,64 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
             });
     }
 
+    /**
+     * 选择脚本的注入模式，选择「默认」时按脚本声明的 @inject-into
+     */
+    private createInjectIntoSelector(container: HTMLElement, script: UserScript): void {
+        const row = container.createDiv({ cls: 'cheekychimp-inject-into' });
+        row.createSpan({ text: '注入模式:', cls: 'cheekychimp-script-description' });
+        
+        const declared = getInjectionMode({ ...script, injectIntoOverride: '' }, this.plugin.settings.enableSandbox);
+        new DropdownComponent(row)
+            .addOption('', `${script.injectInto ? '按脚本声明' : '默认'}（${INJECT_INTO_LABELS[declared]}）`)
+            .addOptions(INJECT_INTO_LABELS)
+            .setValue(script.injectIntoOverride || '')
+            .onChange(async (value) => {
+                this.plugin.scriptManager.setInjectIntoOverride(script.id, value as InjectInto | '');
+                await this.plugin.saveSettings();
+            });
+    }
+
+    /**
+     * 列出脚本保存的@connect决定，每一项都可以撤销
+     */
+    private createConnectDecisionList(container: HTMLElement, script: UserScript): void {
+        const permissions = this.plugin.connectPermissions;
+        const decisions = permissions.getDecisions(script.id);
+        const entries: { label: string; revoke: () => Promise<void> }[] = [];
+        
+        if (decisions.allowAll) {
+            entries.push({ label: '允许所有域名', revoke: () => permissions.revokeAllowAll(script.id) });
+        }
+        decisions.allowed.forEach(host => {
+            entries.push({ label: `允许 ${host}`, revoke: () => permissions.revoke(script.id, host) });
+        });
+        decisions.denied.forEach(host => {
+            entries.push({ label: `拒绝 ${host}`, revoke: () => permissions.revoke(script.id, host) });
+        });
+        
+        if (entries.length === 0) {
+            return;
+        }
+        
+        const listEl = container.createDiv({ cls: 'cheekychimp-connect-decisions' });
+        listEl.createEl('div', { text: '跨域连接权限:', cls: 'cheekychimp-script-description' });
+        
+        entries.forEach(entry => {
+            const row = listEl.createDiv({ cls: 'cheekychimp-connect-decision' });
+            row.createSpan({ text: entry.label });
+            
+            new ButtonComponent(row)
+                .setIcon('x')
+                .setTooltip('撤销')
+                .onClick(async () => {
+                    await entry.revoke();
+                    new Notice(`已撤销: ${entry.label}`);
+                    this.display();
+                });
+        });
+    }
+
     /**
      * Import a script from file
      */
@@ -249,7 +514,7 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
             item.setTitle("从文件导入")
                 .setIcon("folder")
                 .onClick(() => {
-                    this.importFromFile();
+                    this.plugin.importScriptFromFile();
                 });
         });
         
@@ -275,55 +540,6 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
         menu.showAtMouseEvent(event);
     }
 
-    /**
-     * 从文件导入脚本
-     */
-    private async importFromFile(): Promise<void> {
-        // 创建隐藏的文件输入元素
-        const fileInput = document.createElement('input');
-        fileInput.type = 'file';
-        fileInput.accept = '.js,.user.js';
-        fileInput.style.display = 'none';
-        document.body.appendChild(fileInput);
-        
-        // 监听文件选择事件
-        fileInput.addEventListener('change', async (event) => {
-            const target = event.target as HTMLInputElement;
-            const files = target.files;
-            
-            if (!files || files.length === 0) {
-                document.body.removeChild(fileInput);
-                return;
-            }
-            
-            const file = files[0];
-            try {
-                // 读取文件内容
-                const content = await this.readFileAsText(file);
-                
-                // 检查文件是否包含UserScript头部
-                if (!content.includes('// ==UserScript==') || !content.includes('// ==/UserScript==')) {
-                    new Notice('导入失败：无效的用户脚本格式');
-                    document.body.removeChild(fileInput);
-                    return;
-                }
-                
-                // 添加脚本
-                const script = this.plugin.scriptManager.addScript(content);
-                await this.plugin.saveSettings();
-                new Notice(`脚本 "${script.name}" 已导入`);
-                this.display(); // 刷新设置页面
-            } catch (error) {
-                new Notice(`导入脚本失败: ${error.message}`);
-            } finally {
-                document.body.removeChild(fileInput);
-            }
-        });
-        
-        // 触发文件选择对话框
-        fileInput.click();
-    }
-
     /**
      * 从URL导入脚本
      */
@@ -332,22 +548,11 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
             try {
                 new Notice(`正在从 ${url} 下载脚本...`);
                 
-                // 获取脚本内容
-                const response = await fetch(url);
-                if (!response.ok) {
-                    throw new Error(`请求失败: ${response.status} ${response.statusText}`);
-                }
-                
-                const content = await response.text();
-                
-                // 检查是否是有效的用户脚本
-                if (!content.includes('// ==UserScript==') || !content.includes('// ==/UserScript==')) {
-                    throw new Error('不是有效的用户脚本格式');
+                // 下载后在安装对话框中确认
+                const script = await this.plugin.installScriptFromUrl(url);
+                if (!script) {
+                    return;
                 }
-                
-                // 添加脚本
-                const script = this.plugin.scriptManager.addScript(content);
-                await this.plugin.saveSettings();
                 new Notice(`脚本 "${script.name}" 已导入`);
                 this.display(); // 刷新设置页面
             } catch (error) {
@@ -369,7 +574,11 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
                     throw new Error('不是有效的用户脚本格式');
                 }
                 
-                const script = this.plugin.scriptManager.addScript(content);
+                // 在安装对话框中确认后添加脚本
+                const script = await this.plugin.installScript(content);
+                if (!script) {
+                    return;
+                }
                 await this.plugin.saveSettings();
                 new Notice(`脚本 "${script.name}" 已导入`);
                 this.display(); // 刷新设置页面
@@ -381,26 +590,6 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
         modal.open();
     }
 
-    /**
-     * 读取文件内容为文本
-     */
-    private readFileAsText(file: File): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                if (event.target) {
-                    resolve(event.target.result as string);
-                } else {
-                    reject(new Error('读取文件失败'));
-                }
-            };
-            reader.onerror = () => {
-                reject(new Error('读取文件失败'));
-            };
-            reader.readAsText(file);
-        });
-    }
-
     /**
      * Create a new script
      */
@@ -423,36 +612,29 @@ export class CheekyChimpSettingTab extends PluginSettingTab {
     console.log('Hello from Javascript!');
 })();`;
         
-        const modal = new ScriptEditorModal(this.app, template, async (content) => {
-            try {
-                const script = this.plugin.scriptManager.addScript(content);
-                await this.plugin.saveSettings();
-                new Notice(`脚本 "${script.name}" 已创建`);
-                this.display(); // Refresh settings page
-            } catch (error) {
-                new Notice(`创建脚本失败: ${error.message}`);
-            }
-        });
-        
-        modal.open();
+        try {
+            const script = this.plugin.scriptManager.addScript(template, { keepBoth: true, origin: 'edit' });
+            await this.plugin.saveSettings();
+            new Notice(`脚本 "${script.name}" 已创建`);
+            this.openEditor(script);
+        } catch (error) {
+            new Notice(`创建脚本失败: ${error.message}`);
+        }
     }
 
     /**
      * Edit an existing script
      */
     private async editScript(script: UserScript): Promise<void> {
-        const modal = new ScriptEditorModal(this.app, script.source, async (content) => {
-            try {
-                this.plugin.scriptManager.updateScript(script.id, content);
-                await this.plugin.saveSettings();
-                new Notice(`脚本 "${script.name}" 已更新`);
-                this.display(); // Refresh settings page
-            } catch (error) {
-                new Notice(`更新脚本失败: ${error.message}`);
-            }
-        });
-        
-        modal.open();
+        this.openEditor(script);
+    }
+
+    /**
+     * 关闭设置窗口，在标签页中打开脚本编辑器
+     */
+    private openEditor(script: UserScript): void {
+        (this.app as any).setting?.close();
+        this.plugin.openScriptEditor(script.id);
     }
 
     /**
@@ -550,137 +732,6 @@ class ScriptImportModal extends Modal {
     }
 }
 
-/**
- * Modal for editing scripts
- */
-class ScriptEditorModal extends Modal {
-    private content: string;
-    private onSubmit: (content: string) => void;
-
-    constructor(app: App, initialContent: string, onSubmit: (content: string) => void) {
-        super(app);
-        this.content = initialContent;
-        this.onSubmit = onSubmit;
-    }
-
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('cheekychimp-dialog');
-        
-        // 设置对话框宽度
-        contentEl.style.width = '500px';
-        contentEl.style.maxWidth = '80vw';
-
-        contentEl.createEl('h2', { text: '编辑用户脚本' });
-        
-        // Text area for script content
-        const textArea = contentEl.createEl('textarea', {
-            cls: 'cheekychimp-editor'
-        });
-        
-        // 设置文本区域样式
-        textArea.value = this.content;
-        textArea.style.width = '100%';
-        textArea.style.height = '500px';
-        textArea.style.minHeight = '400px';
-        textArea.style.fontSize = '14px';
-        textArea.style.fontFamily = 'monospace';
-        textArea.style.padding = '10px';
-        textArea.style.boxSizing = 'border-box';
-        
-        textArea.addEventListener('input', (e) => {
-            this.content = (e.target as HTMLTextAreaElement).value;
-        });
-        
-        // Buttons
-        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
-        
-        // Cancel button
-        const cancelButton = buttonContainer.createEl('button', {
-            text: '取消',
-            cls: 'mod-warning'
-        });
-        
-        cancelButton.addEventListener('click', () => {
-            this.close();
-        });
-        
-        // Save button
-        const saveButton = buttonContainer.createEl('button', {
-            text: '保存',
-            cls: 'mod-cta'
-        });
-        
-        saveButton.addEventListener('click', () => {
-            if (!this.content) {
-                new Notice('脚本内容不能为空');
-                return;
-            }
-            
-            this.onSubmit(this.content);
-            this.close();
-        });
-    }
-
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
-    }
-}
-
-/**
- * Modal for confirming actions
- */
-class ConfirmModal extends Modal {
-    private message: string;
-    private onConfirm: (confirmed: boolean) => void;
-
-    constructor(app: App, message: string, onConfirm: (confirmed: boolean) => void) {
-        super(app);
-        this.message = message;
-        this.onConfirm = onConfirm;
-    }
-
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-        
-        contentEl.createEl('h2', { text: '确认' });
-        contentEl.createEl('p', { text: this.message });
-        
-        // Buttons
-        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
-        
-        // Cancel button
-        const cancelButton = buttonContainer.createEl('button', {
-            text: '取消',
-            cls: 'mod-warning'
-        });
-        
-        cancelButton.addEventListener('click', () => {
-            this.onConfirm(false);
-            this.close();
-        });
-        
-        // Confirm button
-        const confirmButton = buttonContainer.createEl('button', {
-            text: '确认',
-            cls: 'mod-cta'
-        });
-        
-        confirmButton.addEventListener('click', () => {
-            this.onConfirm(true);
-            this.close();
-        });
-    }
-
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
-    }
-}
-
 /**
  * Modal for importing scripts from URL
  */
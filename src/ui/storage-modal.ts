@@ -0,0 +1,269 @@
+import { App, ButtonComponent, Modal, Notice } from 'obsidian';
+import { UserScript } from '../models/script';
+import { formatBytes, getValueSize, ValueStore } from '../services/storage/value-store';
+import { ConfirmModal } from './confirm-modal';
+
+/**
+ * 查看和编辑脚本通过 GM_setValue 保存的值
+ *
+ * 值以 JSON 编辑，保存前校验格式；修改直接写入插件侧存储，并同步到正在运行该脚本的页面。
+ */
+export class ScriptStorageModal extends Modal {
+    private values: Record<string, any> = {};
+    private listEl: HTMLElement;
+    private summaryEl: HTMLElement;
+    private editorEl: HTMLElement;
+    /** 正在编辑的键，新建时为空字符串，未编辑时为 null */
+    private editingKey: string | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(
+        app: App,
+        private script: UserScript,
+        private valueStore: ValueStore
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+        contentEl.addClass('cheekychimp-storage');
+
+        contentEl.createEl('h2', { text: `脚本存储: ${this.script.name}` });
+        this.summaryEl = contentEl.createDiv({ cls: 'cheekychimp-storage-summary' });
+        this.listEl = contentEl.createDiv({ cls: 'cheekychimp-storage-list' });
+        this.editorEl = contentEl.createDiv({ cls: 'cheekychimp-storage-editor' });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+        buttonContainer.createEl('button', { text: '清空', cls: 'mod-warning' })
+            .addEventListener('click', () => this.clearAll());
+        buttonContainer.createEl('button', { text: '导入' })
+            .addEventListener('click', () => this.importValues());
+        buttonContainer.createEl('button', { text: '导出' })
+            .addEventListener('click', () => this.exportValues());
+        buttonContainer.createEl('button', { text: '添加', cls: 'mod-cta' })
+            .addEventListener('click', () => this.openEditor(''));
+
+        // 页面中的脚本修改了值时刷新列表
+        this.unsubscribe = this.valueStore.onChange(change => {
+            if (change.scriptId === this.script.id) {
+                this.refresh();
+            }
+        });
+
+        this.refresh();
+    }
+
+    onClose() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        this.contentEl.empty();
+    }
+
+    /**
+     * 重新读取值并渲染列表
+     */
+    private async refresh(): Promise<void> {
+        try {
+            this.values = await this.valueStore.getValues(this.script.id);
+        } catch (error) {
+            this.values = {};
+            new Notice(`读取脚本存储失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        this.renderList();
+    }
+
+    private renderList(): void {
+        const keys = Object.keys(this.values).sort();
+        const total = getValueSize(this.values);
+
+        this.summaryEl.setText(keys.length === 0
+            ? '这个脚本还没有保存任何值。'
+            : `${keys.length} 个键，共 ${formatBytes(total)}`);
+
+        this.listEl.empty();
+        keys.forEach(key => {
+            const itemEl = this.listEl.createDiv({ cls: 'cheekychimp-storage-item' });
+            if (key === this.editingKey) {
+                itemEl.addClass('is-active');
+            }
+
+            itemEl.createSpan({ text: key, cls: 'cheekychimp-storage-key' });
+            itemEl.createSpan({ text: formatBytes(getValueSize(this.values[key])), cls: 'cheekychimp-storage-size' });
+
+            new ButtonComponent(itemEl)
+                .setIcon('pencil')
+                .setTooltip('编辑')
+                .onClick(() => this.openEditor(key));
+            new ButtonComponent(itemEl)
+                .setIcon('trash')
+                .setTooltip('删除')
+                .onClick(() => this.deleteKey(key));
+        });
+    }
+
+    /**
+     * 打开值编辑器
+     * @param key 要编辑的键，空字符串表示新建
+     */
+    private openEditor(key: string): void {
+        this.editingKey = key;
+        this.renderList();
+
+        const editorEl = this.editorEl;
+        editorEl.empty();
+
+        editorEl.createEl('h3', { text: key ? `编辑 ${key}` : '添加值' });
+
+        const keyInput = editorEl.createEl('input', {
+            type: 'text',
+            cls: 'cheekychimp-storage-key-input',
+            attr: { placeholder: '键名' }
+        });
+        keyInput.value = key;
+
+        const valueInput = editorEl.createEl('textarea', {
+            cls: 'cheekychimp-storage-value-input',
+            attr: { placeholder: 'JSON 格式的值，例如 "文本"、123、{"a": 1}' }
+        });
+        valueInput.value = key ? JSON.stringify(this.values[key], null, 2) : '';
+
+        const errorEl = editorEl.createDiv({ cls: 'cheekychimp-storage-error' });
+
+        // 输入时校验 JSON
+        const parse = (): { ok: boolean; value?: any } => {
+            try {
+                const value = JSON.parse(valueInput.value);
+                errorEl.setText('');
+                return { ok: true, value };
+            } catch (error) {
+                errorEl.setText(`无效的 JSON: ${error instanceof Error ? error.message : String(error)}`);
+                return { ok: false };
+            }
+        };
+        valueInput.addEventListener('input', () => parse());
+
+        const buttonContainer = editorEl.createDiv({ cls: 'modal-button-container' });
+
+        buttonContainer.createEl('button', { text: '取消' })
+            .addEventListener('click', () => this.closeEditor());
+
+        buttonContainer.createEl('button', { text: '保存', cls: 'mod-cta' })
+            .addEventListener('click', async () => {
+                const newKey = keyInput.value.trim();
+                if (!newKey) {
+                    errorEl.setText('键名不能为空');
+                    return;
+                }
+
+                const parsed = parse();
+                if (!parsed.ok) {
+                    return;
+                }
+
+                try {
+                    await this.valueStore.set(this.script.id, newKey, parsed.value);
+                    // 修改了键名时删除原来的键
+                    if (key && key !== newKey) {
+                        await this.valueStore.delete(this.script.id, key);
+                    }
+                    this.closeEditor();
+                } catch (error) {
+                    errorEl.setText(error instanceof Error ? error.message : String(error));
+                }
+            });
+
+        (key ? valueInput : keyInput).focus();
+    }
+
+    private closeEditor(): void {
+        this.editingKey = null;
+        this.editorEl.empty();
+        this.renderList();
+    }
+
+    private async deleteKey(key: string): Promise<void> {
+        try {
+            await this.valueStore.delete(this.script.id, key);
+            if (this.editingKey === key) {
+                this.closeEditor();
+            }
+        } catch (error) {
+            new Notice(`删除失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async clearAll(): Promise<void> {
+        const keys = Object.keys(this.values);
+        if (keys.length === 0) {
+            return;
+        }
+
+        const confirmed = await new Promise<boolean>(resolve => {
+            new ConfirmModal(this.app, `确定要清空脚本 "${this.script.name}" 的全部 ${keys.length} 个值吗？`, resolve).open();
+        });
+        if (!confirmed) {
+            return;
+        }
+
+        try {
+            await this.valueStore.deleteMany(this.script.id, keys);
+            this.closeEditor();
+            new Notice('已清空脚本存储');
+        } catch (error) {
+            new Notice(`清空失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 把全部值导出为 JSON 文件
+     */
+    private exportValues(): void {
+        const content = JSON.stringify(this.values, null, 2);
+        const blob = new Blob([content], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${this.script.name.replace(/[\\/:*?"<>|]/g, '_')}-storage.json`;
+        a.click();
+
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * 从 JSON 文件导入值，与现有的值合并，同名的键被覆盖
+     */
+    private importValues(): void {
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.json,application/json';
+
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files && fileInput.files[0];
+            if (!file) {
+                return;
+            }
+
+            try {
+                const imported = JSON.parse(await file.text());
+                if (!imported || typeof imported !== 'object' || Array.isArray(imported)) {
+                    new Notice('导入失败：文件内容必须是以键名为属性的 JSON 对象');
+                    return;
+                }
+
+                await this.valueStore.setMany(this.script.id, imported);
+                new Notice(`已导入 ${Object.keys(imported).length} 个值`);
+            } catch (error) {
+                new Notice(`导入失败: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+
+        fileInput.click();
+    }
+}
@@ -0,0 +1,115 @@
+import { App, Modal, Notice } from 'obsidian';
+import { PendingUpdate } from '../services/update-checker';
+import { diffLines } from '../services/utils/text-diff';
+import { renderDiff } from './diff-view';
+
+/**
+ * 展示待更新脚本及其差异，用户确认后才会应用更新
+ */
+export class ScriptUpdateModal extends Modal {
+    private selected: Set<PendingUpdate>;
+    private confirmed = false;
+
+    constructor(
+        app: App,
+        private updates: PendingUpdate[],
+        private onConfirm: (updates: PendingUpdate[]) => void
+    ) {
+        super(app);
+        this.selected = new Set(updates);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('cheekychimp-dialog');
+
+        contentEl.createEl('h2', { text: '脚本更新' });
+        contentEl.createEl('p', {
+            text: `发现 ${this.updates.length} 个脚本有新版本，请查看改动后选择要更新的脚本。`
+        });
+
+        const listEl = contentEl.createDiv({ cls: 'cheekychimp-update-list' });
+        this.updates.forEach(update => this.createUpdateItem(listEl, update));
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: '稍后',
+            cls: 'mod-warning'
+        });
+
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+
+        const confirmButton = buttonContainer.createEl('button', {
+            text: '更新所选脚本',
+            cls: 'mod-cta'
+        });
+
+        confirmButton.addEventListener('click', () => {
+            if (this.selected.size === 0) {
+                new Notice('请至少选择一个脚本');
+                return;
+            }
+
+            this.confirmed = true;
+            this.onConfirm(this.updates.filter(update => this.selected.has(update)));
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (!this.confirmed) {
+            this.onConfirm([]);
+        }
+    }
+
+    /**
+     * 创建单个更新条目
+     */
+    private createUpdateItem(container: HTMLElement, update: PendingUpdate): void {
+        const itemEl = container.createDiv({ cls: 'cheekychimp-update-item' });
+        const headerEl = itemEl.createDiv({ cls: 'cheekychimp-update-header' });
+
+        const checkbox = headerEl.createEl('input', { type: 'checkbox' });
+        checkbox.checked = true;
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+                this.selected.add(update);
+            } else {
+                this.selected.delete(update);
+            }
+        });
+
+        headerEl.createEl('span', {
+            text: update.script.name,
+            cls: 'cheekychimp-script-name-text'
+        });
+        headerEl.createEl('span', {
+            text: `${update.script.version || '?'} → ${update.newVersion}`,
+            cls: 'cheekychimp-update-version'
+        });
+
+        const diffToggle = headerEl.createEl('button', { text: '查看改动' });
+        const diffContainer = itemEl.createDiv({ cls: 'cheekychimp-update-diff' });
+        diffContainer.style.display = 'none';
+
+        let rendered = false;
+        diffToggle.addEventListener('click', () => {
+            if (!rendered) {
+                renderDiff(diffContainer, diffLines(update.script.source, update.source));
+                rendered = true;
+            }
+
+            const hidden = diffContainer.style.display === 'none';
+            diffContainer.style.display = hidden ? '' : 'none';
+            diffToggle.setText(hidden ? '隐藏改动' : '查看改动');
+        });
+    }
+}